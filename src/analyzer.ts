@@ -1,5 +1,7 @@
-import * as fs from 'fs/promises';
-import { XMLParser } from 'fast-xml-parser';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { DetailedTimeSeriesAccumulator, ResultsAggregate, SampleAccumulator, latencyBins } from './stats.js';
+import { BUILT_IN_PROFILES, thresholdsForLabel } from './profiles.js';
 import type {
   JTLResult,
   PerformanceMetrics,
@@ -7,103 +9,195 @@ import type {
   AnalysisResult,
   ErrorAnalysis,
   Bottleneck,
-  TimeSeriesData
+  BottleneckProfile,
+  BottleneckSeverity,
+  ChartData,
+  SampleKind,
+  SampleScope,
+  SeverityBands,
+  ThresholdSet,
+  TimeSeriesData,
+  TimeSeriesOptions,
+  TimeSeriesResult
 } from './types.js';
 
+interface BottleneckCheck {
+  key: keyof ThresholdSet;
+  type: Bottleneck['type'];
+  metric: string;
+  endpointDescription: string;
+  overallDescription: string;
+  floor?: boolean;
+}
+
+const BOTTLENECK_CHECKS: BottleneckCheck[] = [
+  {
+    key: 'averageResponseTime',
+    type: 'slow-endpoint',
+    metric: 'Average Response Time',
+    endpointDescription: 'has slow response time',
+    overallDescription: 'Overall response time is slow'
+  },
+  {
+    key: 'errorRate',
+    type: 'high-error-rate',
+    metric: 'Error Rate',
+    endpointDescription: 'has high error rate',
+    overallDescription: 'Overall error rate is high'
+  },
+  {
+    key: 'percentile95',
+    type: 'high-latency',
+    metric: '95th Percentile',
+    endpointDescription: 'has high latency at 95th percentile',
+    overallDescription: 'Overall latency at 95th percentile is high'
+  },
+  {
+    key: 'throughput',
+    type: 'low-throughput',
+    metric: 'Throughput',
+    endpointDescription: 'has low throughput',
+    overallDescription: 'Overall throughput is low',
+    floor: true
+  }
+];
+
+const SEVERITY_LEVELS: BottleneckSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Response message JMeter gives Transaction Controller samples, in both CSV
+ * and XML results
+ */
+const TRANSACTION_MESSAGE = /^Number of samples in transaction : \d+, number of failing samples : \d+/;
+
 /**
  * Analyzer for JMeter test results
  */
 export class ResultsAnalyzer {
   /**
-   * Parse JTL results file (supports both XML and CSV formats)
+   * Stream JTL results one sample at a time (supports both XML and CSV formats).
+   * The file is read line by line, so memory use does not depend on its size.
+   *
+   * Nested XML samples are yielded before their parent. Without a scope every
+   * sample is yielded, including transactions and sub-results.
    */
-  async parseResults(filePath: string): Promise<JTLResult[]> {
-    const content = await fs.readFile(filePath, 'utf-8');
-    
-    // Detect format
-    const isXml = content.trim().startsWith('<?xml') || content.trim().startsWith('<testResults');
-    
-    if (isXml) {
-      return this.parseXmlResults(content);
-    } else {
-      return this.parseCsvResults(content);
+  async *streamResults(filePath: string, scope?: SampleScope): AsyncGenerator<JTLResult> {
+    for await (const result of this.readSamples(filePath)) {
+      if (!scope || this.inScope(result, scope)) {
+        yield result;
+      }
     }
   }
 
-  /**
-   * Parse XML format JTL results
-   */
-  private parseXmlResults(content: string): JTLResult[] {
-    const parser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: '',
-      parseAttributeValue: true
+  private async *readSamples(filePath: string): AsyncGenerator<JTLResult> {
+    const lines = createInterface({
+      input: createReadStream(filePath, { encoding: 'utf-8' }),
+      crlfDelay: Infinity
     });
 
-    const parsed = parser.parse(content);
-    const samples = parsed.testResults?.httpSample || parsed.testResults?.sample || [];
-    const sampleArray = Array.isArray(samples) ? samples : [samples];
+    let format: 'xml' | 'csv' | undefined;
+    const xmlReader = new XmlSampleReader();
+    let csvHeaders: string[] | undefined;
+    let pendingCsv = '';
+
+    for await (const line of lines) {
+      // Detect format from the first non-empty line
+      if (!format) {
+        const trimmed = line.trim();
+        if (!trimmed) continue;
+        format = trimmed.startsWith('<?xml') || trimmed.startsWith('<testResults') ? 'xml' : 'csv';
+      }
 
-    return sampleArray.map((sample: any) => ({
-      timestamp: parseInt(sample.t) || parseInt(sample.ts) || 0,
-      elapsed: parseInt(sample.t) || 0,
-      label: sample.lb || sample.label || 'Unknown',
-      responseCode: sample.rc || '',
-      responseMessage: sample.rm || '',
-      threadName: sample.tn || '',
-      dataType: sample.dt || '',
-      success: sample.s === 'true' || sample.success === 'true',
-      failureMessage: sample.failureMessage || undefined,
-      bytes: parseInt(sample.by) || 0,
-      sentBytes: parseInt(sample.sby) || 0,
-      grpThreads: parseInt(sample.ng) || 0,
-      allThreads: parseInt(sample.na) || 0,
-      latency: parseInt(sample.lt) || 0,
-      idleTime: parseInt(sample.it) || 0,
-      connect: parseInt(sample.ct) || 0
-    }));
+      if (format === 'xml') {
+        yield* xmlReader.push(line + '\n');
+        continue;
+      }
+
+      // Quoted CSV fields may contain line breaks; keep reading until quotes balance
+      pendingCsv = pendingCsv ? `${pendingCsv}\n${line}` : line;
+      if (this.countQuotes(pendingCsv) % 2 !== 0) continue;
+
+      const record = pendingCsv;
+      pendingCsv = '';
+      if (!record.trim()) continue;
+
+      if (!csvHeaders) {
+        csvHeaders = record.split(',').map(h => h.trim());
+        continue;
+      }
+
+      const values = this.parseCsvLine(record);
+      if (values.length === 0) continue;
+      yield this.csvRowToResult(csvHeaders, values);
+    }
   }
 
   /**
-   * Parse CSV format JTL results
+   * Parse JTL results file into memory. Prefer streamResults or
+   * aggregateResults for large files.
    */
-  private parseCsvResults(content: string): JTLResult[] {
-    const lines = content.split('\n').filter(line => line.trim());
-    if (lines.length === 0) return [];
-
-    const headers = lines[0].split(',').map(h => h.trim());
+  async parseResults(filePath: string, scope?: SampleScope): Promise<JTLResult[]> {
     const results: JTLResult[] = [];
+    for await (const result of this.streamResults(filePath, scope)) {
+      results.push(result);
+    }
+    return results;
+  }
 
-    for (let i = 1; i < lines.length; i++) {
-      const values = this.parseCsvLine(lines[i]);
-      if (values.length === 0) continue;
-
-      const row: any = {};
-      headers.forEach((header, index) => {
-        row[header] = values[index] || '';
-      });
+  /**
+   * Aggregate a results file in a single streaming pass. Only requests are
+   * counted by default, so transactions do not double-count their children.
+   */
+  async aggregateResults(
+    filePath: string,
+    intervalMs: number = 10000,
+    scope: SampleScope = 'requests'
+  ): Promise<ResultsAggregate> {
+    const aggregate = new ResultsAggregate(intervalMs);
+    for await (const result of this.streamResults(filePath, scope)) {
+      aggregate.add(result);
+    }
+    return aggregate;
+  }
 
-      results.push({
-        timestamp: parseInt(row.timeStamp) || 0,
-        elapsed: parseInt(row.elapsed) || 0,
-        label: row.label || 'Unknown',
-        responseCode: row.responseCode || '',
-        responseMessage: row.responseMessage || '',
-        threadName: row.threadName || '',
-        dataType: row.dataType || '',
-        success: row.success === 'true',
-        failureMessage: row.failureMessage || undefined,
-        bytes: parseInt(row.bytes) || 0,
-        sentBytes: parseInt(row.sentBytes) || 0,
-        grpThreads: parseInt(row.grpThreads) || 0,
-        allThreads: parseInt(row.allThreads) || 0,
-        latency: parseInt(row.Latency) || parseInt(row.latency) || 0,
-        idleTime: parseInt(row.IdleTime) || parseInt(row.idleTime) || 0,
-        connect: parseInt(row.Connect) || parseInt(row.connect) || 0
-      });
+  private inScope(result: JTLResult, scope: SampleScope): boolean {
+    switch (scope) {
+      case 'requests': return result.kind === 'request';
+      case 'transactions': return result.kind === 'transaction';
+      case 'all': return result.kind !== 'subresult';
     }
+  }
 
-    return results;
+  /**
+   * Map a CSV row to a result using the header line
+   */
+  private csvRowToResult(headers: string[], values: string[]): JTLResult {
+    const row: any = {};
+    headers.forEach((header, index) => {
+      row[header] = values[index] || '';
+    });
+
+    return {
+      timestamp: parseInt(row.timeStamp) || 0,
+      elapsed: parseInt(row.elapsed) || 0,
+      label: row.label || 'Unknown',
+      responseCode: row.responseCode || '',
+      responseMessage: row.responseMessage || '',
+      threadName: row.threadName || '',
+      dataType: row.dataType || '',
+      success: row.success === 'true',
+      failureMessage: row.failureMessage || undefined,
+      bytes: parseInt(row.bytes) || 0,
+      sentBytes: parseInt(row.sentBytes) || 0,
+      grpThreads: parseInt(row.grpThreads) || 0,
+      allThreads: parseInt(row.allThreads) || 0,
+      latency: parseInt(row.Latency) || parseInt(row.latency) || 0,
+      idleTime: parseInt(row.IdleTime) || parseInt(row.idleTime) || 0,
+      connect: parseInt(row.Connect) || parseInt(row.connect) || 0,
+      // CSV results are flat, so transactions are recognised by their message
+      kind: TRANSACTION_MESSAGE.test(row.responseMessage || '') ? 'transaction' : 'request',
+      depth: 0
+    };
   }
 
   /**
@@ -118,7 +212,13 @@ export class ResultsAnalyzer {
       const char = line[i];
       
       if (char === '"') {
-        inQuotes = !inQuotes;
+        // A doubled quote inside a quoted value is a literal quote
+        if (inQuotes && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = !inQuotes;
+        }
       } else if (char === ',' && !inQuotes) {
         values.push(current.trim());
         current = '';
@@ -131,174 +231,87 @@ export class ResultsAnalyzer {
     return values;
   }
 
+  private countQuotes(text: string): number {
+    let count = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '"') count++;
+    }
+    return count;
+  }
+
   /**
    * Calculate overall performance metrics
    */
   calculateMetrics(results: JTLResult[]): PerformanceMetrics {
-    if (results.length === 0) {
-      return this.getEmptyMetrics();
+    const accumulator = new SampleAccumulator();
+    for (const result of results) {
+      accumulator.add(result);
     }
-
-    const successfulResults = results.filter(r => r.success);
-    const failedResults = results.filter(r => !r.success);
-    
-    const responseTimes = results.map(r => r.elapsed).sort((a, b) => a - b);
-    const totalTime = Math.max(...results.map(r => r.timestamp)) - Math.min(...results.map(r => r.timestamp));
-    const totalTimeInSeconds = totalTime / 1000;
-
-    return {
-      totalRequests: results.length,
-      successfulRequests: successfulResults.length,
-      failedRequests: failedResults.length,
-      errorRate: (failedResults.length / results.length) * 100,
-      averageResponseTime: this.average(responseTimes),
-      medianResponseTime: this.percentile(responseTimes, 50),
-      minResponseTime: Math.min(...responseTimes),
-      maxResponseTime: Math.max(...responseTimes),
-      percentile90: this.percentile(responseTimes, 90),
-      percentile95: this.percentile(responseTimes, 95),
-      percentile99: this.percentile(responseTimes, 99),
-      throughput: totalTimeInSeconds > 0 ? results.length / totalTimeInSeconds : 0,
-      receivedKBPerSec: totalTimeInSeconds > 0 
-        ? results.reduce((sum, r) => sum + r.bytes, 0) / 1024 / totalTimeInSeconds 
-        : 0,
-      sentKBPerSec: totalTimeInSeconds > 0 
-        ? results.reduce((sum, r) => sum + r.sentBytes, 0) / 1024 / totalTimeInSeconds 
-        : 0,
-      avgBytes: results.reduce((sum, r) => sum + r.bytes, 0) / results.length,
-      avgLatency: this.average(results.map(r => r.latency)),
-      avgConnectTime: this.average(results.map(r => r.connect))
-    };
+    return this.toPerformanceMetrics(accumulator);
   }
 
   /**
    * Calculate metrics per endpoint
    */
   calculateEndpointMetrics(results: JTLResult[]): EndpointMetrics[] {
-    const endpointGroups = this.groupBy(results, 'label');
-    const metrics: EndpointMetrics[] = [];
-
-    for (const [label, endpointResults] of Object.entries(endpointGroups)) {
-      const responseTimes = endpointResults.map(r => r.elapsed).sort((a, b) => a - b);
-      const failedCount = endpointResults.filter(r => !r.success).length;
-      const totalTime = Math.max(...endpointResults.map(r => r.timestamp)) - 
-                       Math.min(...endpointResults.map(r => r.timestamp));
-      const totalTimeInSeconds = totalTime / 1000;
-
-      metrics.push({
-        label,
-        samples: endpointResults.length,
-        average: this.average(responseTimes),
-        median: this.percentile(responseTimes, 50),
-        min: Math.min(...responseTimes),
-        max: Math.max(...responseTimes),
-        percentile90: this.percentile(responseTimes, 90),
-        percentile95: this.percentile(responseTimes, 95),
-        percentile99: this.percentile(responseTimes, 99),
-        errorRate: (failedCount / endpointResults.length) * 100,
-        throughput: totalTimeInSeconds > 0 ? endpointResults.length / totalTimeInSeconds : 0,
-        receivedKBPerSec: totalTimeInSeconds > 0 
-          ? endpointResults.reduce((sum, r) => sum + r.bytes, 0) / 1024 / totalTimeInSeconds 
-          : 0,
-        sentKBPerSec: totalTimeInSeconds > 0 
-          ? endpointResults.reduce((sum, r) => sum + r.sentBytes, 0) / 1024 / totalTimeInSeconds 
-          : 0
-      });
-    }
-
-    return metrics.sort((a, b) => b.average - a.average);
+    return this.toEndpointMetrics(this.aggregate(results).endpoints);
   }
 
   /**
    * Analyze errors
    */
   analyzeErrors(results: JTLResult[]): ErrorAnalysis[] {
-    const failedResults = results.filter(r => !r.success);
-    if (failedResults.length === 0) return [];
-
-    const errorGroups: Record<string, JTLResult[]> = {};
-    
-    for (const result of failedResults) {
-      const key = `${result.responseCode}-${result.responseMessage}`;
-      if (!errorGroups[key]) {
-        errorGroups[key] = [];
-      }
-      errorGroups[key].push(result);
-    }
-
-    return Object.entries(errorGroups).map(([_, errors]) => {
-      const affectedEndpoints = [...new Set(errors.map(e => e.label))];
-      return {
-        responseCode: errors[0].responseCode,
-        responseMessage: errors[0].responseMessage,
-        count: errors.length,
-        percentage: (errors.length / results.length) * 100,
-        affectedEndpoints
-      };
-    }).sort((a, b) => b.count - a.count);
+    return this.toErrorAnalysis(this.aggregate(results));
   }
 
   /**
-   * Identify performance bottlenecks
+   * Identify performance bottlenecks using the thresholds of a profile
    */
   identifyBottlenecks(
     metrics: PerformanceMetrics,
-    endpointMetrics: EndpointMetrics[]
+    endpointMetrics: EndpointMetrics[],
+    profile: BottleneckProfile = BUILT_IN_PROFILES.default
   ): Bottleneck[] {
     const bottlenecks: Bottleneck[] = [];
 
-    // Check for slow endpoints (>2s average)
     for (const endpoint of endpointMetrics) {
-      if (endpoint.average > 2000) {
-        bottlenecks.push({
-          type: 'slow-endpoint',
-          severity: endpoint.average > 5000 ? 'critical' : endpoint.average > 3000 ? 'high' : 'medium',
-          description: `Endpoint "${endpoint.label}" has slow response time`,
-          affectedEndpoint: endpoint.label,
-          metric: 'Average Response Time',
-          value: endpoint.average,
-          threshold: 2000
-        });
-      }
-
-      // Check for high error rates (>5%)
-      if (endpoint.errorRate > 5) {
-        bottlenecks.push({
-          type: 'high-error-rate',
-          severity: endpoint.errorRate > 20 ? 'critical' : endpoint.errorRate > 10 ? 'high' : 'medium',
-          description: `Endpoint "${endpoint.label}" has high error rate`,
-          affectedEndpoint: endpoint.label,
-          metric: 'Error Rate',
-          value: endpoint.errorRate,
-          threshold: 5
-        });
-      }
+      const thresholds = thresholdsForLabel(profile, endpoint.label);
+      const values: Record<keyof ThresholdSet, number> = {
+        averageResponseTime: endpoint.average,
+        percentile95: endpoint.percentile95,
+        errorRate: endpoint.errorRate,
+        throughput: endpoint.throughput
+      };
 
-      // Check for high latency (>1s)
-      if (endpoint.percentile95 > 1000) {
-        bottlenecks.push({
-          type: 'high-latency',
-          severity: endpoint.percentile95 > 3000 ? 'critical' : endpoint.percentile95 > 2000 ? 'high' : 'medium',
-          description: `Endpoint "${endpoint.label}" has high latency at 95th percentile`,
-          affectedEndpoint: endpoint.label,
-          metric: '95th Percentile',
-          value: endpoint.percentile95,
-          threshold: 1000
-        });
+      for (const check of BOTTLENECK_CHECKS) {
+        const bottleneck = this.checkThreshold(
+          check,
+          thresholds[check.key],
+          values[check.key],
+          endpoint.label,
+          `Endpoint "${endpoint.label}" ${check.endpointDescription}`
+        );
+        if (bottleneck) bottlenecks.push(bottleneck);
       }
     }
 
-    // Check overall error rate
-    if (metrics.errorRate > 5) {
-      bottlenecks.push({
-        type: 'high-error-rate',
-        severity: metrics.errorRate > 20 ? 'critical' : metrics.errorRate > 10 ? 'high' : 'medium',
-        description: 'Overall error rate is high',
-        affectedEndpoint: 'All endpoints',
-        metric: 'Error Rate',
-        value: metrics.errorRate,
-        threshold: 5
-      });
+    // Checks against the run as a whole
+    const overallValues: Record<keyof ThresholdSet, number> = {
+      averageResponseTime: metrics.averageResponseTime,
+      percentile95: metrics.percentile95,
+      errorRate: metrics.errorRate,
+      throughput: metrics.throughput
+    };
+
+    for (const check of BOTTLENECK_CHECKS) {
+      const bottleneck = this.checkThreshold(
+        check,
+        profile.overall[check.key],
+        overallValues[check.key],
+        'All endpoints',
+        check.overallDescription
+      );
+      if (bottleneck) bottlenecks.push(bottleneck);
     }
 
     return bottlenecks.sort((a, b) => {
@@ -307,6 +320,43 @@ export class ResultsAnalyzer {
     });
   }
 
+  /**
+   * Compare a value against severity bands. The most severe band crossed
+   * decides the severity; the least severe band is reported as the threshold.
+   */
+  private checkThreshold(
+    check: BottleneckCheck,
+    bands: SeverityBands | undefined,
+    value: number,
+    affectedEndpoint: string,
+    description: string
+  ): Bottleneck | undefined {
+    if (!bands) return undefined;
+
+    const crossed = (limit: number) => check.floor ? value < limit : value > limit;
+    let severity: BottleneckSeverity | undefined;
+    let threshold: number | undefined;
+
+    for (const level of SEVERITY_LEVELS) {
+      const limit = bands[level];
+      if (limit === undefined) continue;
+      threshold ??= limit;
+      if (crossed(limit)) severity = level;
+    }
+
+    if (!severity || threshold === undefined) return undefined;
+
+    return {
+      type: check.type,
+      severity,
+      description,
+      affectedEndpoint,
+      metric: check.metric,
+      value,
+      threshold
+    };
+  }
+
   /**
    * Generate recommendations
    */
@@ -331,6 +381,10 @@ export class ResultsAnalyzer {
         recommendations.push(
           `Reduce latency for "${bottleneck.affectedEndpoint}": Review network configuration, enable compression, or use CDN.`
         );
+      } else if (bottleneck.type === 'low-throughput') {
+        recommendations.push(
+          `Raise throughput for "${bottleneck.affectedEndpoint}": Check for thread or connection pool limits, server-side queuing, or too few load generator threads.`
+        );
       }
     }
 
@@ -383,47 +437,94 @@ export class ResultsAnalyzer {
    * Generate time series data for visualization
    */
   generateTimeSeriesData(results: JTLResult[], intervalMs: number = 10000): TimeSeriesData[] {
-    if (results.length === 0) return [];
+    return this.aggregate(results, intervalMs).timeSeries.toTimeSeries();
+  }
 
-    const minTime = Math.min(...results.map(r => r.timestamp));
-    const maxTime = Math.max(...results.map(r => r.timestamp));
-    
-    const timeSeriesData: TimeSeriesData[] = [];
-    
-    for (let time = minTime; time <= maxTime; time += intervalMs) {
-      const intervalResults = results.filter(
-        r => r.timestamp >= time && r.timestamp < time + intervalMs
-      );
+  /**
+   * Bucketed percentiles, response codes and bytes over time, overall and
+   * optionally per label, in a single streaming pass
+   */
+  async analyzeTimeSeries(filePath: string, options: TimeSeriesOptions = {}): Promise<TimeSeriesResult> {
+    const accumulator = await this.accumulateTimeSeries(filePath, options);
+    return accumulator.toResult();
+  }
 
-      if (intervalResults.length > 0) {
-        const avgResponseTime = this.average(intervalResults.map(r => r.elapsed));
-        const errorCount = intervalResults.filter(r => !r.success).length;
-        const maxThreads = Math.max(...intervalResults.map(r => r.allThreads));
-
-        timeSeriesData.push({
-          timestamp: time,
-          responseTime: avgResponseTime,
-          throughput: intervalResults.length / (intervalMs / 1000),
-          activeThreads: maxThreads,
-          errorCount
-        });
+  /**
+   * Time series plus the overall latency distribution, for rendering charts
+   */
+  async analyzeChartData(filePath: string, options: TimeSeriesOptions = {}): Promise<ChartData> {
+    const accumulator = await this.accumulateTimeSeries(filePath, options);
+    return {
+      timeSeries: accumulator.toResult(),
+      latencyDistribution: latencyBins(accumulator.histogram)
+    };
+  }
+
+  /**
+   * Complete analysis and chart data from the same streaming pass
+   */
+  async analyzeWithChartData(
+    filePath: string,
+    profile?: BottleneckProfile,
+    options: TimeSeriesOptions = {}
+  ): Promise<{ analysis: AnalysisResult; chartData: ChartData }> {
+    const aggregate = new ResultsAggregate();
+    const timeSeries = this.createTimeSeries(options);
+    for await (const result of this.streamResults(filePath, options.scope ?? 'requests')) {
+      aggregate.add(result);
+      timeSeries.add(result);
+    }
+
+    return {
+      analysis: this.buildAnalysis(aggregate, profile),
+      chartData: {
+        timeSeries: timeSeries.toResult(),
+        latencyDistribution: latencyBins(timeSeries.histogram)
       }
+    };
+  }
+
+  private async accumulateTimeSeries(
+    filePath: string,
+    options: TimeSeriesOptions
+  ): Promise<DetailedTimeSeriesAccumulator> {
+    const accumulator = this.createTimeSeries(options);
+    for await (const result of this.streamResults(filePath, options.scope ?? 'requests')) {
+      accumulator.add(result);
     }
+    return accumulator;
+  }
 
-    return timeSeriesData;
+  private createTimeSeries(options: TimeSeriesOptions): DetailedTimeSeriesAccumulator {
+    const intervalMs = options.intervalMs ?? 10000;
+    if (!(intervalMs > 0)) {
+      throw new Error(`Bucket size must be positive, got ${intervalMs} ms`);
+    }
+    return new DetailedTimeSeriesAccumulator(intervalMs, options.byLabel, options.labels);
   }
 
   /**
    * Perform complete analysis
    */
-  async analyzeResults(filePath: string): Promise<AnalysisResult> {
-    const results = await this.parseResults(filePath);
-    const metrics = this.calculateMetrics(results);
-    const endpointMetrics = this.calculateEndpointMetrics(results);
-    const errors = this.analyzeErrors(results);
-    const bottlenecks = this.identifyBottlenecks(metrics, endpointMetrics);
+  async analyzeResults(
+    filePath: string,
+    profile?: BottleneckProfile,
+    scope: SampleScope = 'requests'
+  ): Promise<AnalysisResult> {
+    const aggregate = await this.aggregateResults(filePath, 10000, scope);
+    return this.buildAnalysis(aggregate, profile);
+  }
+
+  /**
+   * Build the analysis result from aggregated totals
+   */
+  buildAnalysis(aggregate: ResultsAggregate, profile?: BottleneckProfile): AnalysisResult {
+    const metrics = this.toPerformanceMetrics(aggregate.overall);
+    const endpointMetrics = this.toEndpointMetrics(aggregate.endpoints);
+    const errors = this.toErrorAnalysis(aggregate);
+    const bottlenecks = this.identifyBottlenecks(metrics, endpointMetrics, profile);
     const recommendations = this.generateRecommendations(metrics, bottlenecks, errors);
-    const timeSeriesData = this.generateTimeSeriesData(results);
+    const timeSeriesData = aggregate.timeSeries.toTimeSeries();
 
     return {
       summary: metrics,
@@ -436,26 +537,78 @@ export class ResultsAnalyzer {
   }
 
   // Helper methods
-  private average(numbers: number[]): number {
-    if (numbers.length === 0) return 0;
-    return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+  private aggregate(results: JTLResult[], intervalMs?: number): ResultsAggregate {
+    const aggregate = new ResultsAggregate(intervalMs);
+    for (const result of results) {
+      aggregate.add(result);
+    }
+    return aggregate;
   }
 
-  private percentile(sortedNumbers: number[], percentile: number): number {
-    if (sortedNumbers.length === 0) return 0;
-    const index = Math.ceil((percentile / 100) * sortedNumbers.length) - 1;
-    return sortedNumbers[Math.max(0, index)];
+  private toPerformanceMetrics(accumulator: SampleAccumulator): PerformanceMetrics {
+    if (accumulator.count === 0) {
+      return this.getEmptyMetrics();
+    }
+
+    const totalTimeInSeconds = accumulator.durationSeconds;
+
+    return {
+      totalRequests: accumulator.count,
+      successfulRequests: accumulator.successes,
+      failedRequests: accumulator.failures,
+      errorRate: (accumulator.failures / accumulator.count) * 100,
+      averageResponseTime: accumulator.elapsedSum / accumulator.count,
+      medianResponseTime: accumulator.percentile(50),
+      minResponseTime: accumulator.minElapsed,
+      maxResponseTime: accumulator.maxElapsed,
+      percentile90: accumulator.percentile(90),
+      percentile95: accumulator.percentile(95),
+      percentile99: accumulator.percentile(99),
+      throughput: totalTimeInSeconds > 0 ? accumulator.count / totalTimeInSeconds : 0,
+      receivedKBPerSec: totalTimeInSeconds > 0 ? accumulator.bytes / 1024 / totalTimeInSeconds : 0,
+      sentKBPerSec: totalTimeInSeconds > 0 ? accumulator.sentBytes / 1024 / totalTimeInSeconds : 0,
+      avgBytes: accumulator.bytes / accumulator.count,
+      avgLatency: accumulator.latencySum / accumulator.count,
+      avgConnectTime: accumulator.connectSum / accumulator.count
+    };
   }
 
-  private groupBy<T>(array: T[], key: keyof T): Record<string, T[]> {
-    return array.reduce((groups, item) => {
-      const groupKey = String(item[key]);
-      if (!groups[groupKey]) {
-        groups[groupKey] = [];
-      }
-      groups[groupKey].push(item);
-      return groups;
-    }, {} as Record<string, T[]>);
+  private toEndpointMetrics(endpoints: Map<string, SampleAccumulator>): EndpointMetrics[] {
+    const metrics: EndpointMetrics[] = [];
+
+    for (const [label, accumulator] of endpoints) {
+      const totalTimeInSeconds = accumulator.durationSeconds;
+
+      metrics.push({
+        label,
+        samples: accumulator.count,
+        average: accumulator.elapsedSum / accumulator.count,
+        median: accumulator.percentile(50),
+        min: accumulator.minElapsed,
+        max: accumulator.maxElapsed,
+        percentile90: accumulator.percentile(90),
+        percentile95: accumulator.percentile(95),
+        percentile99: accumulator.percentile(99),
+        errorRate: (accumulator.failures / accumulator.count) * 100,
+        throughput: totalTimeInSeconds > 0 ? accumulator.count / totalTimeInSeconds : 0,
+        receivedKBPerSec: totalTimeInSeconds > 0 ? accumulator.bytes / 1024 / totalTimeInSeconds : 0,
+        sentKBPerSec: totalTimeInSeconds > 0 ? accumulator.sentBytes / 1024 / totalTimeInSeconds : 0
+      });
+    }
+
+    return metrics.sort((a, b) => b.average - a.average);
+  }
+
+  private toErrorAnalysis(aggregate: ResultsAggregate): ErrorAnalysis[] {
+    const total = aggregate.overall.count;
+
+    return [...aggregate.errors.values()].map(group => ({
+      responseCode: group.responseCode,
+      responseMessage: group.responseMessage,
+      count: group.count,
+      percentage: (group.count / total) * 100,
+      affectedEndpoints: [...group.labels]
+    })).sort((a, b) => b.count - a.count);
   }
 
   private getEmptyMetrics(): PerformanceMetrics {
@@ -480,3 +633,178 @@ export class ResultsAnalyzer {
     };
   }
 }
+
+/**
+ * A sample element whose closing tag has not been read yet
+ */
+interface OpenSample {
+  element: string;
+  attributes: Record<string, string>;
+  failureMessage: string;
+  hasChildren: boolean;
+}
+
+/**
+ * Incremental reader for XML JTL files. Text is pushed in as it is read and
+ * samples at every nesting level are returned as soon as their closing tag is
+ * seen, children before their parent.
+ */
+class XmlSampleReader {
+  private buffer = '';
+  private open: OpenSample[] = [];
+  private captureFailureMessage = false;
+
+  push(text: string): JTLResult[] {
+    this.buffer += text;
+    const results: JTLResult[] = [];
+    let position = 0;
+
+    while (true) {
+      const open = this.buffer.indexOf('<', position);
+      if (open < 0) {
+        this.handleText(this.buffer.slice(position));
+        position = this.buffer.length;
+        break;
+      }
+
+      const close = this.buffer.indexOf('>', open);
+      if (close < 0) {
+        this.handleText(this.buffer.slice(position, open));
+        position = open;
+        break;
+      }
+
+      this.handleText(this.buffer.slice(position, open));
+      const result = this.handleTag(this.buffer.slice(open + 1, close));
+      if (result) results.push(result);
+      position = close + 1;
+    }
+
+    this.buffer = this.buffer.slice(position);
+    return results;
+  }
+
+  private handleText(text: string): void {
+    const sample = this.open[this.open.length - 1];
+    if (this.captureFailureMessage && sample && text) {
+      sample.failureMessage += text;
+    }
+  }
+
+  private handleTag(tag: string): JTLResult | undefined {
+    const match = tag.match(/^(\/?)([\w.:-]+)([\s\S]*?)(\/?)$/);
+    if (!match) return undefined;
+
+    const [, closing, name, attributes, selfClosing] = match;
+
+    if (name === 'failureMessage') {
+      this.captureFailureMessage = !closing && !selfClosing;
+      return undefined;
+    }
+
+    if (name !== 'httpSample' && name !== 'sample') return undefined;
+
+    if (closing) {
+      const sample = this.open.pop();
+      return sample ? this.completeSample(sample) : undefined;
+    }
+
+    const parent = this.open[this.open.length - 1];
+    if (parent) parent.hasChildren = true;
+
+    const sample: OpenSample = {
+      element: name,
+      attributes: this.parseAttributes(attributes),
+      failureMessage: '',
+      hasChildren: false
+    };
+
+    if (selfClosing) {
+      return this.completeSample(sample);
+    }
+
+    this.open.push(sample);
+    return undefined;
+  }
+
+  /**
+   * Build the result for a sample whose element has closed. Its parent, if
+   * any, is still open.
+   */
+  private completeSample(open: OpenSample): JTLResult {
+    const sample = open.attributes;
+    const parent = this.open[this.open.length - 1];
+    const failureMessage = decodeXmlEntities(open.failureMessage.trim());
+
+    // Children of a transaction are requests; children of a request are
+    // its redirect hops or embedded resources
+    let kind: SampleKind = 'request';
+    if (this.isTransaction(open)) {
+      kind = 'transaction';
+    } else if (parent && !this.isTransaction(parent)) {
+      kind = 'subresult';
+    }
+
+    return {
+      timestamp: parseInt(sample.ts) || 0,
+      elapsed: parseInt(sample.t) || 0,
+      label: sample.lb || 'Unknown',
+      responseCode: sample.rc || '',
+      responseMessage: sample.rm || '',
+      threadName: sample.tn || '',
+      dataType: sample.dt || '',
+      success: sample.s === 'true',
+      failureMessage: failureMessage || undefined,
+      bytes: parseInt(sample.by) || 0,
+      sentBytes: parseInt(sample.sby) || 0,
+      grpThreads: parseInt(sample.ng) || 0,
+      allThreads: parseInt(sample.na) || 0,
+      latency: parseInt(sample.lt) || 0,
+      idleTime: parseInt(sample.it) || 0,
+      connect: parseInt(sample.ct) || 0,
+      kind,
+      depth: this.open.length,
+      parentLabel: parent ? parent.attributes.lb || 'Unknown' : undefined
+    };
+  }
+
+  /**
+   * Transaction Controller samples carry the transaction message; a generic
+   * sample element wrapping other samples is also a transaction
+   */
+  private isTransaction(sample: OpenSample): boolean {
+    return TRANSACTION_MESSAGE.test(sample.attributes.rm || '') ||
+      (sample.element === 'sample' && sample.hasChildren);
+  }
+
+  private parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+    }
+
+    return attributes;
+  }
+}
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
@@ -1,5 +1,64 @@
 import * as fs from 'fs/promises';
-import type { TestCreationOptions } from './types.js';
+import type {
+  TestCreationOptions,
+  ScenarioStep,
+  GraphQLRequest,
+  RequestStep,
+  TransactionStep,
+  ThinkTime,
+  Extractor,
+  ExtractorSource,
+  CsvDataSet,
+  LoadProfile,
+  Timer,
+  HttpAuthorization,
+  OAuth2ClientCredentials,
+  Assertion,
+  AssertionOperator,
+  BackendListenerOptions
+} from './types.js';
+
+/**
+ * Values of the extractors' useHeaders property for each response field
+ */
+const EXTRACTOR_SOURCES: Record<ExtractorSource, string> = {
+  body: 'false',
+  headers: 'true',
+  url: 'URL',
+  code: 'code'
+};
+
+/**
+ * Response Assertion test types for each operator; NOT is added for negation
+ */
+const RESPONSE_TEST_TYPES: Partial<Record<AssertionOperator, number>> = {
+  matches: 1,
+  equals: 8,
+  contains: 16
+};
+const RESPONSE_TEST_NOT = 4;
+const RESPONSE_TEST_FIND = 2;
+
+/**
+ * Size Assertion comparison for each operator, plain and negated
+ */
+const SIZE_OPERATORS: Partial<Record<AssertionOperator, [number, number]>> = {
+  equals: [1, 2],
+  greaterThan: [3, 6],
+  lessThan: [4, 5]
+};
+
+/**
+ * One scheduled thread group of a generated plan
+ */
+interface ThreadGroupPlan {
+  name: string;
+  threads: number;
+  rampUp: number;
+  duration: number;
+  delay: number;
+  rps?: number;
+}
 
 /**
  * Builder for creating JMeter test plans programmatically
@@ -36,22 +95,59 @@ export class TestPlanBuilder {
   private generateHttpTestPlan(options: TestCreationOptions): string {
     const {
       name,
-      threads,
-      rampUp,
-      duration,
-      endpoint,
-      method = 'GET',
       headers = {},
-      body,
-      assertions = [],
       listeners = []
     } = options;
 
-    // GUIDs generated for future use in extended features
-    // const testPlanGuid = this.generateGuid();
-    // const threadGroupGuid = this.generateGuid();
-    // const samplerGuid = this.generateGuid();
-    // const headerManagerGuid = this.generateGuid();
+    const steps = this.resolveSteps(options);
+    const csvDataSets = options.csvDataSets || [];
+    this.checkVariableOrder(steps, {
+      ...options.variables,
+      ...Object.fromEntries(csvDataSets.flatMap(dataSet => dataSet.variableNames).map(variable => [variable, '']))
+    });
+
+    // Config elements, samplers, transaction controllers and think time
+    let config = '';
+    if (options.cookieManager) {
+      config += this.generateCookieManager();
+    }
+    if (options.cacheManager) {
+      config += this.generateCacheManager();
+    }
+    if (options.authorization && options.authorization.length > 0) {
+      config += this.generateAuthManager(options.authorization);
+    }
+    for (const dataSet of csvDataSets) {
+      config += this.generateCsvDataSet(dataSet);
+    }
+    if (Object.keys(headers).length > 0) {
+      config += this.generateHeaderManager(headers);
+    }
+    const timers = options.timers || [];
+    const bearer = options.oauth2
+      ? this.generateHeaderManager(
+        { Authorization: `Bearer \${__P(${options.oauth2.property || 'access_token'},)}` },
+        'OAuth2 Bearer Token'
+      )
+      : '';
+
+    let results = '';
+    for (const listener of listeners) {
+      if (listener.type === 'results-tree') {
+        results += this.generateResultsTreeListener();
+      } else if (listener.type === 'summary') {
+        results += this.generateSummaryListener(listener.filename);
+      } else if (listener.type === 'aggregate') {
+        results += this.generateAggregateListener(listener.filename);
+      } else if (listener.type === 'graph') {
+        results += this.generateGraphListener();
+      } else if (listener.type === 'backend') {
+        if (!listener.backend) {
+          throw new Error('Backend listeners need backend options');
+        }
+        results += this.generateBackendListener(listener.backend, name);
+      }
+    }
 
     let jmx = `<?xml version="1.0" encoding="UTF-8"?>
 <jmeterTestPlan version="1.2" properties="5.0" jmeter="5.6.3">
@@ -61,61 +157,396 @@ export class TestPlanBuilder {
       <boolProp name="TestPlan.functional_mode">false</boolProp>
       <boolProp name="TestPlan.tearDown_on_shutdown">true</boolProp>
       <boolProp name="TestPlan.serialize_threadgroups">false</boolProp>
-      <elementProp name="TestPlan.user_defined_variables" elementType="Arguments" guiclass="ArgumentsPanel" testclass="Arguments" testname="User Defined Variables" enabled="true">
-        <collectionProp name="Arguments.arguments"/>
+      <elementProp name="TestPlan.user_defined_variables" elementType="Arguments" guiclass="ArgumentsPanel" testclass="Arguments" testname="User Defined Variables" enabled="true">${this.generateUserDefinedVariables(options.variables)}
       </elementProp>
       <stringProp name="TestPlan.user_define_classpath"></stringProp>
     </TestPlan>
-    <hashTree>
-      <ThreadGroup guiclass="ThreadGroupGui" testclass="ThreadGroup" testname="Thread Group" enabled="true">
+    <hashTree>`;
+
+    if (options.loadProfile) {
+      // Several thread groups run the same steps, so shared elements sit at
+      // test plan level where they apply to all of them
+      jmx += this.indent(config, -1);
+      if (options.oauth2) {
+        jmx += this.generateOAuth2SetUp(options.oauth2);
+      }
+      for (const group of this.planLoadProfile(options.loadProfile)) {
+        const pacing: Timer[] = [];
+        if (group.rps !== undefined) {
+          pacing.push(options.loadProfile.throughputTimer === 'constant'
+            ? { type: 'constantThroughput', rps: group.rps }
+            : { type: 'preciseThroughput', rps: group.rps, durationSeconds: group.duration });
+        }
+        jmx += this.generateThreadGroup(group, bearer + this.generateScenario(steps, options.thinkTime, [...pacing, ...timers]));
+      }
+      jmx += this.indent(results, -1);
+    } else {
+      if (options.oauth2) {
+        jmx += this.generateOAuth2SetUp(options.oauth2);
+      }
+      jmx += this.generateThreadGroup(
+        { name: 'Thread Group', threads: options.threads, rampUp: options.rampUp, duration: options.duration, delay: 0 },
+        config + bearer + this.generateScenario(steps, options.thinkTime, timers) + results
+      );
+    }
+
+    jmx += `
+    </hashTree>
+  </hashTree>
+</jmeterTestPlan>`;
+
+    return jmx;
+  }
+
+  /**
+   * Generate a scheduled Thread Group running the given elements
+   */
+  private generateThreadGroup(group: ThreadGroupPlan, elements: string): string {
+    return `
+      <ThreadGroup guiclass="ThreadGroupGui" testclass="ThreadGroup" testname="${this.escapeXml(group.name)}" enabled="true">
         <stringProp name="ThreadGroup.on_sample_error">continue</stringProp>
         <elementProp name="ThreadGroup.main_controller" elementType="LoopController" guiclass="LoopControllerGui" testclass="LoopController" testname="Loop Controller" enabled="true">
           <boolProp name="LoopController.continue_forever">false</boolProp>
           <intProp name="LoopController.loops">-1</intProp>
         </elementProp>
-        <stringProp name="ThreadGroup.num_threads">${threads}</stringProp>
-        <stringProp name="ThreadGroup.ramp_time">${rampUp}</stringProp>
+        <stringProp name="ThreadGroup.num_threads">${group.threads}</stringProp>
+        <stringProp name="ThreadGroup.ramp_time">${group.rampUp}</stringProp>
         <boolProp name="ThreadGroup.scheduler">true</boolProp>
-        <stringProp name="ThreadGroup.duration">${duration}</stringProp>
-        <stringProp name="ThreadGroup.delay">0</stringProp>
+        <stringProp name="ThreadGroup.duration">${group.duration}</stringProp>
+        <stringProp name="ThreadGroup.delay">${group.delay}</stringProp>
         <boolProp name="ThreadGroup.same_user_on_next_iteration">true</boolProp>
       </ThreadGroup>
-      <hashTree>`;
+      <hashTree>${elements}
+      </hashTree>`;
+  }
 
-    // Add HTTP Header Manager if headers are provided
-    if (Object.keys(headers).length > 0) {
-      jmx += `
-        <HeaderManager guiclass="HeaderPanel" testclass="HeaderManager" testname="HTTP Header Manager" enabled="true">
-          <collectionProp name="HeaderManager.headers">`;
-      
-      for (const [headerName, headerValue] of Object.entries(headers)) {
-        jmx += `
-            <elementProp name="" elementType="Header">
-              <stringProp name="Header.name">${this.escapeXml(headerName)}</stringProp>
-              <stringProp name="Header.value">${this.escapeXml(headerValue)}</stringProp>
-            </elementProp>`;
+  /**
+   * Generate a setUp Thread Group that requests an OAuth2 token with the
+   * client credentials grant and publishes it as a JMeter property, which
+   * the main thread groups send as a bearer token. The token is fetched once,
+   * before the load starts; a failed request stops the test.
+   */
+  private generateOAuth2SetUp(oauth2: OAuth2ClientCredentials): string {
+    const property = oauth2.property || 'access_token';
+    const basicAuth = oauth2.clientAuthentication === 'basic';
+
+    const params: Array<[string, string]> = [['grant_type', 'client_credentials']];
+    if (!basicAuth) {
+      params.push(['client_id', oauth2.clientId], ['client_secret', oauth2.clientSecret]);
+    }
+    if (oauth2.scope) {
+      params.push(['scope', oauth2.scope]);
+    }
+    // Values holding JMeter variables are resolved at runtime and sent as is
+    const body = params
+      .map(([key, value]) => `${key}=${value.includes('${') ? value : encodeURIComponent(value)}`)
+      .join('&');
+
+    const script = `def token = vars.get('${property}')
+if (token) {
+    props.put('${property}', token)
+} else {
+    prev.setSuccessful(false)
+    prev.setResponseMessage('No access token in the token response')
+}`;
+
+    const sampler = this.generateHttpSampler({
+      name: 'Get OAuth2 Token',
+      method: 'POST',
+      url: oauth2.tokenUrl,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body,
+      extractors: [{ type: 'json', variable: property, expression: oauth2.tokenPath || '$.access_token', defaultValue: '' }]
+    }, `
+          <JSR223PostProcessor guiclass="TestBeanGUI" testclass="JSR223PostProcessor" testname="Share Token" enabled="true">
+            <stringProp name="scriptLanguage">groovy</stringProp>
+            <stringProp name="parameters"></stringProp>
+            <stringProp name="filename"></stringProp>
+            <stringProp name="cacheKey">true</stringProp>
+            <stringProp name="script">${this.escapeXml(script)}</stringProp>
+          </JSR223PostProcessor>
+          <hashTree/>`);
+
+    const clientAuth = basicAuth
+      ? this.generateAuthManager([{ url: oauth2.tokenUrl, username: oauth2.clientId, password: oauth2.clientSecret }])
+      : '';
+
+    return `
+      <SetupThreadGroup guiclass="SetupThreadGroupGui" testclass="SetupThreadGroup" testname="OAuth2 Token" enabled="true">
+        <stringProp name="ThreadGroup.on_sample_error">stoptest</stringProp>
+        <elementProp name="ThreadGroup.main_controller" elementType="LoopController" guiclass="LoopControllerGui" testclass="LoopController" testname="Loop Controller" enabled="true">
+          <boolProp name="LoopController.continue_forever">false</boolProp>
+          <stringProp name="LoopController.loops">1</stringProp>
+        </elementProp>
+        <stringProp name="ThreadGroup.num_threads">1</stringProp>
+        <stringProp name="ThreadGroup.ramp_time">1</stringProp>
+        <boolProp name="ThreadGroup.scheduler">false</boolProp>
+        <stringProp name="ThreadGroup.duration"></stringProp>
+        <stringProp name="ThreadGroup.delay"></stringProp>
+        <boolProp name="ThreadGroup.same_user_on_next_iteration">true</boolProp>
+      </SetupThreadGroup>
+      <hashTree>${clientAuth}${sampler}
+      </hashTree>`;
+  }
+
+  /**
+   * Turn load profile stages into scheduled thread groups.
+   *
+   * User stages stack one thread group per increase in users, each starting
+   * (after a delay) when its stage begins and stopping when the level drops
+   * below it again. Thread groups cannot shed part of their threads, so when
+   * a drop cuts into a group, the group stops and its remaining threads
+   * restart at once in a new one.
+   *
+   * RPS stages get one thread group each, paced by a throughput timer. The
+   * thread pool defaults to one thread per target request per second, which
+   * sustains the rate while requests take under a second.
+   */
+  private planLoadProfile(profile: LoadProfile): ThreadGroupPlan[] {
+    if (profile.stages.length === 0) {
+      throw new Error('Load profile needs at least one stage');
+    }
+    const rpsStages = profile.stages.filter(stage => stage.rps !== undefined).length;
+    if (rpsStages > 0 && rpsStages < profile.stages.length) {
+      throw new Error('Load profile stages must either all set rps or all set users');
+    }
+    profile.stages.forEach((stage, index) => {
+      if (stage.rps === undefined && stage.users === undefined) {
+        throw new Error(`Load profile stage ${index + 1} needs users or rps`);
       }
-      
-      jmx += `
-          </collectionProp>
-        </HeaderManager>
-        <hashTree/>`;
+      if ((stage.rampUp ?? 0) > stage.duration) {
+        throw new Error(`Load profile stage ${index + 1}: rampUp is longer than the stage`);
+      }
+    });
+
+    const groups: ThreadGroupPlan[] = [];
+    let time = 0;
+
+    if (rpsStages > 0) {
+      profile.stages.forEach((stage, index) => {
+        const rps = stage.rps as number;
+        if (stage.duration > 0 && rps > 0) {
+          groups.push({
+            name: `Stage ${index + 1}: ${rps} rps`,
+            threads: stage.users ?? Math.ceil(rps),
+            rampUp: stage.rampUp ?? 0,
+            duration: stage.duration,
+            delay: time,
+            rps
+          });
+        }
+        time += stage.duration;
+      });
+      return groups;
     }
 
-    // Parse URL
-    const url = new URL(endpoint);
-    const protocol = url.protocol.replace(':', '');
-    const domain = url.hostname;
-    const port = url.port || (protocol === 'https' ? '443' : '80');
-    const path = url.pathname + url.search;
+    const active: Array<{ threads: number; start: number; rampUp: number }> = [];
+    const close = (layer: { threads: number; start: number; rampUp: number }, end: number) => {
+      if (end > layer.start) {
+        groups.push({
+          name: '',
+          threads: layer.threads,
+          rampUp: layer.rampUp,
+          duration: end - layer.start,
+          delay: layer.start
+        });
+      }
+    };
 
-    // Add HTTP Request Sampler
-    jmx += `
-        <HTTPSamplerProxy guiclass="HttpTestSampleGui" testclass="HTTPSamplerProxy" testname="HTTP Request" enabled="true">
+    let level = 0;
+    for (const stage of profile.stages) {
+      const target = stage.users as number;
+
+      if (target > level) {
+        active.push({ threads: target - level, start: time, rampUp: stage.rampUp ?? 0 });
+      }
+
+      let excess = level - target;
+      while (excess > 0) {
+        const layer = active.pop()!;
+        close(layer, time);
+        if (layer.threads > excess) {
+          active.push({ threads: layer.threads - excess, start: time, rampUp: 0 });
+        }
+        excess -= layer.threads;
+      }
+
+      level = target;
+      time += stage.duration;
+    }
+
+    while (active.length > 0) {
+      close(active.pop()!, time);
+    }
+
+    return groups
+      .sort((a, b) => a.delay - b.delay)
+      .map((group, index) => ({ ...group, name: `Users ${index + 1}: +${group.threads} from ${group.delay}s` }));
+  }
+
+  /**
+   * Use the scenario steps if given, otherwise a single step built from the
+   * endpoint options
+   */
+  private resolveSteps(options: TestCreationOptions): ScenarioStep[] {
+    if (options.steps && options.steps.length > 0) {
+      return options.steps;
+    }
+
+    if (!options.endpoint) {
+      throw new Error('Either endpoint or steps must be provided');
+    }
+
+    return [{
+      name: 'HTTP Request',
+      method: options.method,
+      url: options.endpoint,
+      body: options.body,
+      assertions: options.assertions
+    }];
+  }
+
+  /**
+   * Reject steps that reference an extracted variable before the step that
+   * extracts it, which would send the literal "${name}" at runtime
+   */
+  private checkVariableOrder(steps: ScenarioStep[], variables: Record<string, string> = {}): void {
+    const httpSteps = steps.flatMap(step => 'transaction' in step ? step.steps : [step]);
+    const extractedAt = new Map<string, number>();
+    httpSteps.forEach((step, index) => {
+      for (const extractor of step.extractors || []) {
+        if (!extractedAt.has(extractor.variable)) extractedAt.set(extractor.variable, index);
+      }
+    });
+
+    httpSteps.forEach((step, index) => {
+      const body = 'graphql' in step ? this.graphQLBody(step.graphql) : step.body ?? '';
+      const text = [step.url, body, ...Object.values(step.headers ?? {})].join('\n');
+      for (const [, variable] of text.matchAll(/\$\{([^}(]+)\}/g)) {
+        const extractedIndex = extractedAt.get(variable);
+        if (extractedIndex !== undefined && extractedIndex >= index && !(variable in variables)) {
+          const method = 'graphql' in step ? 'GraphQL' : step.method || 'GET';
+          const stepName = step.name || `${method} ${step.url}`;
+          throw new Error(`Step "${stepName}" uses \${${variable}} before it is extracted`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Generate the scenario with the timers that apply to all of it. Think
+   * time is a Flow Control Action, itself a sampler, so timers beside it
+   * would also run for every pause: delay timers would double it and
+   * throughput timers would count it as a request. When the scenario has
+   * think time each request gets its own copy of the timers instead, with
+   * throughput rates split between the requests so they add up to the target.
+   */
+  private generateScenario(steps: ScenarioStep[], thinkTime: ThinkTime | undefined, timers: Timer[]): string {
+    if (timers.length === 0 || !this.hasThinkTime(steps, thinkTime)) {
+      return timers.map(timer => this.generateTimer(timer)).join('') + this.generateSteps(steps, thinkTime);
+    }
+
+    const requests = steps.reduce((count, step) => count + ('transaction' in step ? step.steps.length : 1), 0);
+    const shared = timers.map(timer => 'rps' in timer ? { ...timer, rps: timer.rps / requests } : timer);
+    const withTimers = (step: RequestStep): RequestStep => ({ ...step, timers: [...shared, ...(step.timers || [])] });
+
+    return this.generateSteps(
+      steps.map(step => 'transaction' in step ? { ...step, steps: step.steps.map(withTimers) } : withTimers(step)),
+      thinkTime
+    );
+  }
+
+  /**
+   * Whether generateSteps will put any think time between the steps
+   */
+  private hasThinkTime(steps: ScenarioStep[], defaultThinkTime?: ThinkTime): boolean {
+    return steps.some((step, index) => {
+      if (!('transaction' in step)) {
+        return index < steps.length - 1 && (step.thinkTime ?? defaultThinkTime) !== undefined;
+      }
+      const last = step.steps.length - 1;
+      return step.steps.some((httpStep, inner) => (httpStep.thinkTime ?? defaultThinkTime) !== undefined
+        && (inner < last || index < steps.length - 1));
+    });
+  }
+
+  /**
+   * Generate scenario steps in order, separated by think time. A step's own
+   * think time overrides the scenario default.
+   */
+  private generateSteps(steps: ScenarioStep[], defaultThinkTime?: ThinkTime): string {
+    let xml = '';
+
+    steps.forEach((step, index) => {
+      let thinkTime: ThinkTime | undefined;
+
+      if ('transaction' in step) {
+        xml += this.generateTransactionController(step, defaultThinkTime);
+        thinkTime = step.steps[step.steps.length - 1]?.thinkTime ?? defaultThinkTime;
+      } else {
+        xml += this.generateHttpSampler(step);
+        thinkTime = step.thinkTime ?? defaultThinkTime;
+      }
+
+      if (thinkTime && index < steps.length - 1) {
+        xml += this.generateThinkTime(thinkTime);
+      }
+    });
+
+    return xml;
+  }
+
+  /**
+   * Generate Transaction Controller wrapping a group of steps
+   */
+  private generateTransactionController(step: TransactionStep, defaultThinkTime?: ThinkTime): string {
+    let inner = '';
+    step.steps.forEach((httpStep, index) => {
+      inner += this.generateHttpSampler(httpStep);
+      const thinkTime = httpStep.thinkTime ?? defaultThinkTime;
+      if (thinkTime && index < step.steps.length - 1) {
+        inner += this.generateThinkTime(thinkTime);
+      }
+    });
+
+    return `
+        <TransactionController guiclass="TransactionControllerGui" testclass="TransactionController" testname="${this.escapeXml(step.transaction)}" enabled="true">
+          <boolProp name="TransactionController.includeTimers">${step.includeTimers ?? false}</boolProp>
+          <boolProp name="TransactionController.parent">false</boolProp>
+        </TransactionController>
+        <hashTree>${this.indent(inner, 1)}
+        </hashTree>`;
+  }
+
+  /**
+   * Generate HTTP Request Sampler with its headers, timers, extractors, any
+   * extra post-processors and assertions. GraphQL steps become JMeter's
+   * GraphQL HTTP Request: a JSON POST that the GUI shows as query,
+   * operation name and variables.
+   */
+  private generateHttpSampler(step: RequestStep, postProcessors = ''): string {
+    const graphql = 'graphql' in step ? step.graphql : undefined;
+    const method = 'graphql' in step ? 'POST' : step.method || 'GET';
+
+    const { protocol, domain, port, path, pathname } = this.parseUrl(step.url);
+    const name = step.name || (graphql ? `GraphQL ${graphql.operationName || pathname}` : `${method} ${pathname}`);
+
+    let body: string | undefined;
+    let headers = step.headers;
+    if ('graphql' in step) {
+      body = this.graphQLBody(step.graphql);
+      headers = { 'Content-Type': 'application/json', Accept: 'application/json', ...step.headers };
+    } else if (method === 'POST' || method === 'PUT' || method === 'PATCH') {
+      body = step.body;
+    }
+
+    let jmx = `
+        <HTTPSamplerProxy guiclass="${graphql ? 'GraphQLHTTPSamplerGui' : 'HttpTestSampleGui'}" testclass="HTTPSamplerProxy" testname="${this.escapeXml(name)}" enabled="true">${body ? `
+          <boolProp name="HTTPSampler.postBodyRaw">true</boolProp>` : ''}
           <elementProp name="HTTPsampler.Arguments" elementType="Arguments" guiclass="HTTPArgumentsPanel" testclass="Arguments" testname="User Defined Variables" enabled="true">
             <collectionProp name="Arguments.arguments">`;
 
-    if (body && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
+    if (body) {
       jmx += `
               <elementProp name="" elementType="HTTPArgument">
                 <boolProp name="HTTPArgument.always_encode">false</boolProp>
@@ -139,63 +570,531 @@ export class TestPlanBuilder {
           <boolProp name="HTTPSampler.DO_MULTIPART_POST">false</boolProp>
           <stringProp name="HTTPSampler.embedded_url_re"></stringProp>
           <stringProp name="HTTPSampler.connect_timeout"></stringProp>
-          <stringProp name="HTTPSampler.response_timeout"></stringProp>
+          <stringProp name="HTTPSampler.response_timeout"></stringProp>${graphql ? `
+          <stringProp name="GraphQLHTTPSampler.operationName">${this.escapeXml(graphql.operationName ?? '')}</stringProp>
+          <stringProp name="GraphQLHTTPSampler.query">${this.escapeXml(graphql.query)}</stringProp>
+          <stringProp name="GraphQLHTTPSampler.variables">${this.escapeXml(graphql.variables ? JSON.stringify(graphql.variables, null, 2) : '')}</stringProp>` : ''}
         </HTTPSamplerProxy>
         <hashTree>`;
 
+    // Add step-level headers
+    if (headers && Object.keys(headers).length > 0) {
+      jmx += this.indent(this.generateHeaderManager(headers), 1);
+    }
+
+    // Add timers that apply to this sampler only
+    for (const timer of step.timers || []) {
+      jmx += this.indent(this.generateTimer(timer), 1);
+    }
+
+    // Add extractors
+    for (const extractor of step.extractors || []) {
+      jmx += this.generateExtractor(extractor);
+    }
+
+    jmx += postProcessors;
+
     // Add assertions
-    for (const assertion of assertions) {
-      if (assertion.type === 'response') {
-        jmx += this.generateResponseAssertion(assertion.value as string, assertion.operator || 'contains');
-      } else if (assertion.type === 'duration') {
-        jmx += this.generateDurationAssertion(assertion.value as number);
-      } else if (assertion.type === 'size') {
-        jmx += this.generateSizeAssertion(assertion.value as number);
-      }
+    for (const assertion of step.assertions || []) {
+      jmx += this.generateAssertion(assertion);
+    }
+
+    // GraphQL reports failures in an errors array, usually with status 200
+    if (graphql && graphql.assertNoErrors !== false) {
+      jmx += this.generateJsonAssertion({ type: 'json', path: '$.errors[0]', not: true, name: 'No GraphQL Errors' });
     }
 
     jmx += `
         </hashTree>`;
 
-    // Add listeners
-    for (const listener of listeners) {
-      if (listener.type === 'results-tree') {
-        jmx += this.generateResultsTreeListener();
-      } else if (listener.type === 'summary') {
-        jmx += this.generateSummaryListener(listener.filename);
-      } else if (listener.type === 'aggregate') {
-        jmx += this.generateAggregateListener(listener.filename);
-      }
+    return jmx;
+  }
+
+  /**
+   * JSON body of a GraphQL request, in the field order JMeter's GraphQL
+   * sampler uses
+   */
+  private graphQLBody(graphql: GraphQLRequest): string {
+    return JSON.stringify({
+      operationName: graphql.operationName,
+      variables: graphql.variables,
+      query: graphql.query
+    });
+  }
+
+  /**
+   * Split a URL into sampler fields. URLs containing JMeter variables are
+   * split textually; when the scheme or host itself is a variable the whole
+   * URL goes into the path, which JMeter resolves at runtime.
+   */
+  private parseUrl(rawUrl: string): {
+    protocol: string;
+    domain: string;
+    port: string;
+    path: string;
+    pathname: string;
+  } {
+    if (!rawUrl.includes('${')) {
+      const url = new URL(rawUrl);
+      const protocol = url.protocol.replace(':', '');
+      return {
+        protocol,
+        domain: url.hostname,
+        port: url.port || (protocol === 'https' ? '443' : '80'),
+        path: url.pathname + url.search,
+        pathname: url.pathname
+      };
+    }
+
+    const match = rawUrl.match(/^(https?):\/\/((?:\$\{[^}]*\}|[^/:?#$])+)(?::((?:\$\{[^}]*\}|\d)+))?([^#]*)/i);
+    if (!match) {
+      return { protocol: '', domain: '', port: '', path: rawUrl, pathname: rawUrl.split('?')[0] };
+    }
+
+    const [, scheme, domain, port, rest] = match;
+    const protocol = scheme.toLowerCase();
+    const path = rest.startsWith('/') ? rest : `/${rest}`;
+    return {
+      protocol,
+      domain,
+      port: port || (protocol === 'https' ? '443' : '80'),
+      path,
+      pathname: path.split('?')[0]
+    };
+  }
+
+  /**
+   * Generate the entries of the test plan's User Defined Variables
+   */
+  private generateUserDefinedVariables(variables: Record<string, string> = {}): string {
+    const entries = Object.entries(variables);
+    if (entries.length === 0) {
+      return `
+        <collectionProp name="Arguments.arguments"/>`;
+    }
+
+    let xml = `
+        <collectionProp name="Arguments.arguments">`;
+    for (const [name, value] of entries) {
+      xml += `
+          <elementProp name="${this.escapeXml(name)}" elementType="Argument">
+            <stringProp name="Argument.name">${this.escapeXml(name)}</stringProp>
+            <stringProp name="Argument.value">${this.escapeXml(value)}</stringProp>
+            <stringProp name="Argument.metadata">=</stringProp>
+          </elementProp>`;
+    }
+    xml += `
+        </collectionProp>`;
+
+    return xml;
+  }
+
+  /**
+   * Generate CSV Data Set Config. By default rows are shared by all threads
+   * and the file is recycled at end of file.
+   */
+  private generateCsvDataSet(dataSet: CsvDataSet): string {
+    const delimiter = (dataSet.delimiter ?? ',').replace(/\t/g, '\\t');
+
+    return `
+        <CSVDataSet guiclass="TestBeanGUI" testclass="CSVDataSet" testname="${this.escapeXml(dataSet.name || 'CSV Data Set Config')}" enabled="true">
+          <stringProp name="delimiter">${this.escapeXml(delimiter)}</stringProp>
+          <stringProp name="fileEncoding">${this.escapeXml(dataSet.encoding ?? 'UTF-8')}</stringProp>
+          <stringProp name="filename">${this.escapeXml(dataSet.filename)}</stringProp>
+          <boolProp name="ignoreFirstLine">${dataSet.ignoreFirstLine ?? false}</boolProp>
+          <boolProp name="quotedData">${dataSet.quotedData ?? false}</boolProp>
+          <boolProp name="recycle">${dataSet.recycle ?? true}</boolProp>
+          <stringProp name="shareMode">shareMode.${dataSet.shareMode ?? 'all'}</stringProp>
+          <boolProp name="stopThread">${dataSet.stopThread ?? false}</boolProp>
+          <stringProp name="variableNames">${this.escapeXml(dataSet.variableNames.join(','))}</stringProp>
+        </CSVDataSet>
+        <hashTree/>`;
+  }
+
+  /**
+   * Generate HTTP Cookie Manager. Cookies are cleared on each iteration so
+   * every iteration starts a fresh session, like a new user.
+   */
+  private generateCookieManager(): string {
+    return `
+        <CookieManager guiclass="CookiePanel" testclass="CookieManager" testname="HTTP Cookie Manager" enabled="true">
+          <collectionProp name="CookieManager.cookies"/>
+          <boolProp name="CookieManager.clearEachIteration">true</boolProp>
+          <boolProp name="CookieManager.controlledByThreadGroup">false</boolProp>
+        </CookieManager>
+        <hashTree/>`;
+  }
+
+  /**
+   * Generate HTTP Cache Manager, emulating a browser cache per thread
+   */
+  private generateCacheManager(): string {
+    return `
+        <CacheManager guiclass="CacheManagerGui" testclass="CacheManager" testname="HTTP Cache Manager" enabled="true">
+          <boolProp name="clearEachIteration">true</boolProp>
+          <boolProp name="useExpires">true</boolProp>
+          <boolProp name="CacheManager.controlledByThread">false</boolProp>
+        </CacheManager>
+        <hashTree/>`;
+  }
+
+  /**
+   * Generate HTTP Authorization Manager. Each entry applies to requests whose
+   * URL starts with its url, or to all requests when it has none.
+   */
+  private generateAuthManager(authorizations: HttpAuthorization[]): string {
+    let jmx = `
+        <AuthManager guiclass="AuthPanel" testclass="AuthManager" testname="HTTP Authorization Manager" enabled="true">
+          <collectionProp name="AuthManager.auth_list">`;
+
+    for (const auth of authorizations) {
+      jmx += `
+            <elementProp name="" elementType="Authorization">
+              <stringProp name="Authorization.url">${this.escapeXml(auth.url ?? '')}</stringProp>
+              <stringProp name="Authorization.username">${this.escapeXml(auth.username)}</stringProp>
+              <stringProp name="Authorization.password">${this.escapeXml(auth.password)}</stringProp>
+              <stringProp name="Authorization.domain">${this.escapeXml(auth.domain ?? '')}</stringProp>
+              <stringProp name="Authorization.realm">${this.escapeXml(auth.realm ?? '')}</stringProp>
+              <stringProp name="Authorization.mechanism">${(auth.mechanism ?? 'basic').toUpperCase()}</stringProp>
+            </elementProp>`;
     }
 
     jmx += `
-      </hashTree>
-    </hashTree>
-  </hashTree>
-</jmeterTestPlan>`;
+          </collectionProp>
+          <boolProp name="AuthManager.controlledByThreadGroup">false</boolProp>
+        </AuthManager>
+        <hashTree/>`;
 
     return jmx;
   }
 
+  /**
+   * Generate HTTP Header Manager
+   */
+  private generateHeaderManager(headers: Record<string, string>, name = 'HTTP Header Manager'): string {
+    let jmx = `
+        <HeaderManager guiclass="HeaderPanel" testclass="HeaderManager" testname="${this.escapeXml(name)}" enabled="true">
+          <collectionProp name="HeaderManager.headers">`;
+
+    for (const [headerName, headerValue] of Object.entries(headers)) {
+      jmx += `
+            <elementProp name="" elementType="Header">
+              <stringProp name="Header.name">${this.escapeXml(headerName)}</stringProp>
+              <stringProp name="Header.value">${this.escapeXml(headerValue)}</stringProp>
+            </elementProp>`;
+    }
+
+    jmx += `
+          </collectionProp>
+        </HeaderManager>
+        <hashTree/>`;
+
+    return jmx;
+  }
+
+  /**
+   * Generate think time as a Flow Control Action carrying a timer, the same
+   * structure the JMeter recorder uses
+   */
+  private generateThinkTime(thinkTime: ThinkTime): string {
+    const timer = thinkTime.randomMs
+      ? `
+          <UniformRandomTimer guiclass="UniformRandomTimerGui" testclass="UniformRandomTimer" testname="Pause" enabled="true">
+            <stringProp name="ConstantTimer.delay">${thinkTime.delayMs}</stringProp>
+            <stringProp name="RandomTimer.range">${thinkTime.randomMs}</stringProp>
+          </UniformRandomTimer>
+          <hashTree/>`
+      : `
+          <ConstantTimer guiclass="ConstantTimerGui" testclass="ConstantTimer" testname="Pause" enabled="true">
+            <stringProp name="ConstantTimer.delay">${thinkTime.delayMs}</stringProp>
+          </ConstantTimer>
+          <hashTree/>`;
+
+    return `
+        <TestAction guiclass="TestActionGui" testclass="TestAction" testname="Think Time" enabled="true">
+          <intProp name="ActionProcessor.action">1</intProp>
+          <intProp name="ActionProcessor.target">0</intProp>
+          <stringProp name="ActionProcessor.duration">0</stringProp>
+        </TestAction>
+        <hashTree>${timer}
+        </hashTree>`;
+  }
+
+  /**
+   * Generate a timer. Delay timers pause before every sampler in scope;
+   * throughput timers pace those samplers to a target requests per second,
+   * the Precise Throughput Timer by scheduling arrivals evenly over its
+   * duration and the Constant Throughput Timer by sharing the rate between
+   * the thread group's active threads (or applying it to each thread).
+   */
+  private generateTimer(timer: Timer): string {
+    switch (timer.type) {
+      case 'constant':
+        return `
+        <ConstantTimer guiclass="ConstantTimerGui" testclass="ConstantTimer" testname="${this.escapeXml(timer.name || 'Constant Timer')}" enabled="true">
+          <stringProp name="ConstantTimer.delay">${timer.delayMs}</stringProp>
+        </ConstantTimer>
+        <hashTree/>`;
+      case 'uniform':
+        return `
+        <UniformRandomTimer guiclass="UniformRandomTimerGui" testclass="UniformRandomTimer" testname="${this.escapeXml(timer.name || 'Uniform Random Timer')}" enabled="true">
+          <stringProp name="ConstantTimer.delay">${timer.delayMs}</stringProp>
+          <stringProp name="RandomTimer.range">${timer.randomMs}</stringProp>
+        </UniformRandomTimer>
+        <hashTree/>`;
+      case 'gaussian':
+        return `
+        <GaussianRandomTimer guiclass="GaussianRandomTimerGui" testclass="GaussianRandomTimer" testname="${this.escapeXml(timer.name || 'Gaussian Random Timer')}" enabled="true">
+          <stringProp name="ConstantTimer.delay">${timer.delayMs}</stringProp>
+          <stringProp name="RandomTimer.range">${timer.deviationMs}</stringProp>
+        </GaussianRandomTimer>
+        <hashTree/>`;
+      case 'constantThroughput':
+        return `
+        <ConstantThroughputTimer guiclass="TestBeanGUI" testclass="ConstantThroughputTimer" testname="${this.escapeXml(timer.name || 'Constant Throughput Timer')}" enabled="true">
+          <intProp name="calcMode">${timer.perThread ? 0 : 4}</intProp>
+          <doubleProp>
+            <name>throughput</name>
+            <value>${Number((timer.rps * 60).toFixed(6))}</value>
+            <savedValue>0.0</savedValue>
+          </doubleProp>
+        </ConstantThroughputTimer>
+        <hashTree/>`;
+      case 'preciseThroughput':
+        return `
+        <PreciseThroughputTimer guiclass="TestBeanGUI" testclass="PreciseThroughputTimer" testname="${this.escapeXml(timer.name || 'Precise Throughput Timer')}" enabled="true">
+          <doubleProp>
+            <name>throughput</name>
+            <value>${timer.rps}</value>
+            <savedValue>0.0</savedValue>
+          </doubleProp>
+          <intProp name="throughputPeriod">1</intProp>
+          <longProp name="duration">${timer.durationSeconds ?? 3600}</longProp>
+          <intProp name="batchSize">1</intProp>
+          <intProp name="batchThreadDelay">0</intProp>
+          <longProp name="randomSeed">0</longProp>
+        </PreciseThroughputTimer>
+        <hashTree/>`;
+    }
+  }
+
+  /**
+   * Generate a JSON, Regular Expression or Boundary Extractor. The extracted
+   * value is available to later samplers as ${variable}.
+   */
+  private generateExtractor(extractor: Extractor): string {
+    const name = this.escapeXml(extractor.name || `Extract ${extractor.variable}`);
+    const variable = this.escapeXml(extractor.variable);
+    const matchNumber = extractor.matchNumber ?? 1;
+    const defaultValue = this.escapeXml(extractor.defaultValue ?? '');
+
+    if (extractor.type === 'json') {
+      return `
+          <JSONPostProcessor guiclass="JSONPostProcessorGui" testclass="JSONPostProcessor" testname="${name}" enabled="true">
+            <stringProp name="JSONPostProcessor.referenceNames">${variable}</stringProp>
+            <stringProp name="JSONPostProcessor.jsonPathExprs">${this.escapeXml(extractor.expression)}</stringProp>
+            <stringProp name="JSONPostProcessor.match_numbers">${matchNumber}</stringProp>
+            <stringProp name="JSONPostProcessor.defaultValues">${defaultValue}</stringProp>
+          </JSONPostProcessor>
+          <hashTree/>`;
+    }
+
+    const source = EXTRACTOR_SOURCES[extractor.source ?? 'body'];
+
+    if (extractor.type === 'regex') {
+      return `
+          <RegexExtractor guiclass="RegexExtractorGui" testclass="RegexExtractor" testname="${name}" enabled="true">
+            <stringProp name="RegexExtractor.useHeaders">${source}</stringProp>
+            <stringProp name="RegexExtractor.refname">${variable}</stringProp>
+            <stringProp name="RegexExtractor.regex">${this.escapeXml(extractor.expression)}</stringProp>
+            <stringProp name="RegexExtractor.template">${this.escapeXml(extractor.template ?? '$1$')}</stringProp>
+            <stringProp name="RegexExtractor.default">${defaultValue}</stringProp>
+            <boolProp name="RegexExtractor.default_empty_value">${extractor.defaultValue === ''}</boolProp>
+            <stringProp name="RegexExtractor.match_number">${matchNumber}</stringProp>
+          </RegexExtractor>
+          <hashTree/>`;
+    }
+
+    return `
+          <BoundaryExtractor guiclass="BoundaryExtractorGui" testclass="BoundaryExtractor" testname="${name}" enabled="true">
+            <stringProp name="BoundaryExtractor.useHeaders">${source}</stringProp>
+            <stringProp name="BoundaryExtractor.refname">${variable}</stringProp>
+            <stringProp name="BoundaryExtractor.lboundary">${this.escapeXml(extractor.left)}</stringProp>
+            <stringProp name="BoundaryExtractor.rboundary">${this.escapeXml(extractor.right)}</stringProp>
+            <stringProp name="BoundaryExtractor.default">${defaultValue}</stringProp>
+            <boolProp name="BoundaryExtractor.default_empty_value">${extractor.defaultValue === ''}</boolProp>
+            <stringProp name="BoundaryExtractor.match_number">${matchNumber}</stringProp>
+          </BoundaryExtractor>
+          <hashTree/>`;
+  }
+
+  /**
+   * Generate the assertion element for one assertion, rejecting operators
+   * the element cannot express
+   */
+  private generateAssertion(assertion: Assertion): string {
+    const unsupported = () => new Error(
+      `${assertion.type} assertions do not support ${assertion.not ? 'not ' : ''}${assertion.operator}`
+    );
+
+    switch (assertion.type) {
+      case 'response':
+      case 'code': {
+        const operator = assertion.operator || (assertion.type === 'code' ? 'equals' : 'contains');
+        const testType = RESPONSE_TEST_TYPES[operator];
+        if (testType === undefined) throw unsupported();
+        return this.generateResponseAssertion({
+          field: assertion.type === 'code' ? 'Assertion.response_code' : 'Assertion.response_data',
+          pattern: String(this.required(assertion, 'value')),
+          testType: testType + (assertion.not ? RESPONSE_TEST_NOT : 0),
+          name: assertion.name || (assertion.type === 'code' ? 'Response Code Assertion' : 'Response Assertion'),
+          // Lets a code assertion accept statuses JMeter would fail, e.g. an expected 404
+          assumeSuccess: assertion.type === 'code'
+        });
+      }
+      case 'header': {
+        const header = this.required(assertion, 'header');
+        let pattern = `(?m)^(?i:${this.regexLiteral(header)}):[ \\t]*`;
+        if (assertion.value !== undefined) {
+          const value = String(assertion.value);
+          switch (assertion.operator || 'contains') {
+            case 'equals': pattern += `${this.regexLiteral(value)}\\r?$`; break;
+            case 'contains': pattern += `.*${this.regexLiteral(value)}`; break;
+            case 'matches': pattern += `(?:${value})\\r?$`; break;
+            default: throw unsupported();
+          }
+        }
+        return this.generateResponseAssertion({
+          field: 'Assertion.response_headers',
+          pattern,
+          testType: RESPONSE_TEST_FIND + (assertion.not ? RESPONSE_TEST_NOT : 0),
+          name: assertion.name || `${header} Header Assertion`,
+          assumeSuccess: false
+        });
+      }
+      case 'json':
+        if (assertion.operator === 'greaterThan' || assertion.operator === 'lessThan') throw unsupported();
+        return this.generateJsonAssertion(assertion);
+      case 'xpath':
+        return this.generateXPathAssertion(assertion);
+      case 'duration':
+        if ((assertion.operator && assertion.operator !== 'lessThan') || assertion.not) throw unsupported();
+        return this.generateDurationAssertion(this.requiredNumber(assertion));
+      case 'size': {
+        const operators = SIZE_OPERATORS[assertion.operator || 'equals'];
+        if (!operators) throw unsupported();
+        return this.generateSizeAssertion(this.requiredNumber(assertion), operators[assertion.not ? 1 : 0]);
+      }
+    }
+  }
+
+  private required(assertion: Assertion, field: 'value' | 'path' | 'header'): string {
+    const value = assertion[field];
+    if (value === undefined || value === '') {
+      throw new Error(`${assertion.type} assertions need a ${field}`);
+    }
+    return String(value);
+  }
+
+  private requiredNumber(assertion: Assertion): number {
+    const value = Number(this.required(assertion, 'value'));
+    if (!Number.isFinite(value)) {
+      throw new Error(`${assertion.type} assertions need a numeric value`);
+    }
+    return value;
+  }
+
+  /**
+   * Escape regular expression syntax in literal text, keeping ${variable}
+   * references for JMeter to substitute
+   */
+  private regexLiteral(text: string): string {
+    return text
+      .split(/(\$\{[^}]+\})/)
+      .map((part, index) => index % 2 === 1 ? part : part.replace(/[.*+?^$()|[\]{}\\]/g, '\\$&'))
+      .join('');
+  }
+
   /**
    * Generate response assertion
    */
-  private generateResponseAssertion(pattern: string, operator: string): string {
-    const testType = operator === 'contains' ? '16' : operator === 'equals' ? '8' : '1';
-    
+  private generateResponseAssertion(options: {
+    field: string;
+    pattern: string;
+    testType: number;
+    name: string;
+    assumeSuccess: boolean;
+  }): string {
     return `
-          <ResponseAssertion guiclass="AssertionGui" testclass="ResponseAssertion" testname="Response Assertion" enabled="true">
+          <ResponseAssertion guiclass="AssertionGui" testclass="ResponseAssertion" testname="${this.escapeXml(options.name)}" enabled="true">
             <collectionProp name="Asserion.test_strings">
-              <stringProp name="assertion_pattern">${this.escapeXml(pattern)}</stringProp>
+              <stringProp name="assertion_pattern">${this.escapeXml(options.pattern)}</stringProp>
             </collectionProp>
             <stringProp name="Assertion.custom_message"></stringProp>
-            <stringProp name="Assertion.test_field">Assertion.response_data</stringProp>
-            <boolProp name="Assertion.assume_success">false</boolProp>
-            <intProp name="Assertion.test_type">${testType}</intProp>
+            <stringProp name="Assertion.test_field">${options.field}</stringProp>
+            <boolProp name="Assertion.assume_success">${options.assumeSuccess}</boolProp>
+            <intProp name="Assertion.test_type">${options.testType}</intProp>
           </ResponseAssertion>
           <hashTree/>`;
   }
 
+  /**
+   * Generate a JSON Assertion. Without a value it checks that the path
+   * exists; "contains" and "matches" compare against a regular expression.
+   */
+  private generateJsonAssertion(assertion: Assertion): string {
+    const path = this.required(assertion, 'path');
+    const value = assertion.value === undefined ? undefined : String(assertion.value);
+    const isRegex = value !== undefined && (assertion.operator === 'contains' || assertion.operator === 'matches');
+    const expected = value !== undefined && assertion.operator === 'contains'
+      ? `(?s).*${this.regexLiteral(value)}.*`
+      : value ?? '';
+
+    return `
+          <JSONPathAssertion guiclass="JSONPathAssertionGui" testclass="JSONPathAssertion" testname="${this.escapeXml(assertion.name || 'JSON Assertion')}" enabled="true">
+            <stringProp name="JSON_PATH">${this.escapeXml(path)}</stringProp>
+            <stringProp name="EXPECTED_VALUE">${this.escapeXml(expected)}</stringProp>
+            <boolProp name="JSONVALIDATION">${value !== undefined}</boolProp>
+            <boolProp name="EXPECT_NULL">false</boolProp>
+            <boolProp name="INVERT">${assertion.not ?? false}</boolProp>
+            <boolProp name="ISREGEX">${isRegex}</boolProp>
+          </JSONPathAssertion>
+          <hashTree/>`;
+  }
+
+  /**
+   * Generate an XPath Assertion. Without a value it checks that the path
+   * matches; with one it compares the path's string or number value.
+   */
+  private generateXPathAssertion(assertion: Assertion): string {
+    const path = this.required(assertion, 'path');
+    let xpath = path;
+
+    if (assertion.value !== undefined) {
+      const value = String(assertion.value);
+      const literal = value.includes("'") ? `"${value}"` : `'${value}'`;
+      switch (assertion.operator || 'equals') {
+        case 'equals': xpath = `${path} = ${literal}`; break;
+        case 'contains': xpath = `contains(${path}, ${literal})`; break;
+        case 'greaterThan': xpath = `number(${path}) > ${this.requiredNumber(assertion)}`; break;
+        case 'lessThan': xpath = `number(${path}) < ${this.requiredNumber(assertion)}`; break;
+        default:
+          throw new Error('xpath assertions do not support matches: XPath 1.0 has no regular expressions');
+      }
+    }
+
+    return `
+          <XPathAssertion guiclass="XPathAssertionGui" testclass="XPathAssertion" testname="${this.escapeXml(assertion.name || 'XPath Assertion')}" enabled="true">
+            <boolProp name="XPath.negate">${assertion.not ?? false}</boolProp>
+            <stringProp name="XPath.xpath">${this.escapeXml(xpath)}</stringProp>
+            <boolProp name="XPath.validate">false</boolProp>
+            <boolProp name="XPath.whitespace">false</boolProp>
+            <boolProp name="XPath.tolerant">false</boolProp>
+            <boolProp name="XPath.namespace">false</boolProp>
+          </XPathAssertion>
+          <hashTree/>`;
+  }
+
   /**
    * Generate duration assertion
    */
@@ -208,14 +1107,14 @@ export class TestPlanBuilder {
   }
 
   /**
-   * Generate size assertion
+   * Generate size assertion. Operators: 1 =, 2 !=, 3 >, 4 <, 5 >=, 6 <=
    */
-  private generateSizeAssertion(expectedSize: number): string {
+  private generateSizeAssertion(expectedSize: number, operator: number): string {
     return `
           <SizeAssertion guiclass="SizeAssertionGui" testclass="SizeAssertion" testname="Size Assertion" enabled="true">
             <stringProp name="Assertion.test_field">SizeAssertion.response_network_size</stringProp>
             <stringProp name="SizeAssertion.size">${expectedSize}</stringProp>
-            <intProp name="SizeAssertion.operator">1</intProp>
+            <intProp name="SizeAssertion.operator">${operator}</intProp>
           </SizeAssertion>
           <hashTree/>`;
   }
@@ -352,6 +1251,133 @@ export class TestPlanBuilder {
         <hashTree/>`;
   }
 
+  /**
+   * Generate Graph Results Listener
+   */
+  private generateGraphListener(): string {
+    return `
+        <ResultCollector guiclass="GraphVisualizer" testclass="ResultCollector" testname="Graph Results" enabled="true">
+          <boolProp name="ResultCollector.error_logging">false</boolProp>
+          <objProp>
+            <name>saveConfig</name>
+            <value class="SampleSaveConfiguration">
+              <time>true</time>
+              <latency>true</latency>
+              <timestamp>true</timestamp>
+              <success>true</success>
+              <label>true</label>
+              <code>true</code>
+              <message>true</message>
+              <threadName>true</threadName>
+              <dataType>true</dataType>
+              <encoding>false</encoding>
+              <assertions>true</assertions>
+              <subresults>true</subresults>
+              <responseData>false</responseData>
+              <samplerData>false</samplerData>
+              <xml>false</xml>
+              <fieldNames>true</fieldNames>
+              <responseHeaders>false</responseHeaders>
+              <requestHeaders>false</requestHeaders>
+              <responseDataOnError>false</responseDataOnError>
+              <saveAssertionResultsFailureMessage>true</saveAssertionResultsFailureMessage>
+              <assertionsResultsToSave>0</assertionsResultsToSave>
+              <bytes>true</bytes>
+              <sentBytes>true</sentBytes>
+              <url>true</url>
+              <threadCounts>true</threadCounts>
+              <idleTime>true</idleTime>
+              <connectTime>true</connectTime>
+            </value>
+          </objProp>
+          <stringProp name="filename"></stringProp>
+        </ResultCollector>
+        <hashTree/>`;
+  }
+
+  /**
+   * Generate a Backend Listener streaming live metrics to InfluxDB (HTTP line
+   * protocol) or Graphite (plaintext protocol, url given as host:port)
+   */
+  private generateBackendListener(backend: BackendListenerOptions, testTitle: string): string {
+    const percentiles = (backend.percentiles ?? [90, 95, 99]).join(';');
+    let client: string;
+    let args: Array<[string, string]>;
+
+    if (backend.type === 'influxdb') {
+      client = 'org.apache.jmeter.visualizers.backend.influxdb.InfluxdbBackendListenerClient';
+      args = [
+        ['influxdbMetricsSender', 'org.apache.jmeter.visualizers.backend.influxdb.HttpMetricsSender'],
+        ['influxdbUrl', backend.url],
+        ['application', backend.application ?? testTitle],
+        ['measurement', backend.measurement ?? 'jmeter'],
+        ['summaryOnly', String(backend.summaryOnly ?? false)],
+        ['samplersRegex', backend.samplersRegex ?? '.*'],
+        ['percentiles', percentiles],
+        ['testTitle', backend.testTitle ?? testTitle],
+        ['eventTags', '']
+      ];
+      if (backend.token) {
+        args.push(['influxdbToken', backend.token]);
+      }
+    } else {
+      const match = backend.url.replace(/^[a-z]+:\/\//i, '').match(/^([^:/]+)(?::(\d+))?/);
+      if (!match) {
+        throw new Error(`Invalid Graphite address "${backend.url}": expected host:port`);
+      }
+      // Graphite has no tags, so the application becomes part of the metric path
+      const prefix = [backend.measurement ?? 'jmeter', backend.application].filter(Boolean).join('.') + '.';
+      client = 'org.apache.jmeter.visualizers.backend.graphite.GraphiteBackendListenerClient';
+      args = [
+        ['graphiteMetricsSender', 'org.apache.jmeter.visualizers.backend.graphite.TextGraphiteMetricsSender'],
+        ['graphiteHost', match[1]],
+        ['graphitePort', match[2] ?? '2003'],
+        ['rootMetricsPrefix', prefix],
+        ['summaryOnly', String(backend.summaryOnly ?? false)],
+        ['samplersList', backend.samplersRegex ?? '.*'],
+        ['useRegexpForSamplersList', 'true'],
+        ['percentiles', percentiles]
+      ];
+    }
+
+    let jmx = `
+        <BackendListener guiclass="BackendListenerGui" testclass="BackendListener" testname="Backend Listener" enabled="true">
+          <elementProp name="arguments" elementType="Arguments" guiclass="ArgumentsPanel" testclass="Arguments" enabled="true">
+            <collectionProp name="Arguments.arguments">`;
+
+    for (const [argName, value] of args) {
+      jmx += `
+              <elementProp name="${argName}" elementType="Argument">
+                <stringProp name="Argument.name">${argName}</stringProp>
+                <stringProp name="Argument.value">${this.escapeXml(value)}</stringProp>
+                <stringProp name="Argument.metadata">=</stringProp>
+              </elementProp>`;
+    }
+
+    jmx += `
+            </collectionProp>
+          </elementProp>
+          <stringProp name="QUEUE_SIZE">5000</stringProp>
+          <stringProp name="classname">${client}</stringProp>
+        </BackendListener>
+        <hashTree/>`;
+
+    return jmx;
+  }
+
+  /**
+   * Indent every markup line of a generated fragment by extra levels of two
+   * spaces, or outdent it for negative levels. Lines inside multi-line values
+   * never start with "<" because values are escaped, so their content is
+   * left untouched.
+   */
+  private indent(xml: string, levels: number): string {
+    if (levels < 0) {
+      return xml.replace(new RegExp(`\\n${'  '.repeat(-levels)}(?=\\s*<)`, 'g'), '\n');
+    }
+    return xml.replace(/\n(?=\s*<)/g, '\n' + '  '.repeat(levels));
+  }
+
   /**
    * Escape XML special characters
    */
@@ -361,6 +1387,7 @@ export class TestPlanBuilder {
       .replace(/</g, '&lt;')
       .replace(/>/g, '&gt;')
       .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
+      .replace(/'/g, '&apos;')
+      .replace(/\r/g, '&#13;');
   }
 }
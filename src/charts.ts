@@ -0,0 +1,329 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ChartData, ChartKind, ChartOptions, LatencyBin, RenderedChart, TimeSeriesBucket } from './types.js';
+
+export const CHART_KINDS: ChartKind[] = ['response-times', 'throughput', 'errors', 'latency-histogram'];
+
+const COLORS = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728'];
+
+const MARGIN = { top: 48, right: 64, bottom: 52, left: 64 };
+
+const TICK_COUNT = 5;
+
+interface Series {
+  name: string;
+  values: number[];
+  axis: 'left' | 'right';
+  // How a run of empty buckets is drawn: as zero (counts and rates of
+  // requests) or as a break in the line (values that need samples)
+  gaps?: 'zero' | 'break';
+}
+
+interface LineChart {
+  title: string;
+  timestamps: number[];
+  intervalMs: number;
+  series: Series[];
+  leftLabel: string;
+  rightLabel?: string;
+}
+
+interface Axis {
+  max: number;
+  ticks: number[];
+}
+
+/**
+ * Renders analyzer time series and latency distributions as standalone SVG
+ * charts. The output has no scripts or external references, so it can be
+ * embedded in HTML or Markdown or attached as a file.
+ */
+export class ChartRenderer {
+  private width: number;
+  private height: number;
+
+  constructor(options: Pick<ChartOptions, 'width' | 'height'> = {}) {
+    this.width = options.width ?? 800;
+    this.height = options.height ?? 400;
+  }
+
+  /**
+   * Render the requested charts, in the order given (all of them by default)
+   */
+  renderAll(data: ChartData, charts: ChartKind[] = CHART_KINDS): RenderedChart[] {
+    return charts.map(kind => this.render(data, kind));
+  }
+
+  /**
+   * Write each chart to <outputDir>/<kind>.svg and return the file paths
+   */
+  async write(charts: RenderedChart[], outputDir: string): Promise<string[]> {
+    await fs.mkdir(outputDir, { recursive: true });
+    return Promise.all(charts.map(async chart => {
+      const filePath = path.join(outputDir, `${chart.kind}.svg`);
+      await fs.writeFile(filePath, chart.svg, 'utf-8');
+      return filePath;
+    }));
+  }
+
+  render(data: ChartData, kind: ChartKind): RenderedChart {
+    const { overall, intervalMs } = data.timeSeries;
+    const timestamps = overall.map(bucket => bucket.timestamp);
+    const values = (metric: (bucket: TimeSeriesBucket) => number) => overall.map(metric);
+
+    switch (kind) {
+      case 'response-times':
+        return this.lineChart(kind, {
+          title: 'Response Time Percentiles',
+          timestamps,
+          intervalMs,
+          leftLabel: 'Response time (ms)',
+          series: [
+            { name: 'p50', values: values(bucket => bucket.medianResponseTime), axis: 'left' },
+            { name: 'p90', values: values(bucket => bucket.percentile90), axis: 'left' },
+            { name: 'p95', values: values(bucket => bucket.percentile95), axis: 'left' },
+            { name: 'p99', values: values(bucket => bucket.percentile99), axis: 'left' }
+          ]
+        });
+      case 'throughput':
+        return this.lineChart(kind, {
+          title: 'Throughput vs. Active Threads',
+          timestamps,
+          intervalMs,
+          leftLabel: 'Throughput (req/s)',
+          rightLabel: 'Active threads',
+          series: [
+            { name: 'Throughput', values: values(bucket => bucket.throughput), axis: 'left', gaps: 'zero' },
+            { name: 'Active threads', values: values(bucket => bucket.activeThreads), axis: 'right' }
+          ]
+        });
+      case 'errors':
+        return this.lineChart(kind, {
+          title: 'Error Rate',
+          timestamps,
+          intervalMs,
+          leftLabel: 'Errors (%)',
+          series: [
+            { name: 'Error rate', values: values(bucket => (bucket.errors / bucket.count) * 100), axis: 'left' }
+          ]
+        });
+      case 'latency-histogram':
+        return this.histogram(kind, 'Latency Distribution', data.latencyDistribution);
+    }
+  }
+
+  private lineChart(kind: ChartKind, chart: LineChart): RenderedChart {
+    const plotWidth = this.width - MARGIN.left - MARGIN.right;
+    const plotHeight = this.height - MARGIN.top - MARGIN.bottom;
+    const parts = this.frame(chart.title);
+
+    if (chart.timestamps.length === 0) {
+      parts.push(this.noData());
+      return { kind, title: chart.title, svg: this.close(parts) };
+    }
+
+    const start = chart.timestamps[0];
+    // Buckets are plotted at their midpoint, so the axis spans whole buckets
+    const span = chart.timestamps[chart.timestamps.length - 1] + chart.intervalMs - start;
+    const x = (timestamp: number) => MARGIN.left + ((timestamp + chart.intervalMs / 2 - start) / span) * plotWidth;
+
+    const left = this.axis(chart.series.filter(s => s.axis === 'left'));
+    const right = chart.rightLabel ? this.axis(chart.series.filter(s => s.axis === 'right')) : undefined;
+    const y = (value: number, axis: Axis) => MARGIN.top + plotHeight - (value / axis.max) * plotHeight;
+
+    parts.push(...this.valueAxis(left, chart.leftLabel, 'left', y));
+    if (right && chart.rightLabel) {
+      parts.push(...this.valueAxis(right, chart.rightLabel, 'right', y));
+    }
+
+    for (const tick of this.niceTicks(span / 1000).filter(tick => tick * 1000 <= span)) {
+      const tx = MARGIN.left + ((tick * 1000) / span) * plotWidth;
+      parts.push(
+        `<line x1="${fmt(tx)}" y1="${MARGIN.top + plotHeight}" x2="${fmt(tx)}" y2="${MARGIN.top + plotHeight + 4}" stroke="#333"/>`,
+        `<text x="${fmt(tx)}" y="${MARGIN.top + plotHeight + 18}" text-anchor="middle">${formatElapsed(tick)}</text>`
+      );
+    }
+    parts.push(
+      `<text x="${MARGIN.left + plotWidth / 2}" y="${this.height - 10}" text-anchor="middle">Elapsed time</text>`
+    );
+
+    chart.series.forEach((series, index) => {
+      const axis = series.axis === 'right' && right ? right : left;
+      const color = COLORS[index % COLORS.length];
+      const point = (timestamp: number, value: number) => `${fmt(x(timestamp))},${fmt(y(value, axis))}`;
+
+      // Only buckets with samples exist, so a pause or outage shows up as a
+      // jump between timestamps more than one bucket apart
+      const segments: string[][] = [[]];
+      chart.timestamps.forEach((timestamp, i) => {
+        const previous = chart.timestamps[i - 1];
+        if (previous !== undefined && timestamp - previous > chart.intervalMs) {
+          if (series.gaps === 'zero') {
+            segments[segments.length - 1].push(
+              point(previous + chart.intervalMs, 0),
+              point(timestamp - chart.intervalMs, 0)
+            );
+          } else {
+            segments.push([]);
+          }
+        }
+        segments[segments.length - 1].push(point(timestamp, series.values[i]));
+      });
+
+      for (const points of segments) {
+        if (points.length === 1) {
+          const [px, py] = points[0].split(',');
+          parts.push(`<circle cx="${px}" cy="${py}" r="3" fill="${color}"/>`);
+        } else {
+          parts.push(`<polyline fill="none" stroke="${color}" stroke-width="2" points="${points.join(' ')}"/>`);
+        }
+      }
+    });
+
+    parts.push(...this.legend(chart.series.map(series => series.name)));
+    return { kind, title: chart.title, svg: this.close(parts) };
+  }
+
+  private histogram(kind: ChartKind, title: string, bins: LatencyBin[]): RenderedChart {
+    const plotWidth = this.width - MARGIN.left - MARGIN.right;
+    const plotHeight = this.height - MARGIN.top - MARGIN.bottom;
+    const parts = this.frame(title);
+
+    if (bins.length === 0) {
+      parts.push(this.noData());
+      return { kind, title, svg: this.close(parts) };
+    }
+
+    const axis = this.axis([{ name: 'Samples', values: bins.map(bin => bin.count), axis: 'left' }]);
+    const y = (value: number) => MARGIN.top + plotHeight - (value / axis.max) * plotHeight;
+    parts.push(...this.valueAxis(axis, 'Samples', 'left', y));
+
+    const barWidth = plotWidth / bins.length;
+    // Label every few bars so the range labels do not overlap
+    const labelEvery = Math.ceil(bins.length / 10);
+
+    bins.forEach((bin, index) => {
+      const bx = MARGIN.left + index * barWidth;
+      const by = y(bin.count);
+      parts.push(
+        `<rect x="${fmt(bx + 1)}" y="${fmt(by)}" width="${fmt(Math.max(1, barWidth - 2))}" height="${fmt(MARGIN.top + plotHeight - by)}" fill="${COLORS[0]}">` +
+        `<title>${index === bins.length - 1 ? `${bin.from}+` : `${bin.from}-${bin.to}`} ms: ${bin.count}</title></rect>`
+      );
+      if (index % labelEvery === 0) {
+        parts.push(`<text x="${fmt(bx)}" y="${MARGIN.top + plotHeight + 18}" text-anchor="middle">${bin.from}</text>`);
+      }
+    });
+
+    const last = bins[bins.length - 1];
+    parts.push(
+      `<text x="${MARGIN.left + plotWidth}" y="${MARGIN.top + plotHeight + 18}" text-anchor="middle">${last.to}</text>`,
+      `<text x="${MARGIN.left + plotWidth / 2}" y="${this.height - 10}" text-anchor="middle">Response time (ms)</text>`
+    );
+
+    return { kind, title, svg: this.close(parts) };
+  }
+
+  private frame(title: string): string[] {
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}" font-family="sans-serif" font-size="12" fill="#333">`,
+      `<rect width="${this.width}" height="${this.height}" fill="#fff"/>`,
+      `<text x="${MARGIN.left}" y="24" font-size="16" font-weight="bold">${escapeXml(title)}</text>`
+    ];
+  }
+
+  private close(parts: string[]): string {
+    return parts.join('\n') + '\n</svg>\n';
+  }
+
+  private noData(): string {
+    return `<text x="${this.width / 2}" y="${this.height / 2}" text-anchor="middle" fill="#999">No data</text>`;
+  }
+
+  /**
+   * Scale for a set of series: zero to a rounded maximum
+   */
+  private axis(series: Series[]): Axis {
+    const max = Math.max(0, ...series.flatMap(s => s.values.filter(Number.isFinite)));
+    const ticks = this.niceTicks(max > 0 ? max : 1);
+    return { max: ticks[ticks.length - 1], ticks };
+  }
+
+  private valueAxis(axis: Axis, label: string, side: 'left' | 'right', y: (value: number, axis: Axis) => number): string[] {
+    const plotWidth = this.width - MARGIN.left - MARGIN.right;
+    const edge = side === 'left' ? MARGIN.left : MARGIN.left + plotWidth;
+    const parts: string[] = [];
+
+    for (const tick of axis.ticks) {
+      const ty = fmt(y(tick, axis));
+      if (side === 'left') {
+        parts.push(`<line x1="${MARGIN.left}" y1="${ty}" x2="${MARGIN.left + plotWidth}" y2="${ty}" stroke="#e5e5e5"/>`);
+      }
+      parts.push(
+        `<text x="${side === 'left' ? edge - 6 : edge + 6}" y="${ty}" dy="4" text-anchor="${side === 'left' ? 'end' : 'start'}">${formatNumber(tick)}</text>`
+      );
+    }
+
+    const labelX = side === 'left' ? 16 : this.width - 12;
+    const labelY = MARGIN.top + (this.height - MARGIN.top - MARGIN.bottom) / 2;
+    parts.push(
+      `<line x1="${edge}" y1="${MARGIN.top}" x2="${edge}" y2="${this.height - MARGIN.bottom}" stroke="#333"/>`,
+      `<text x="${labelX}" y="${labelY}" text-anchor="middle" transform="rotate(-90 ${labelX} ${labelY})">${escapeXml(label)}</text>`
+    );
+    return parts;
+  }
+
+  private legend(names: string[]): string[] {
+    const parts: string[] = [];
+    let x = this.width - MARGIN.right;
+
+    // Laid out right to left so the legend stays right-aligned
+    for (let i = names.length - 1; i >= 0; i--) {
+      x -= names[i].length * 7 + 28;
+      parts.push(
+        `<rect x="${x}" y="14" width="12" height="12" fill="${COLORS[i % COLORS.length]}"/>`,
+        `<text x="${x + 16}" y="24">${escapeXml(names[i])}</text>`
+      );
+    }
+    return parts;
+  }
+
+  /**
+   * Ticks from zero at a 1, 2 or 5 step that covers the maximum
+   */
+  private niceTicks(max: number): number[] {
+    const rough = max / TICK_COUNT;
+    const magnitude = 10 ** Math.floor(Math.log10(rough));
+    const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rough) ?? 10 * magnitude;
+    const count = Math.max(1, Math.ceil(Number((max / step).toPrecision(12))));
+    return Array.from({ length: count + 1 }, (_, i) => Number((i * step).toPrecision(12)));
+  }
+}
+
+function fmt(value: number): string {
+  return Number(value.toFixed(1)).toString();
+}
+
+function formatNumber(value: number): string {
+  if (value >= 1000000) return `${Number((value / 1000000).toFixed(1))}M`;
+  if (value >= 1000) return `${Number((value / 1000).toFixed(1))}k`;
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Seconds as m:ss, or h:mm:ss from an hour on
+ */
+function formatElapsed(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
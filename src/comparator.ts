@@ -0,0 +1,220 @@
+import { ResultsAnalyzer } from './analyzer.js';
+import { mannWhitneyU, twoProportionZTest, SampleAccumulator } from './stats.js';
+import type { SignificanceTest } from './stats.js';
+import type {
+  ComparisonTolerances,
+  ComparisonResult,
+  ComparisonVerdict,
+  LabelComparison,
+  MetricDelta,
+  SampleScope
+} from './types.js';
+
+export const DEFAULT_TOLERANCES: ComparisonTolerances = {
+  responseTimePercent: 10,
+  errorRatePoints: 1,
+  throughputPercent: 10,
+  significanceLevel: 0.05,
+  minSamples: 20
+};
+
+const OVERALL_LABEL = 'All endpoints';
+
+/**
+ * Compares a candidate test run against a baseline run, label by label
+ */
+export class ResultsComparator {
+  private analyzer: ResultsAnalyzer;
+
+  constructor(analyzer: ResultsAnalyzer) {
+    this.analyzer = analyzer;
+  }
+
+  /**
+   * Compare two JTL files.
+   *
+   * A metric only counts as a regression or improvement when it moves beyond
+   * its tolerance band and, with enough samples, the difference is also
+   * statistically significant (Mann-Whitney U for response times, a
+   * two-proportion z-test for error rates).
+   */
+  async compareResults(
+    baselineFile: string,
+    candidateFile: string,
+    tolerances: Partial<ComparisonTolerances> = {},
+    scope: SampleScope = 'requests'
+  ): Promise<ComparisonResult> {
+    const effective: ComparisonTolerances = { ...DEFAULT_TOLERANCES };
+    for (const [key, value] of Object.entries(tolerances) as Array<[keyof ComparisonTolerances, number | undefined]>) {
+      if (value !== undefined) effective[key] = value;
+    }
+    const baseline = await this.analyzer.aggregateResults(baselineFile, undefined, scope);
+    const candidate = await this.analyzer.aggregateResults(candidateFile, undefined, scope);
+
+    const labels: LabelComparison[] = [];
+    for (const [label, baselineSamples] of baseline.endpoints) {
+      const candidateSamples = candidate.endpoints.get(label);
+      if (candidateSamples) {
+        labels.push(this.compareSamples(label, baselineSamples, candidateSamples, effective));
+      }
+    }
+
+    const overall = this.compareSamples(OVERALL_LABEL, baseline.overall, candidate.overall, effective);
+    const counts: Record<ComparisonVerdict, number> = { regression: 0, improvement: 0, unchanged: 0 };
+    for (const comparison of labels) {
+      counts[comparison.verdict]++;
+    }
+
+    let verdict: ComparisonVerdict = 'unchanged';
+    if (overall.verdict === 'regression' || counts.regression > 0) {
+      verdict = 'regression';
+    } else if (overall.verdict === 'improvement' || counts.improvement > 0) {
+      verdict = 'improvement';
+    }
+
+    const verdictOrder = { regression: 0, improvement: 1, unchanged: 2 };
+
+    return {
+      baselineFile,
+      candidateFile,
+      tolerances: effective,
+      verdict,
+      overall,
+      labels: labels.sort((a, b) => verdictOrder[a.verdict] - verdictOrder[b.verdict]),
+      missingInCandidate: [...baseline.endpoints.keys()].filter(label => !candidate.endpoints.has(label)),
+      newInCandidate: [...candidate.endpoints.keys()].filter(label => !baseline.endpoints.has(label)),
+      counts
+    };
+  }
+
+  /**
+   * Compare the samples of one label
+   */
+  private compareSamples(
+    label: string,
+    baseline: SampleAccumulator,
+    candidate: SampleAccumulator,
+    tolerances: ComparisonTolerances
+  ): LabelComparison {
+    const comparison: LabelComparison = {
+      label,
+      baselineSamples: baseline.count,
+      candidateSamples: candidate.count,
+      average: this.delta(baseline.elapsedSum / baseline.count, candidate.elapsedSum / candidate.count),
+      percentile90: this.delta(baseline.percentile(90), candidate.percentile(90)),
+      percentile95: this.delta(baseline.percentile(95), candidate.percentile(95)),
+      percentile99: this.delta(baseline.percentile(99), candidate.percentile(99)),
+      errorRate: this.delta(
+        (baseline.failures / baseline.count) * 100,
+        (candidate.failures / candidate.count) * 100
+      ),
+      throughput: this.delta(this.throughput(baseline), this.throughput(candidate)),
+      responseTimePValue: null,
+      errorRatePValue: null,
+      verdict: 'unchanged',
+      reasons: []
+    };
+
+    const testable = baseline.count >= tolerances.minSamples && candidate.count >= tolerances.minSamples;
+    const regressions: string[] = [];
+    const improvements: string[] = [];
+
+    // Response times: candidate ranked against baseline, positive z means slower
+    const responseTimeTest = testable ? mannWhitneyU(candidate.histogram, baseline.histogram) : undefined;
+    comparison.responseTimePValue = responseTimeTest?.pValue ?? null;
+    const responseTimeMetrics: Array<[string, MetricDelta]> = [
+      ['average', comparison.average],
+      ['p90', comparison.percentile90],
+      ['p95', comparison.percentile95],
+      ['p99', comparison.percentile99]
+    ];
+
+    for (const [name, delta] of responseTimeMetrics) {
+      if (delta.deltaPercent === null) continue;
+      const change = `${name} ${this.formatPercent(delta.deltaPercent)}`;
+
+      if (delta.deltaPercent > tolerances.responseTimePercent &&
+          this.isSignificant(responseTimeTest, tolerances, 1)) {
+        regressions.push(change);
+      } else if (delta.deltaPercent < -tolerances.responseTimePercent &&
+                 this.isSignificant(responseTimeTest, tolerances, -1)) {
+        improvements.push(change);
+      }
+    }
+
+    // Error rate: absolute change in percentage points
+    const errorRateTest = testable
+      ? twoProportionZTest(candidate.failures, candidate.count, baseline.failures, baseline.count)
+      : undefined;
+    comparison.errorRatePValue = errorRateTest?.pValue ?? null;
+    const errorChange = `error rate ${comparison.errorRate.delta >= 0 ? '+' : ''}${comparison.errorRate.delta.toFixed(2)} points`;
+
+    if (comparison.errorRate.delta > tolerances.errorRatePoints &&
+        this.isSignificant(errorRateTest, tolerances, 1)) {
+      regressions.push(errorChange);
+    } else if (comparison.errorRate.delta < -tolerances.errorRatePoints &&
+               this.isSignificant(errorRateTest, tolerances, -1)) {
+      improvements.push(errorChange);
+    }
+
+    // Throughput has no per-sample distribution, so only the tolerance applies
+    const throughputPercent = comparison.throughput.deltaPercent;
+    if (throughputPercent !== null) {
+      const change = `throughput ${this.formatPercent(throughputPercent)}`;
+      if (throughputPercent < -tolerances.throughputPercent) {
+        regressions.push(change);
+      } else if (throughputPercent > tolerances.throughputPercent) {
+        improvements.push(change);
+      }
+    }
+
+    if (regressions.length > 0) {
+      comparison.verdict = 'regression';
+      comparison.reasons = regressions;
+    } else if (improvements.length > 0) {
+      comparison.verdict = 'improvement';
+      comparison.reasons = improvements;
+    } else {
+      comparison.reasons = ['All changes within tolerance or not statistically significant'];
+    }
+
+    if (!testable) {
+      comparison.reasons.push(
+        `Fewer than ${tolerances.minSamples} samples on one side; tolerance bands applied without significance testing`
+      );
+    }
+
+    return comparison;
+  }
+
+  /**
+   * Whether a test supports a change in the given direction. Without a test
+   * (too few samples) only the tolerance band decides.
+   */
+  private isSignificant(
+    test: SignificanceTest | undefined,
+    tolerances: ComparisonTolerances,
+    direction: 1 | -1
+  ): boolean {
+    if (!test) return true;
+    return test.pValue < tolerances.significanceLevel && Math.sign(test.z) === direction;
+  }
+
+  private throughput(samples: SampleAccumulator): number {
+    const seconds = samples.durationSeconds;
+    return seconds > 0 ? samples.count / seconds : 0;
+  }
+
+  private delta(baseline: number, candidate: number): MetricDelta {
+    return {
+      baseline,
+      candidate,
+      delta: candidate - baseline,
+      deltaPercent: baseline !== 0 ? ((candidate - baseline) / baseline) * 100 : null
+    };
+  }
+
+  private formatPercent(value: number): string {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+  }
+}
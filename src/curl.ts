@@ -0,0 +1,422 @@
+import { TestPlanBuilder } from './builder.js';
+import type { CurlImportOptions, HttpMethod, HttpStep } from './types.js';
+
+const SUPPORTED_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD'];
+
+/**
+ * Options whose value is the next argument (or attached, as in -XPOST)
+ */
+const OPTIONS_WITH_VALUE = new Set([
+  '-X', '--request', '-H', '--header', '-d', '--data', '--data-raw', '--data-binary',
+  '--data-ascii', '--data-urlencode', '-F', '--form', '--form-string', '-u', '--user',
+  '-b', '--cookie', '-A', '--user-agent', '-e', '--referer', '--url', '--json', '--oauth2-bearer',
+  // Accepted and ignored
+  '-o', '--output', '-m', '--max-time', '--connect-timeout', '--retry', '-w', '--write-out',
+  '-x', '--proxy', '-U', '--proxy-user', '--cacert', '--capath', '-E', '--cert', '--key',
+  '--resolve', '--connect-to', '-c', '--cookie-jar', '-r', '--range', '-T', '--upload-file',
+  '--variable', '--proxy-header', '--max-filesize', '--retry-delay', '--retry-max-time',
+  '--limit-rate', '--interface', '--dns-servers', '--cert-type', '--key-type', '--pass',
+  '--ciphers', '--tls-max', '--expect100-timeout', '--keepalive-time', '--unix-socket',
+  '-K', '--config', '-Y', '--speed-limit', '-y', '--speed-time', '-z', '--time-cond',
+  '-D', '--dump-header', '--trace', '--trace-ascii', '--stderr', '--noproxy'
+]);
+
+/**
+ * Flags with no effect on the request JMeter sends. Long options that are
+ * neither listed here nor handled are assumed to take a value, so that value
+ * is not mistaken for the URL.
+ */
+const IGNORED_FLAGS = new Set([
+  '-s', '--silent', '-S', '--show-error', '-k', '--insecure', '-L', '--location', '-v', '--verbose',
+  '-i', '--include', '--http1.0', '--http1.1', '--http2', '--http2-prior-knowledge', '--http3',
+  '-f', '--fail', '--fail-with-body', '-N', '--no-buffer', '-q', '--disable', '-0', '-4', '--ipv4',
+  '-6', '--ipv6', '-g', '--globoff', '--path-as-is', '--tcp-nodelay', '--no-keepalive',
+  '--no-sessionid', '--no-progress-meter', '-#', '--progress-bar', '-O', '--remote-name',
+  '-J', '--remote-header-name', '--location-trusted', '--raw', '--tr-encoding', '--ssl-reqd',
+  '--tlsv1', '--tlsv1.0', '--tlsv1.1', '--tlsv1.2', '--tlsv1.3', '--basic', '--create-dirs'
+]);
+
+/**
+ * Long options handled below that take no value
+ */
+const HANDLED_FLAGS = new Set(['--compressed', '--get', '--head']);
+
+function takesValue(option: string): boolean {
+  if (OPTIONS_WITH_VALUE.has(option)) return true;
+  // "--no-..." options switch a feature off and never take a value
+  return option.startsWith('--') && !option.startsWith('--no-') &&
+    !IGNORED_FLAGS.has(option) && !HANDLED_FLAGS.has(option);
+}
+
+/**
+ * Parsed form of a cURL command line
+ */
+export interface CurlRequest {
+  step: HttpStep;
+  warnings: string[];
+}
+
+/**
+ * Builds JMeter test plans from cURL command lines, e.g. from a browser's
+ * "Copy as cURL"
+ */
+export class CurlImporter {
+  private builder: TestPlanBuilder;
+
+  constructor(builder: TestPlanBuilder) {
+    this.builder = builder;
+  }
+
+  /**
+   * Write a test plan with one sampler per command, in order
+   */
+  async importCommands(options: CurlImportOptions): Promise<{
+    success: boolean;
+    message: string;
+    filePath?: string;
+    requests: number;
+    warnings: string[];
+  }> {
+    if (options.commands.length === 0) {
+      throw new Error('At least one cURL command is required');
+    }
+
+    const steps: HttpStep[] = [];
+    const warnings: string[] = [];
+    options.commands.forEach((command, index) => {
+      const parsed = this.parseCommand(command);
+      steps.push(parsed.step);
+      warnings.push(...parsed.warnings.map(warning => `Command ${index + 1}: ${warning}`));
+    });
+
+    const result = await this.builder.createHttpTestPlan({
+      name: options.name || 'cURL Requests',
+      threads: options.threads,
+      rampUp: options.rampUp,
+      duration: options.duration,
+      thinkTime: options.thinkTime,
+      steps,
+      listeners: [{ type: 'summary' }, { type: 'aggregate' }]
+    }, options.outputPath);
+
+    return { ...result, requests: steps.length, warnings };
+  }
+
+  /**
+   * Parse one cURL command line into an HTTP step
+   */
+  parseCommand(command: string): CurlRequest {
+    const args = tokenize(command);
+    if (args[0] === 'curl' || args[0]?.endsWith('/curl') || args[0]?.toLowerCase() === 'curl.exe') {
+      args.shift();
+    }
+
+    const headers: Record<string, string> = {};
+    const data: string[] = [];
+    const form: Array<[string, string]> = [];
+    const warnings: string[] = [];
+    let method: string | undefined;
+    let url: string | undefined;
+    let user: string | undefined;
+    let compressed = false;
+    let get = false;
+    let json = false;
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+
+      if (!arg.startsWith('-') || arg === '-') {
+        if (url) warnings.push(`Ignored extra URL ${arg}`);
+        else url = arg;
+        continue;
+      }
+
+      // Option and value pairs in this argument
+      const options: Array<[string, string | undefined]> = [];
+      if (arg.startsWith('--')) {
+        const separator = arg.indexOf('=');
+        if (separator > 0 && takesValue(arg.slice(0, separator))) {
+          options.push([arg.slice(0, separator), arg.slice(separator + 1)]);
+        } else {
+          options.push([arg, undefined]);
+        }
+      } else {
+        // A cluster of short options (-sSL). An option that takes a value
+        // ends the cluster and takes the rest of the argument (-XPOST,
+        // -sXPOST) or, when nothing is left, the next argument (-sH 'A: b')
+        for (let j = 1; j < arg.length; j++) {
+          const option = `-${arg[j]}`;
+          if (OPTIONS_WITH_VALUE.has(option)) {
+            options.push([option, j + 1 < arg.length ? arg.slice(j + 1) : undefined]);
+            break;
+          }
+          options.push([option, undefined]);
+        }
+      }
+
+      for (let [option, value] of options) {
+        if (takesValue(option) && value === undefined) {
+          if (i + 1 < args.length) {
+            value = args[++i];
+          } else if (OPTIONS_WITH_VALUE.has(option)) {
+            throw new Error(`Missing value for ${option}`);
+          }
+        }
+
+        switch (option) {
+          case '-X':
+          case '--request':
+            method = value!.toUpperCase();
+            break;
+          case '-H':
+          case '--header': {
+            const separator = value!.indexOf(':');
+            if (separator > 0) {
+              headers[value!.slice(0, separator).trim()] = value!.slice(separator + 1).trim();
+            } else if (value!.endsWith(';')) {
+              // "Name;" sends the header with an empty value
+              headers[value!.slice(0, -1).trim()] = '';
+            }
+            break;
+          }
+          case '-d':
+          case '--data':
+          case '--data-ascii':
+          case '--data-binary':
+            if (value!.startsWith('@')) {
+              throw new Error(`Reading request data from a file (${value}) is not supported`);
+            }
+            data.push(option === '--data-binary' ? value! : value!.replace(/[\r\n]/g, ''));
+            break;
+          case '--data-raw':
+            data.push(value!);
+            break;
+          case '--json':
+            if (value!.startsWith('@')) {
+              throw new Error(`Reading request data from a file (${value}) is not supported`);
+            }
+            // Like --data-binary, but repeated values are joined as they are
+            data.push(value!);
+            json = true;
+            break;
+          case '--oauth2-bearer':
+            headers['Authorization'] = `Bearer ${value}`;
+            break;
+          case '--data-urlencode':
+            data.push(this.urlencodeData(value!));
+            break;
+          case '-F':
+          case '--form':
+          case '--form-string': {
+            const separator = value!.indexOf('=');
+            const fieldValue = value!.slice(separator + 1);
+            if (separator < 0) {
+              throw new Error(`Invalid form field "${value}"`);
+            }
+            if (option !== '--form-string' && /^[@<]/.test(fieldValue)) {
+              throw new Error(`File upload fields (${value}) are not supported`);
+            }
+            form.push([value!.slice(0, separator), fieldValue]);
+            break;
+          }
+          case '-u':
+          case '--user':
+            user = value;
+            break;
+          case '-b':
+          case '--cookie':
+            if (value!.includes('=')) headers['Cookie'] = value!;
+            else warnings.push(`Ignored cookie file ${value}`);
+            break;
+          case '-A':
+          case '--user-agent':
+            headers['User-Agent'] = value!;
+            break;
+          case '-e':
+          case '--referer':
+            headers['Referer'] = value!;
+            break;
+          case '--url':
+            url = value;
+            break;
+          case '--compressed':
+            compressed = true;
+            break;
+          case '-G':
+          case '--get':
+            get = true;
+            break;
+          case '-I':
+          case '--head':
+            method = 'HEAD';
+            break;
+          default:
+            if (!OPTIONS_WITH_VALUE.has(option) && !IGNORED_FLAGS.has(option)) {
+              warnings.push(`Ignored option ${option}${value !== undefined ? ` ${value}` : ''}`);
+            }
+        }
+      }
+    }
+    if (!url) {
+      throw new Error('No URL found in cURL command');
+    }
+    if (!/^https?:\/\//i.test(url)) {
+      url = `http://${url}`;
+    }
+
+    const step: HttpStep = { url };
+    const hasHeader = (name: string) =>
+      Object.keys(headers).some(header => header.toLowerCase() === name.toLowerCase());
+
+    if (get && data.length > 0) {
+      // -G moves the data into the query string
+      url += (url.includes('?') ? '&' : '?') + data.join('&');
+      step.url = url;
+    } else if (data.length > 0) {
+      step.body = data.join(json ? '' : '&');
+      if (!hasHeader('Content-Type')) {
+        headers['Content-Type'] = json ? 'application/json' : 'application/x-www-form-urlencoded';
+      }
+      if (json && !hasHeader('Accept')) headers['Accept'] = 'application/json';
+    } else if (form.length > 0) {
+      const { body, contentType } = encodeMultipart(form);
+      step.body = body;
+      headers['Content-Type'] = contentType;
+    }
+
+    const resolvedMethod = method ?? (step.body !== undefined ? 'POST' : 'GET');
+    if (!SUPPORTED_METHODS.includes(resolvedMethod as HttpMethod)) {
+      throw new Error(`HTTP method ${resolvedMethod} is not supported`);
+    }
+    step.method = resolvedMethod as HttpMethod;
+
+    if (user !== undefined && !hasHeader('Authorization')) {
+      const credentials = user.includes(':') ? user : `${user}:`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+    if (compressed && !hasHeader('Accept-Encoding')) {
+      headers['Accept-Encoding'] = 'gzip, deflate, br';
+    }
+
+    if (Object.keys(headers).length > 0) {
+      step.headers = headers;
+    }
+
+    return { step, warnings };
+  }
+
+  /**
+   * --data-urlencode forms: "content", "=content", "name=content"
+   */
+  private urlencodeData(value: string): string {
+    if (value.startsWith('@') || (!value.includes('=') && value.includes('@'))) {
+      throw new Error(`Reading request data from a file (${value}) is not supported`);
+    }
+    const separator = value.indexOf('=');
+    if (separator < 0) return encodeURIComponent(value);
+    if (separator === 0) return encodeURIComponent(value.slice(1));
+    return `${value.slice(0, separator)}=${encodeURIComponent(value.slice(separator + 1))}`;
+  }
+}
+
+/**
+ * Encode text fields as a multipart/form-data body
+ */
+export function encodeMultipart(fields: Array<[string, string]>): { body: string; contentType: string } {
+  const boundary = '----JMeterMcpFormBoundary7MA4YWxkTrZu0gW';
+  let body = '';
+  for (const [name, value] of fields) {
+    body += `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`;
+  }
+  body += `--${boundary}--\r\n`;
+  return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+/**
+ * Split a command line into arguments the way a POSIX shell would, also
+ * accepting the cmd.exe caret continuations of Windows "Copy as cURL"
+ */
+function tokenize(command: string): string[] {
+  const text = command.replace(/\\\r?\n/g, ' ').replace(/\^\r?\n/g, ' ');
+  const args: string[] = [];
+  let current = '';
+  let inToken = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      if (inToken) {
+        args.push(current);
+        current = '';
+        inToken = false;
+      }
+      i++;
+    } else if (char === "'") {
+      const end = text.indexOf("'", i + 1);
+      if (end < 0) throw new Error('Unterminated single quote in cURL command');
+      current += text.slice(i + 1, end);
+      inToken = true;
+      i = end + 1;
+    } else if (char === '$' && text[i + 1] === "'") {
+      // ANSI-C quoting: $'...' with backslash escapes
+      i += 2;
+      while (i < text.length && text[i] !== "'") {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const [decoded, length] = decodeAnsiEscape(text, i);
+          current += decoded;
+          i += length;
+        } else {
+          current += text[i++];
+        }
+      }
+      if (i >= text.length) throw new Error('Unterminated quote in cURL command');
+      inToken = true;
+      i++;
+    } else if (char === '"') {
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && '"\\$`'.includes(text[i + 1])) {
+          current += text[i + 1];
+          i += 2;
+        } else {
+          current += text[i++];
+        }
+      }
+      if (i >= text.length) throw new Error('Unterminated double quote in cURL command');
+      inToken = true;
+      i++;
+    } else if (char === '\\' && i + 1 < text.length) {
+      current += text[i + 1];
+      inToken = true;
+      i += 2;
+    } else {
+      current += char;
+      inToken = true;
+      i++;
+    }
+  }
+
+  if (inToken) args.push(current);
+  return args;
+}
+
+function decodeAnsiEscape(text: string, index: number): [string, number] {
+  const next = text[index + 1];
+  const simple: Record<string, string> = {
+    n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"', a: '\x07', b: '\b', e: '\x1b', f: '\f', v: '\v'
+  };
+  if (next in simple) return [simple[next], 2];
+
+  const hex = next === 'x' ? text.slice(index + 2).match(/^[0-9a-fA-F]{1,2}/) : null;
+  if (hex) return [String.fromCharCode(parseInt(hex[0], 16)), 2 + hex[0].length];
+
+  const unicode = next === 'u' ? text.slice(index + 2).match(/^[0-9a-fA-F]{1,4}/) : null;
+  if (unicode) return [String.fromCharCode(parseInt(unicode[0], 16)), 2 + unicode[0].length];
+
+  const octal = text.slice(index + 1).match(/^[0-7]{1,3}/);
+  if (octal) return [String.fromCharCode(parseInt(octal[0], 8)), 1 + octal[0].length];
+
+  return ['\\' + next, 2];
+}
@@ -0,0 +1,588 @@
+import * as fs from 'fs/promises';
+import { locateJmx, matchesSelector, decodeEntities, PATH_SEPARATOR } from './jmx.js';
+import type { LocatedElement, XmlNode } from './jmx.js';
+import type {
+  HeaderEdit,
+  LoadShapeEdit,
+  RetargetEdit,
+  TestPlanEdits,
+  TestPlanModificationOptions,
+  TestPlanModificationResult
+} from './types.js';
+
+/**
+ * Lines of context around each change in the diff
+ */
+const DIFF_CONTEXT = 3;
+
+/**
+ * Thread group properties for each load shape setting. Plugin thread groups
+ * use their own property names.
+ */
+const LOAD_SHAPE_PROPERTIES: Record<string, Partial<Record<keyof Omit<LoadShapeEdit, 'threadGroup'>, string>>> = {
+  ThreadGroup: {
+    threads: 'ThreadGroup.num_threads',
+    rampUp: 'ThreadGroup.ramp_time',
+    duration: 'ThreadGroup.duration',
+    delay: 'ThreadGroup.delay',
+    loops: 'LoopController.loops'
+  },
+  'com.blazemeter.jmeter.threads.concurrency.ConcurrencyThreadGroup': {
+    threads: 'TargetLevel',
+    rampUp: 'RampUp',
+    duration: 'Hold'
+  }
+};
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Applies targeted edits to existing JMX files. Only the edited elements
+ * change; the rest of the file is written back byte for byte.
+ */
+export class TestPlanEditor {
+  async modify(options: TestPlanModificationOptions): Promise<TestPlanModificationResult> {
+    const content = await fs.readFile(options.testPlan, 'utf-8');
+    const { text, changes, edits } = this.applyEdits(content, options.edits);
+    const outputPath = options.outputPath || options.testPlan;
+    const dryRun = options.dryRun ?? false;
+
+    const result: TestPlanModificationResult = {
+      testPlan: options.testPlan,
+      outputPath,
+      dryRun,
+      changes,
+      diff: unifiedDiff(content, edits, options.testPlan, outputPath)
+    };
+
+    if (!dryRun && edits.length > 0) {
+      if ((options.backup ?? true) && outputPath === options.testPlan) {
+        result.backupPath = `${options.testPlan}.bak`;
+        await fs.copyFile(options.testPlan, result.backupPath);
+      }
+      await fs.writeFile(outputPath, text, 'utf-8');
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply edits to JMX text, returning the new text, a description of each
+   * change and the text edits made
+   */
+  applyEdits(content: string, edits: TestPlanEdits): {
+    text: string;
+    changes: string[];
+    edits: TextEdit[];
+  } {
+    const session = new EditSession(content);
+
+    for (const loadShape of edits.loadShape ?? []) {
+      session.setLoadShape(loadShape);
+    }
+    for (const rename of edits.rename ?? []) {
+      session.rename(rename.element, rename.name);
+    }
+    if (edits.retarget) {
+      session.retarget(edits.retarget);
+    }
+
+    const conflicting = (edits.enable ?? []).filter(selector => edits.disable?.includes(selector));
+    if (conflicting.length > 0) {
+      throw new Error(`Cannot both enable and disable: ${conflicting.join(', ')}`);
+    }
+    for (const selector of edits.enable ?? []) {
+      session.setEnabled(selector, true);
+    }
+    for (const selector of edits.disable ?? []) {
+      session.setEnabled(selector, false);
+    }
+
+    if (edits.headers) {
+      session.editHeaders(edits.headers);
+    }
+
+    const textEdits = session.textEdits();
+    const text = applyTextEdits(content, textEdits);
+
+    // Make sure the result is still a well-formed test plan
+    locateJmx(text);
+
+    return { text, changes: session.changes, edits: textEdits };
+  }
+}
+
+/**
+ * Collects edits against one JMX text. Start tags are rewritten as a whole,
+ * so several attribute changes on one element merge into a single edit, and
+ * XML appended to the same node is inserted in one place. Repeated edits of
+ * a property merge when they agree and are rejected when they do not.
+ */
+class EditSession {
+  readonly changes: string[] = [];
+  private content: string;
+  private root: LocatedElement;
+  private elements: LocatedElement[] = [];
+  private startTags = new Map<XmlNode, string>();
+  private appended = new Map<XmlNode, string[]>();
+  private properties = new Map<XmlNode, Map<string, string>>();
+  private edits: TextEdit[] = [];
+
+  constructor(content: string) {
+    this.content = content;
+    this.root = locateJmx(content);
+    const collect = (element: LocatedElement) => {
+      this.elements.push(element);
+      element.children.forEach(collect);
+    };
+    collect(this.root);
+  }
+
+  setLoadShape(edit: LoadShapeEdit): void {
+    const threadGroups = edit.threadGroup
+      ? this.select(edit.threadGroup, element => element.kind === 'threadGroup')
+      : this.elements.filter(element => element.kind === 'threadGroup');
+    if (threadGroups.length === 0) {
+      throw new Error('The test plan has no thread groups');
+    }
+
+    for (const threadGroup of threadGroups) {
+      const tag = ['SetupThreadGroup', 'PostThreadGroup'].includes(threadGroup.tag) ? 'ThreadGroup' : threadGroup.tag;
+      const properties = LOAD_SHAPE_PROPERTIES[tag];
+      if (!properties) {
+        throw new Error(`Cannot change the load shape of ${threadGroup.tag} "${threadGroup.name}"`);
+      }
+
+      for (const setting of ['threads', 'rampUp', 'duration', 'delay', 'loops'] as const) {
+        const value = edit[setting];
+        if (value === undefined) continue;
+
+        const property = properties[setting];
+        if (!property) {
+          throw new Error(`${threadGroup.tag} "${threadGroup.name}" has no ${setting} setting`);
+        }
+        this.setProperty(threadGroup, property, String(value));
+      }
+
+      // A duration only applies when the scheduler is on
+      if (edit.duration !== undefined && tag === 'ThreadGroup') {
+        this.setProperty(threadGroup, 'ThreadGroup.scheduler', 'true', 'boolProp');
+      }
+    }
+  }
+
+  rename(selector: string, name: string): void {
+    const matches = this.select(selector);
+    if (matches.length > 1) {
+      throw new Error(`"${selector}" matches ${matches.length} elements; use a longer path to rename one`);
+    }
+
+    const [element] = matches;
+    this.setAttribute(element.node, 'testname', name);
+    this.changes.push(`${this.pathOf(element)}: renamed to "${name}"`);
+  }
+
+  retarget(edit: RetargetEdit): void {
+    const candidates = this.elements.filter(element =>
+      element.tag === 'HTTPSamplerProxy' ||
+      (element.tag === 'ConfigTestElement' && element.node.attributes.guiclass === 'HttpDefaultsGui')
+    );
+
+    const targets = candidates.filter(element => {
+      const domain = this.getProperty(element.node, 'HTTPSampler.domain');
+      // Samplers without a domain inherit it from HTTP Request Defaults
+      if (!domain) return false;
+      if (edit.fromHost && domain !== edit.fromHost) return false;
+      if (edit.samplers?.length) {
+        return element.tag === 'HTTPSamplerProxy' && edit.samplers.some(selector => matchesSelector(element, selector));
+      }
+      return true;
+    });
+
+    if (targets.length === 0) {
+      throw new Error(`No HTTP samplers or HTTP Request Defaults match${edit.fromHost ? ` host ${edit.fromHost}` : ''}`);
+    }
+
+    for (const element of targets) {
+      this.setProperty(element, 'HTTPSampler.domain', edit.host);
+      if (edit.protocol !== undefined) {
+        this.setProperty(element, 'HTTPSampler.protocol', edit.protocol);
+      }
+      if (edit.port !== undefined) {
+        this.setProperty(element, 'HTTPSampler.port', String(edit.port));
+      }
+    }
+  }
+
+  setEnabled(selector: string, enabled: boolean): void {
+    for (const element of this.select(selector)) {
+      if ((element.node.attributes.enabled !== 'false') === enabled) continue;
+      this.setAttribute(element.node, 'enabled', String(enabled));
+      this.changes.push(`${this.pathOf(element)}: ${enabled ? 'enabled' : 'disabled'}`);
+    }
+  }
+
+  editHeaders(edit: HeaderEdit): void {
+    const set = edit.set ?? {};
+    const remove = (edit.remove ?? []).map(name => name.toLowerCase());
+    const both = Object.keys(set).filter(name => remove.includes(name.toLowerCase()));
+    if (both.length > 0) {
+      throw new Error(`Cannot both set and remove headers: ${both.join(', ')}`);
+    }
+
+    const managers = edit.headerManager
+      ? this.select(edit.headerManager, element => element.tag === 'HeaderManager')
+      : this.elements.filter(element => element.tag === 'HeaderManager');
+
+    if (managers.length === 0) {
+      if (Object.keys(set).length > 0) {
+        this.addHeaderManager(set);
+      }
+      return;
+    }
+
+    for (const manager of managers) {
+      const collection = manager.node.children.find(
+        node => node.tag === 'collectionProp' && node.attributes.name === 'HeaderManager.headers'
+      );
+      const headers = collection?.children.filter(node => node.tag === 'elementProp') ?? [];
+      const headerName = (node: XmlNode) => this.getProperty(node, 'Header.name') ?? '';
+
+      for (const node of headers) {
+        if (remove.includes(headerName(node).toLowerCase())) {
+          this.removeNode(node);
+          this.changes.push(`${this.pathOf(manager)}: removed header ${headerName(node)}`);
+        }
+      }
+
+      const added: string[] = [];
+      for (const [name, value] of Object.entries(set)) {
+        const existing = headers.find(node => headerName(node).toLowerCase() === name.toLowerCase());
+        if (existing) {
+          this.setNodeProperty(existing, 'Header.value', value, manager, `header ${name}`);
+        } else {
+          added.push(this.headerXml(name, value, this.indentOf(manager.node.start) + '    '));
+          this.changes.push(`${this.pathOf(manager)}: added header ${name}: ${value}`);
+        }
+      }
+
+      if (added.length > 0) {
+        if (!collection) {
+          throw new Error(`${this.pathOf(manager)} has no header collection`);
+        }
+        this.appendToNode(collection, added.join(''));
+      }
+    }
+  }
+
+  /**
+   * All pending edits, in document order
+   */
+  textEdits(): TextEdit[] {
+    const appendEdits = [...this.appended.entries()].map(([node, xml]) => this.appendEdit(node, xml.join('')));
+    const startTagEdits = [...this.startTags.entries()].map(([node, text]) => ({
+      start: node.start,
+      end: node.openEnd,
+      text
+    }));
+    return [...this.edits, ...appendEdits, ...startTagEdits]
+      .map((edit, order) => ({ edit, order }))
+      .sort((a, b) => a.edit.start - b.edit.start || a.order - b.order)
+      .map(({ edit }) => edit);
+  }
+
+  private select(selector: string, filter: (element: LocatedElement) => boolean = () => true): LocatedElement[] {
+    const matches = this.elements.filter(element => filter(element) && matchesSelector(element, selector));
+    if (matches.length === 0) {
+      throw new Error(`No element matches "${selector}"`);
+    }
+    return matches;
+  }
+
+  /**
+   * Set a property on an element, adding it when missing
+   */
+  private setProperty(element: LocatedElement, name: string, value: string, type: string = 'stringProp'): void {
+    this.setNodeProperty(element.node, name, value, element, name, type);
+  }
+
+  private setNodeProperty(
+    node: XmlNode,
+    name: string,
+    value: string,
+    element: LocatedElement,
+    label: string,
+    type: string = 'stringProp'
+  ): void {
+    let pending = this.properties.get(node);
+    if (!pending) {
+      pending = new Map();
+      this.properties.set(node, pending);
+    }
+    const earlier = pending.get(name);
+    if (earlier !== undefined) {
+      if (earlier === value) return;
+      throw new Error(`Conflicting edits: ${label} of ${this.pathOf(element)} set to both "${earlier}" and "${value}"`);
+    }
+    pending.set(name, value);
+
+    const property = this.findProperty(node, name);
+    const current = property ? this.textOf(property) : undefined;
+    if (current === value) return;
+
+    const escaped = escapeXml(value);
+    if (!property) {
+      const indent = this.indentOf(node.start) + '  ';
+      this.appendToNode(node, `\n${indent}<${type} name="${escapeXml(name)}">${escaped}</${type}>`);
+    } else if (property.selfClosing) {
+      const startTag = this.content.slice(property.start, property.openEnd).replace(/\s*\/>$/, '>');
+      this.edits.push({ start: property.start, end: property.end, text: `${startTag}${escaped}</${property.tag}>` });
+    } else {
+      this.edits.push({ start: property.openEnd, end: property.closeStart, text: escaped });
+    }
+
+    this.changes.push(`${this.pathOf(element)}: ${label} ${current === undefined ? '(unset)' : `"${current}"`} → "${value}"`);
+  }
+
+  /**
+   * Find a scalar property among a node's children or nested elementProps
+   */
+  private findProperty(node: XmlNode, name: string): XmlNode | undefined {
+    for (const child of node.children) {
+      if (child.tag.endsWith('Prop') && child.tag !== 'elementProp' && child.tag !== 'collectionProp' &&
+          child.attributes.name === name) {
+        return child;
+      }
+      if (child.tag === 'elementProp') {
+        const nested = this.findProperty(child, name);
+        if (nested) return nested;
+      }
+    }
+    return undefined;
+  }
+
+  private getProperty(node: XmlNode, name: string): string | undefined {
+    const property = this.findProperty(node, name);
+    return property ? this.textOf(property) : undefined;
+  }
+
+  private textOf(node: XmlNode): string {
+    return node.selfClosing ? '' : decodeEntities(this.content.slice(node.openEnd, node.closeStart));
+  }
+
+  private setAttribute(node: XmlNode, name: string, value: string): void {
+    const startTag = this.startTags.get(node) ?? this.content.slice(node.start, node.openEnd);
+    const pattern = new RegExp(`(\\s${name}\\s*=\\s*)("[^"]*"|'[^']*')`);
+    const updated = pattern.test(startTag)
+      ? startTag.replace(pattern, (_, prefix: string) => `${prefix}"${escapeXml(value)}"`)
+      : startTag.replace(/\s*(\/?>)$/, ` ${name}="${escapeXml(value)}"$1`);
+    this.startTags.set(node, updated);
+  }
+
+  /**
+   * Insert XML as the last children of a node, before its end tag
+   */
+  private appendToNode(node: XmlNode, xml: string): void {
+    this.appended.set(node, [...(this.appended.get(node) ?? []), xml]);
+  }
+
+  private appendEdit(node: XmlNode, xml: string): TextEdit {
+    if (node.selfClosing) {
+      // The element gets an end tag, so the start tag is rewritten here too
+      const startTag = (this.startTags.get(node) ?? this.content.slice(node.start, node.openEnd)).replace(/\s*\/>$/, '>');
+      this.startTags.delete(node);
+      return { start: node.start, end: node.end, text: `${startTag}${xml}\n${this.indentOf(node.start)}</${node.tag}>` };
+    }
+
+    // Insert after the last child so the end tag keeps its own line
+    const lastChild = node.children[node.children.length - 1];
+    const position = lastChild ? lastChild.end : node.openEnd;
+    return { start: position, end: position, text: xml };
+  }
+
+  /**
+   * Remove a node together with the line break and indentation before it
+   */
+  private removeNode(node: XmlNode): void {
+    const lineStart = this.content.lastIndexOf('\n', node.start - 1);
+    const start = lineStart >= 0 && /^\s*$/.test(this.content.slice(lineStart, node.start)) ? lineStart : node.start;
+    this.edits.push({ start, end: node.end, text: '' });
+  }
+
+  /**
+   * Add a Header Manager as the first element under the Test Plan, so it
+   * applies to every thread group
+   */
+  private addHeaderManager(headers: Record<string, string>): void {
+    const hashTree = this.root.hashTree;
+    if (!hashTree) {
+      throw new Error('The Test Plan has no hashTree to add a Header Manager to');
+    }
+
+    const indent = this.indentOf(hashTree.start) + '  ';
+    const headerXml = Object.entries(headers)
+      .map(([name, value]) => this.headerXml(name, value, indent + '    '))
+      .join('');
+    const xml = `
+${indent}<HeaderManager guiclass="HeaderPanel" testclass="HeaderManager" testname="HTTP Header Manager" enabled="true">
+${indent}  <collectionProp name="HeaderManager.headers">${headerXml}
+${indent}  </collectionProp>
+${indent}</HeaderManager>
+${indent}<hashTree/>`;
+
+    if (hashTree.selfClosing) {
+      this.appendToNode(hashTree, xml);
+    } else {
+      this.edits.push({ start: hashTree.openEnd, end: hashTree.openEnd, text: xml });
+    }
+
+    for (const [name, value] of Object.entries(headers)) {
+      this.changes.push(`${this.root.name}: added HTTP Header Manager with header ${name}: ${value}`);
+    }
+  }
+
+  private headerXml(name: string, value: string, indent: string): string {
+    return `
+${indent}<elementProp name="" elementType="Header">
+${indent}  <stringProp name="Header.name">${escapeXml(name)}</stringProp>
+${indent}  <stringProp name="Header.value">${escapeXml(value)}</stringProp>
+${indent}</elementProp>`;
+  }
+
+  /**
+   * Whitespace between the start of the line and the given offset
+   */
+  private indentOf(offset: number): string {
+    const lineStart = this.content.lastIndexOf('\n', offset - 1) + 1;
+    return this.content.slice(lineStart, offset).match(/^[ \t]*/)?.[0] ?? '';
+  }
+
+  private pathOf(element: LocatedElement): string {
+    return element.path.join(PATH_SEPARATOR);
+  }
+}
+
+function applyTextEdits(content: string, edits: TextEdit[]): string {
+  let result = '';
+  let cursor = 0;
+  for (const edit of edits) {
+    if (edit.start < cursor) {
+      throw new Error('Conflicting edits to the same part of the test plan');
+    }
+    result += content.slice(cursor, edit.start) + edit.text;
+    cursor = edit.end;
+  }
+  return result + content.slice(cursor);
+}
+
+/**
+ * Unified diff of the changes made by a set of text edits
+ */
+function unifiedDiff(content: string, edits: TextEdit[], oldLabel: string, newLabel: string): string {
+  if (edits.length === 0) return '';
+
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+  const lineOf = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  };
+  const lastLine = lineStarts.length - 1;
+
+  // Group edits whose context ranges overlap into hunks
+  const groups: Array<{ first: number; last: number; edits: TextEdit[] }> = [];
+  for (const edit of edits) {
+    const first = Math.max(0, lineOf(edit.start) - DIFF_CONTEXT);
+    const last = Math.min(lastLine, lineOf(edit.end) + DIFF_CONTEXT);
+    const previous = groups[groups.length - 1];
+    if (previous && first <= previous.last + 1) {
+      previous.last = Math.max(previous.last, last);
+      previous.edits.push(edit);
+    } else {
+      groups.push({ first, last, edits: [edit] });
+    }
+  }
+
+  let diff = `--- ${oldLabel}\n+++ ${newLabel}\n`;
+  let lineDelta = 0;
+
+  for (const group of groups) {
+    const segmentStart = lineStarts[group.first];
+    const segmentEnd = group.last + 1 < lineStarts.length ? lineStarts[group.last + 1] : content.length;
+    const oldSegment = content.slice(segmentStart, segmentEnd);
+    const newSegment = applyTextEdits(
+      oldSegment,
+      group.edits.map(edit => ({ ...edit, start: edit.start - segmentStart, end: edit.end - segmentStart }))
+    );
+
+    const oldLines = splitLines(oldSegment);
+    const newLines = splitLines(newSegment);
+    diff += `@@ -${group.first + 1},${oldLines.length} +${group.first + 1 + lineDelta},${newLines.length} @@\n`;
+    diff += diffLines(oldLines, newLines).join('\n') + '\n';
+    lineDelta += newLines.length - oldLines.length;
+  }
+
+  return diff;
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line diff via longest common subsequence; hunks are small so the
+ * quadratic table stays cheap
+ */
+function diffLines(oldLines: string[], newLines: string[]): string[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const table: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = oldLines[i] === newLines[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const output: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      output.push(` ${oldLines[i++]}`);
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      output.push(`-${oldLines[i++]}`);
+    } else {
+      output.push(`+${newLines[j++]}`);
+    }
+  }
+  while (i < n) output.push(`-${oldLines[i++]}`);
+  while (j < m) output.push(`+${newLines[j++]}`);
+
+  return output;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -3,11 +3,13 @@ import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { RunRegistry } from './registry.js';
 import type {
   JMeterConfig,
   TestExecutionOptions,
   DistributedTestConfig,
-  PluginInfo
+  PluginInfo,
+  TestRunInfo
 } from './types.js';
 
 const execFileAsync = promisify(execFile);
@@ -17,9 +19,11 @@ const execFileAsync = promisify(execFile);
  */
 export class JMeterExecutor {
   private config: JMeterConfig;
+  readonly registry: RunRegistry;
 
-  constructor(config: JMeterConfig) {
+  constructor(config: JMeterConfig, registry: RunRegistry = new RunRegistry()) {
     this.config = config;
+    this.registry = registry;
   }
 
   /**
@@ -70,6 +74,70 @@ export class JMeterExecutor {
     resultsFile: string;
   }> {
     const binary = this.getJMeterBinary();
+    const args = await this.buildTestArgs(options);
+
+    return new Promise((resolve) => {
+      const process = spawn(binary, args);
+      this.registry.register(process, {
+        kind: 'test',
+        testPlan: options.testPlan,
+        resultsFile: options.resultsFile
+      });
+      let stdout = '';
+      let stderr = '';
+
+      process.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      process.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      process.on('close', (code) => {
+        resolve({
+          success: code === 0,
+          stdout,
+          stderr,
+          exitCode: code || 0,
+          resultsFile: options.resultsFile
+        });
+      });
+
+      process.on('error', (error) => {
+        resolve({
+          success: false,
+          stdout,
+          stderr: stderr + '\n' + error.message,
+          exitCode: 1,
+          resultsFile: options.resultsFile
+        });
+      });
+    });
+  }
+
+  /**
+   * Start JMeter test in non-GUI mode without waiting for it to finish.
+   * Progress is tracked in the run registry under the returned run ID.
+   */
+  async startTest(options: TestExecutionOptions): Promise<TestRunInfo> {
+    const binary = this.getJMeterBinary();
+    const args = await this.buildTestArgs(options);
+    const processGroup = os.platform() !== 'win32';
+
+    const process = spawn(binary, args, { detached: processGroup });
+    return this.registry.register(process, {
+      kind: 'test',
+      testPlan: options.testPlan,
+      resultsFile: options.resultsFile,
+      processGroup
+    });
+  }
+
+  /**
+   * Build the non-GUI command line arguments for a test run
+   */
+  private async buildTestArgs(options: TestExecutionOptions): Promise<string[]> {
     const args: string[] = ['-n', '-t', options.testPlan, '-l', options.resultsFile];
 
     // Add log file if specified
@@ -121,39 +189,7 @@ export class JMeterExecutor {
       }
     }
 
-    return new Promise((resolve) => {
-      const process = spawn(binary, args);
-      let stdout = '';
-      let stderr = '';
-
-      process.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      process.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      process.on('close', (code) => {
-        resolve({
-          success: code === 0,
-          stdout,
-          stderr,
-          exitCode: code || 0,
-          resultsFile: options.resultsFile
-        });
-      });
-
-      process.on('error', (error) => {
-        resolve({
-          success: false,
-          stdout,
-          stderr: stderr + '\n' + error.message,
-          exitCode: 1,
-          resultsFile: options.resultsFile
-        });
-      });
-    });
+    return args;
   }
 
   /**
@@ -177,6 +213,7 @@ export class JMeterExecutor {
         stdio: 'ignore'
       });
 
+      this.registry.register(process, { kind: 'gui', testPlan, processGroup: true });
       process.unref();
 
       return {
@@ -264,6 +301,11 @@ export class JMeterExecutor {
 
     return new Promise((resolve) => {
       const process = spawn(binary, args);
+      this.registry.register(process, {
+        kind: 'distributed',
+        testPlan: config.testPlan,
+        resultsFile: config.resultsFile
+      });
       let stdout = '';
       let stderr = '';
 
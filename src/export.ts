@@ -0,0 +1,234 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  AnalysisExportDocument,
+  AnalysisExportOptions,
+  AnalysisResult,
+  EndpointMetrics,
+  ErrorAnalysis,
+  SampleScope
+} from './types.js';
+
+/**
+ * Identifier and version of the JSON export schema. The schema itself is
+ * published in schemas/analysis-export.v1.json; bump the minor version when
+ * adding optional fields and start a new schema file for breaking changes.
+ */
+export const ANALYSIS_SCHEMA_ID = 'urn:jmeter-mcp-server:analysis-export:v1';
+export const ANALYSIS_SCHEMA_VERSION = '1.1.0';
+
+const SCHEMA_FILE = new URL('../schemas/analysis-export.v1.json', import.meta.url);
+
+interface ExportSource {
+  resultsFile: string;
+  profile: string;
+  scope?: SampleScope;
+}
+
+const ENDPOINT_COLUMNS: Array<keyof EndpointMetrics> = [
+  'label',
+  'samples',
+  'average',
+  'median',
+  'min',
+  'max',
+  'percentile90',
+  'percentile95',
+  'percentile99',
+  'errorRate',
+  'throughput',
+  'receivedKBPerSec',
+  'sentKBPerSec'
+];
+
+const ERROR_COLUMNS: Array<keyof ErrorAnalysis> = [
+  'responseCode',
+  'responseMessage',
+  'count',
+  'percentage',
+  'affectedEndpoints'
+];
+
+/**
+ * Writes analysis results as CSV, Markdown tables or JSON with raw numbers,
+ * for spreadsheets, tickets and dashboards
+ */
+export class AnalysisExporter {
+  /**
+   * Write every requested format and return the paths of the files written
+   */
+  async export(
+    analysis: AnalysisResult,
+    source: ExportSource,
+    options: AnalysisExportOptions
+  ): Promise<string[]> {
+    await fs.mkdir(options.outputDir, { recursive: true });
+    const files: Array<[string, string]> = [];
+    const file = (suffix: string) => path.join(options.outputDir, `${options.baseName}${suffix}`);
+
+    for (const format of new Set(options.formats)) {
+      switch (format) {
+        case 'csv':
+          files.push(
+            [file('-endpoints.csv'), this.toEndpointsCsv(analysis.endpoints)],
+            [file('-errors.csv'), this.toErrorsCsv(analysis.errors)]
+          );
+          break;
+        case 'markdown':
+          files.push([file('.md'), this.toMarkdown(analysis)]);
+          break;
+        case 'json':
+          files.push([file('.json'), JSON.stringify(this.toDocument(analysis, source), null, 2) + '\n']);
+          if (options.includeSchema) {
+            files.push([file('.schema.json'), await this.schema()]);
+          }
+          break;
+      }
+    }
+
+    for (const [filePath, content] of files) {
+      await fs.writeFile(filePath, content, 'utf-8');
+    }
+    return files.map(([filePath]) => filePath);
+  }
+
+  /**
+   * The analysis as a document matching the published JSON schema
+   */
+  toDocument(analysis: AnalysisResult, source: ExportSource): AnalysisExportDocument {
+    return {
+      $schema: ANALYSIS_SCHEMA_ID,
+      schemaVersion: ANALYSIS_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      resultsFile: source.resultsFile,
+      profile: source.profile,
+      scope: source.scope,
+      summary: analysis.summary,
+      endpoints: analysis.endpoints,
+      errors: analysis.errors,
+      bottlenecks: analysis.bottlenecks,
+      recommendations: analysis.recommendations,
+      timeSeries: analysis.timeSeriesData ?? []
+    };
+  }
+
+  /**
+   * The JSON schema text, as published with the package
+   */
+  async schema(): Promise<string> {
+    return fs.readFile(SCHEMA_FILE, 'utf-8');
+  }
+
+  /**
+   * One row per endpoint; column names match the JSON field names
+   */
+  toEndpointsCsv(endpoints: EndpointMetrics[]): string {
+    const rows = endpoints.map(endpoint => ENDPOINT_COLUMNS.map(column => String(endpoint[column])));
+    return this.toCsv(ENDPOINT_COLUMNS, rows);
+  }
+
+  /**
+   * One row per error group, with affected endpoints separated by semicolons
+   */
+  toErrorsCsv(errors: ErrorAnalysis[]): string {
+    const rows = errors.map(error => ERROR_COLUMNS.map(column => {
+      const value = error[column];
+      return Array.isArray(value) ? value.join(';') : String(value);
+    }));
+    return this.toCsv(ERROR_COLUMNS, rows);
+  }
+
+  toMarkdown(analysis: AnalysisResult): string {
+    const { summary } = analysis;
+    const blocks = [
+      '## Summary',
+      this.markdownTable(['Metric', 'Value'], [false, true], [
+        ['Requests', String(summary.totalRequests)],
+        ['Failed requests', String(summary.failedRequests)],
+        ['Error rate (%)', fixed(summary.errorRate)],
+        ['Throughput (req/s)', fixed(summary.throughput)],
+        ['Average (ms)', fixed(summary.averageResponseTime)],
+        ['Median (ms)', fixed(summary.medianResponseTime)],
+        ['Min (ms)', fixed(summary.minResponseTime)],
+        ['Max (ms)', fixed(summary.maxResponseTime)],
+        ['p90 (ms)', fixed(summary.percentile90)],
+        ['p95 (ms)', fixed(summary.percentile95)],
+        ['p99 (ms)', fixed(summary.percentile99)],
+        ['Received (KB/s)', fixed(summary.receivedKBPerSec)],
+        ['Sent (KB/s)', fixed(summary.sentKBPerSec)]
+      ]),
+      '## Endpoints',
+      this.markdownTable(
+        ['Label', 'Samples', 'Average (ms)', 'Median (ms)', 'p90 (ms)', 'p95 (ms)', 'p99 (ms)', 'Max (ms)', 'Errors (%)', 'Throughput (req/s)'],
+        [false, true, true, true, true, true, true, true, true, true],
+        analysis.endpoints.map(endpoint => [
+          endpoint.label,
+          String(endpoint.samples),
+          fixed(endpoint.average),
+          fixed(endpoint.median),
+          fixed(endpoint.percentile90),
+          fixed(endpoint.percentile95),
+          fixed(endpoint.percentile99),
+          fixed(endpoint.max),
+          fixed(endpoint.errorRate),
+          fixed(endpoint.throughput)
+        ])
+      ),
+      '## Errors',
+      this.markdownTable(
+        ['Code', 'Message', 'Count', 'Share (%)', 'Endpoints'],
+        [false, false, true, true, false],
+        analysis.errors.map(error => [
+          error.responseCode,
+          error.responseMessage,
+          String(error.count),
+          fixed(error.percentage),
+          error.affectedEndpoints.join(', ')
+        ])
+      ),
+      '## Bottlenecks',
+      this.markdownTable(
+        ['Severity', 'Type', 'Endpoint', 'Metric', 'Value', 'Threshold'],
+        [false, false, false, false, true, true],
+        analysis.bottlenecks.map(bottleneck => [
+          bottleneck.severity,
+          bottleneck.type,
+          bottleneck.affectedEndpoint,
+          bottleneck.metric,
+          fixed(bottleneck.value),
+          fixed(bottleneck.threshold)
+        ])
+      )
+    ];
+
+    return blocks.join('\n\n') + '\n';
+  }
+
+  private markdownTable(headers: string[], numeric: boolean[], rows: string[][]): string {
+    if (rows.length === 0) return 'None.';
+    const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    return [
+      `| ${headers.join(' | ')} |`,
+      `| ${numeric.map(isNumeric => isNumeric ? '---:' : '---').join(' | ')} |`,
+      ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+    ].join('\n');
+  }
+
+  private toCsv(headers: string[], rows: string[][]): string {
+    return [headers, ...rows].map(row => row.map(value => this.quote(value)).join(',')).join('\n') + '\n';
+  }
+
+  /**
+   * Quote a value containing commas, quotes or line breaks
+   */
+  private quote(value: string): string {
+    if (!/[",\r\n]/.test(value)) {
+      return value;
+    }
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+}
+
+function fixed(value: number): string {
+  return value.toFixed(2);
+}
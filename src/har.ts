@@ -0,0 +1,251 @@
+import * as fs from 'fs/promises';
+import { TestPlanBuilder } from './builder.js';
+import type {
+  HarImportOptions,
+  HttpMethod,
+  HttpStep,
+  ScenarioStep,
+  TransactionStep
+} from './types.js';
+
+const SUPPORTED_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+/**
+ * Requests for static assets, dropped unless another pattern is given
+ */
+export const DEFAULT_STATIC_PATTERN =
+  '\\.(css|js|mjs|map|png|jpe?g|gif|svg|ico|webp|avif|bmp|woff2?|ttf|otf|eot|mp4|webm|mp3)(\\?.*)?$';
+
+/**
+ * Headers the browser or connection manages; replaying recorded values breaks requests
+ */
+const EXCLUDED_HEADERS = new Set(['host', 'content-length', 'connection', 'cookie', 'keep-alive', 'transfer-encoding']);
+
+interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    headers?: Array<{ name: string; value: string }>;
+    cookies?: Array<{ name: string; value: string }>;
+    postData?: {
+      mimeType?: string;
+      text?: string;
+      params?: Array<{ name: string; value?: string }>;
+    };
+  };
+}
+
+interface HarPage {
+  id: string;
+  title?: string;
+}
+
+/**
+ * Builds JMeter test plans from HAR browser recordings
+ */
+export class HarImporter {
+  private builder: TestPlanBuilder;
+
+  constructor(builder: TestPlanBuilder) {
+    this.builder = builder;
+  }
+
+  /**
+   * Read a HAR file and write a test plan replaying its requests
+   */
+  async importHar(options: HarImportOptions): Promise<{
+    success: boolean;
+    message: string;
+    filePath?: string;
+    requests: number;
+    transactions: number;
+    excluded: number;
+    skipped: string[];
+    cookieManager: boolean;
+  }> {
+    const har = JSON.parse(await fs.readFile(options.harFile, 'utf-8'));
+    if (!Array.isArray(har?.log?.entries)) {
+      throw new Error(`${options.harFile} is not a HAR file: log.entries is missing`);
+    }
+
+    const { steps, requests, excluded, skipped, cookies } = this.buildSteps(har.log.entries, har.log.pages ?? [], options);
+    if (steps.length === 0) {
+      throw new Error('No requests left after excluding static assets and unsupported methods');
+    }
+
+    const result = await this.builder.createHttpTestPlan({
+      name: options.name || har.log.pages?.[0]?.title || 'HAR Recording',
+      threads: options.threads,
+      rampUp: options.rampUp,
+      duration: options.duration,
+      headers: options.headers,
+      // Recorded cookies are not replayed, so the session has to be rebuilt
+      // from the responses' Set-Cookie headers
+      cookieManager: cookies,
+      steps,
+      listeners: [{ type: 'summary' }, { type: 'aggregate' }]
+    }, options.outputPath);
+
+    return {
+      ...result,
+      requests,
+      transactions: steps.filter(step => 'transaction' in step).length,
+      excluded,
+      skipped,
+      cookieManager: cookies
+    };
+  }
+
+  /**
+   * Convert HAR entries into scenario steps. Entries are replayed in start
+   * order; the idle time between one request finishing and the next starting
+   * becomes think time on the earlier step.
+   */
+  buildSteps(
+    entries: HarEntry[],
+    pages: HarPage[],
+    options: Pick<HarImportOptions, 'excludePattern' | 'groupByPage' | 'minThinkTimeMs' | 'maxThinkTimeMs'>
+  ): {
+    steps: ScenarioStep[];
+    requests: number;
+    excluded: number;
+    skipped: string[];
+    cookies: boolean;
+  } {
+    const pattern = options.excludePattern ?? DEFAULT_STATIC_PATTERN;
+    const exclude = pattern ? new RegExp(pattern, 'i') : undefined;
+    const minThinkTime = options.minThinkTimeMs ?? 100;
+    const maxThinkTime = options.maxThinkTimeMs;
+    const pageTitles = new Map(pages.map(page => [page.id, page.title || page.id]));
+
+    const sorted = [...entries].sort(
+      (a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime)
+    );
+
+    const recorded: Array<{ pageref?: string; step: HttpStep }> = [];
+    const skipped: string[] = [];
+    let excluded = 0;
+    let cookies = false;
+    let lastEnd: number | undefined;
+
+    for (const entry of sorted) {
+      const { request } = entry;
+      const method = request.method.toUpperCase() as HttpMethod;
+
+      if (!/^https?:/i.test(request.url)) {
+        skipped.push(`${request.method} ${request.url}: only HTTP(S) requests are supported`);
+        continue;
+      }
+      const start = Date.parse(entry.startedDateTime);
+      const end = start + Math.max(0, entry.time || 0);
+
+      if (exclude?.test(request.url.split('#')[0])) {
+        // The browser was still busy loading the asset, so it shortens the gap
+        lastEnd = Math.max(lastEnd ?? -Infinity, end);
+        excluded++;
+        continue;
+      }
+      if (!SUPPORTED_METHODS.includes(method)) {
+        skipped.push(`${request.method} ${request.url}: ${request.method} is not supported`);
+        continue;
+      }
+
+      const previous = recorded[recorded.length - 1];
+      if (previous && lastEnd !== undefined) {
+        // Overlapping (parallel) requests have no gap and get no think time
+        let gap = Math.round(start - lastEnd);
+        if (maxThinkTime !== undefined) gap = Math.min(gap, maxThinkTime);
+        if (gap >= minThinkTime && gap > 0) {
+          previous.step.thinkTime = { delayMs: gap };
+        }
+      }
+      lastEnd = Math.max(lastEnd ?? -Infinity, end);
+
+      cookies ||= this.hasCookies(entry);
+      recorded.push({ pageref: entry.pageref, step: this.toStep(entry) });
+    }
+
+    if (options.groupByPage === false) {
+      return { steps: recorded.map(({ step }) => step), requests: recorded.length, excluded, skipped, cookies };
+    }
+
+    // Consecutive entries of the same page form one Transaction Controller
+    const steps: ScenarioStep[] = [];
+    let transaction: TransactionStep | undefined;
+    let currentPage: string | undefined;
+    for (const { pageref, step } of recorded) {
+      if (!pageref) {
+        steps.push(step);
+        transaction = undefined;
+        currentPage = undefined;
+        continue;
+      }
+      if (!transaction || pageref !== currentPage) {
+        transaction = { transaction: pageTitles.get(pageref) ?? pageref, steps: [] };
+        currentPage = pageref;
+        steps.push(transaction);
+      }
+      transaction.steps.push(step);
+    }
+
+    return { steps, requests: recorded.length, excluded, skipped, cookies };
+  }
+
+  private toStep(entry: HarEntry): HttpStep {
+    const { request } = entry;
+    const method = request.method.toUpperCase() as HttpMethod;
+    const headers: Record<string, string> = {};
+
+    for (const header of request.headers ?? []) {
+      // HTTP/2 pseudo-headers (":authority", ":path", ...) are not real headers
+      if (header.name.startsWith(':') || EXCLUDED_HEADERS.has(header.name.toLowerCase())) continue;
+      headers[header.name] = header.value;
+    }
+
+    const step: HttpStep = {
+      method,
+      url: request.url.split('#')[0]
+    };
+
+    const body = this.postBody(request.postData);
+    if (body !== undefined) {
+      step.body = body;
+      const hasContentType = Object.keys(headers).some(name => name.toLowerCase() === 'content-type');
+      if (!hasContentType && request.postData?.mimeType) {
+        headers['Content-Type'] = request.postData.mimeType;
+      }
+    }
+
+    if (Object.keys(headers).length > 0) {
+      step.headers = headers;
+    }
+
+    return step;
+  }
+
+  /**
+   * Whether the request carried cookies, which are dropped from the replayed headers
+   */
+  private hasCookies(entry: HarEntry): boolean {
+    const { request } = entry;
+    return (request.cookies?.length ?? 0) > 0 ||
+      (request.headers ?? []).some(header => header.name.toLowerCase() === 'cookie' && header.value !== '');
+  }
+
+  /**
+   * Recorded body text, or the form parameters re-encoded when only those were captured
+   */
+  private postBody(postData: HarEntry['request']['postData']): string | undefined {
+    if (!postData) return undefined;
+    if (postData.text) return postData.text;
+    if (postData.params?.length) {
+      return new URLSearchParams(
+        postData.params.map((param): [string, string] => [param.name, param.value ?? ''])
+      ).toString();
+    }
+    return undefined;
+  }
+}
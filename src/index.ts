@@ -7,15 +7,33 @@ import {
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
 import { z } from 'zod';
 import { JMeterExecutor } from './executor.js';
 import { ResultsAnalyzer } from './analyzer.js';
 import { TestPlanBuilder } from './builder.js';
+import { RunRegistry } from './registry.js';
+import { ResultsComparator } from './comparator.js';
+import { SlaEvaluator } from './sla.js';
+import { ProfileRegistry } from './profiles.js';
+import { OpenApiImporter } from './openapi.js';
+import { HarImporter, DEFAULT_STATIC_PATTERN } from './har.js';
+import { CurlImporter } from './curl.js';
+import { PostmanImporter } from './postman.js';
+import { TestPlanInspector } from './inspector.js';
+import { TestPlanEditor } from './editor.js';
+import { TestPlanLinter } from './linter.js';
+import { TestDataGenerator } from './testdata.js';
+import { ChartRenderer, CHART_KINDS } from './charts.js';
+import { SummaryReportGenerator } from './report.js';
+import { AnalysisExporter, ANALYSIS_SCHEMA_ID, ANALYSIS_SCHEMA_VERSION } from './export.js';
 import type { JMeterConfig } from './types.js';
 
 // Environment configuration
 const JMETER_HOME = process.env.JMETER_HOME || '';
 const JMETER_BIN = process.env.JMETER_BIN || '';
+const JMETER_PROFILES_FILE = process.env.JMETER_PROFILES_FILE || '';
 
 if (!JMETER_HOME) {
   console.error('ERROR: JMETER_HOME environment variable is not set');
@@ -31,9 +49,506 @@ const config: JMeterConfig = {
   defaultRampUp: 10
 };
 
-const executor = new JMeterExecutor(config);
+const registry = new RunRegistry();
+const executor = new JMeterExecutor(config, registry);
 const analyzer = new ResultsAnalyzer();
 const builder = new TestPlanBuilder();
+const comparator = new ResultsComparator(analyzer);
+const slaEvaluator = new SlaEvaluator(analyzer);
+const profiles = new ProfileRegistry();
+const openApiImporter = new OpenApiImporter(builder);
+const harImporter = new HarImporter(builder);
+const curlImporter = new CurlImporter(builder);
+const postmanImporter = new PostmanImporter(builder);
+const inspector = new TestPlanInspector();
+const editor = new TestPlanEditor();
+const linter = new TestPlanLinter();
+const testDataGenerator = new TestDataGenerator();
+const summaryReport = new SummaryReportGenerator();
+const exporter = new AnalysisExporter();
+
+// Input properties shared by the blocking and background test execution tools
+const TEST_EXECUTION_PROPERTIES = {
+  testPlan: {
+    type: 'string',
+    description: 'Path to the JMeter test plan (.jmx file)'
+  },
+  resultsFile: {
+    type: 'string',
+    description: 'Path where test results will be saved (.jtl file)'
+  },
+  logFile: {
+    type: 'string',
+    description: 'Optional path for JMeter log file'
+  },
+  reportDir: {
+    type: 'string',
+    description: 'Optional directory to generate HTML report dashboard'
+  },
+  properties: {
+    type: 'object',
+    description: 'JMeter properties to set (-J flags)',
+    additionalProperties: { type: 'string' }
+  },
+  systemProperties: {
+    type: 'object',
+    description: 'System properties to set (-D flags)',
+    additionalProperties: { type: 'string' }
+  },
+  remoteHosts: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Remote hosts for distributed testing'
+  },
+  proxyHost: {
+    type: 'string',
+    description: 'Proxy server hostname'
+  },
+  proxyPort: {
+    type: 'number',
+    description: 'Proxy server port'
+  }
+};
+
+// JSON schemas for scenario steps shared by the test plan tools
+const ASSERTION_SCHEMA = {
+  type: 'object',
+  description: 'Assertion on the response. response/code/header use equals, contains or matches (regex); json checks a JSONPath exists or equals/contains/matches value; xpath checks an XPath matches or equals/contains/greaterThan/lessThan value; duration fails above value ms; size compares the size in bytes',
+  properties: {
+    type: {
+      type: 'string',
+      enum: ['response', 'code', 'header', 'json', 'xpath', 'duration', 'size']
+    },
+    value: {
+      type: ['string', 'number'],
+      description: 'Expected text, pattern or code; milliseconds for duration, bytes for size. Optional for json, xpath and header (existence check)'
+    },
+    operator: {
+      type: 'string',
+      enum: ['equals', 'contains', 'matches', 'greaterThan', 'lessThan'],
+      description: 'Defaults: contains for response and header, equals for code, json, xpath and size, lessThan for duration'
+    },
+    not: {
+      type: 'boolean',
+      description: 'Negate the check, e.g. response not contains "error"',
+      default: false
+    },
+    path: {
+      type: 'string',
+      description: 'JSONPath (json) or XPath (xpath) expression'
+    },
+    header: {
+      type: 'string',
+      description: 'Response header name (header only)'
+    },
+    name: {
+      type: 'string',
+      description: 'Element name'
+    }
+  },
+  required: ['type']
+};
+
+const THINK_TIME_SCHEMA = {
+  type: 'object',
+  description: 'Pause between steps: delayMs, plus up to randomMs extra chosen uniformly at random',
+  properties: {
+    delayMs: { type: 'number' },
+    randomMs: { type: 'number' }
+  },
+  required: ['delayMs']
+};
+
+const EXTRACTOR_SCHEMA = {
+  type: 'object',
+  description: 'Extract a value from the response into ${variable} for later steps. json uses a JSONPath expression, regex a regular expression with a $1$-style template, boundary left/right boundaries',
+  properties: {
+    type: {
+      type: 'string',
+      enum: ['json', 'regex', 'boundary']
+    },
+    variable: {
+      type: 'string',
+      description: 'Variable name, referenced later as ${variable}'
+    },
+    expression: {
+      type: 'string',
+      description: 'JSONPath (json) or regular expression (regex), e.g. $.token or "token":"(.+?)"'
+    },
+    template: {
+      type: 'string',
+      description: 'Regex template selecting groups (regex only)',
+      default: '$1$'
+    },
+    left: {
+      type: 'string',
+      description: 'Left boundary (boundary only)'
+    },
+    right: {
+      type: 'string',
+      description: 'Right boundary (boundary only)'
+    },
+    source: {
+      type: 'string',
+      enum: ['body', 'headers', 'url', 'code'],
+      description: 'Response field to search (regex and boundary only)',
+      default: 'body'
+    },
+    matchNumber: {
+      type: 'number',
+      description: 'Which match to use: 1 for the first, 0 for a random one, -1 for all (variable_1, variable_2, ...)',
+      default: 1
+    },
+    defaultValue: {
+      type: 'string',
+      description: 'Value used when nothing matches'
+    },
+    name: {
+      type: 'string',
+      description: 'Element name (defaults to "Extract <variable>")'
+    }
+  },
+  required: ['type', 'variable']
+};
+
+const TIMER_SCHEMA = {
+  type: 'object',
+  description: 'Timer: constant (delayMs), uniform (delayMs + up to randomMs), gaussian (delayMs ± deviationMs), constantThroughput or preciseThroughput (pace samplers in scope to rps)',
+  properties: {
+    type: {
+      type: 'string',
+      enum: ['constant', 'uniform', 'gaussian', 'constantThroughput', 'preciseThroughput']
+    },
+    delayMs: {
+      type: 'number',
+      description: 'Fixed delay, or the offset of random timers'
+    },
+    randomMs: {
+      type: 'number',
+      description: 'Maximum random extra delay (uniform only)'
+    },
+    deviationMs: {
+      type: 'number',
+      description: 'Standard deviation (gaussian only)'
+    },
+    rps: {
+      type: 'number',
+      description: 'Target requests per second (throughput timers only)'
+    },
+    perThread: {
+      type: 'boolean',
+      description: 'Apply the rate to each thread instead of sharing it across the thread group (constantThroughput only)',
+      default: false
+    },
+    durationSeconds: {
+      type: 'number',
+      description: 'Period over which arrivals are scheduled (preciseThroughput only)',
+      default: 3600
+    },
+    name: {
+      type: 'string',
+      description: 'Element name'
+    }
+  },
+  required: ['type']
+};
+
+const HTTP_STEP_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: {
+      type: 'string',
+      description: 'Sampler name (defaults to "<METHOD> <path>")'
+    },
+    method: {
+      type: 'string',
+      enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+      default: 'GET'
+    },
+    url: {
+      type: 'string',
+      description: 'Full request URL'
+    },
+    headers: {
+      type: 'object',
+      description: 'Headers for this step only',
+      additionalProperties: { type: 'string' }
+    },
+    body: {
+      type: 'string',
+      description: 'Request body for POST/PUT/PATCH requests'
+    },
+    assertions: {
+      type: 'array',
+      items: ASSERTION_SCHEMA
+    },
+    extractors: {
+      type: 'array',
+      items: EXTRACTOR_SCHEMA
+    },
+    timers: {
+      type: 'array',
+      description: 'Timers applied to this step only',
+      items: TIMER_SCHEMA
+    },
+    thinkTime: THINK_TIME_SCHEMA
+  },
+  required: ['url']
+};
+
+const CSV_DATA_SET_SCHEMA = {
+  type: 'object',
+  description: 'CSV Data Set Config: each iteration reads the next row into the named variables',
+  properties: {
+    filename: {
+      type: 'string',
+      description: 'CSV file path, absolute or relative to the test plan'
+    },
+    variableNames: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Variable names for the columns, referenced as ${name}'
+    },
+    delimiter: {
+      type: 'string',
+      description: 'Column delimiter',
+      default: ','
+    },
+    encoding: {
+      type: 'string',
+      default: 'UTF-8'
+    },
+    ignoreFirstLine: {
+      type: 'boolean',
+      description: 'Skip a header row',
+      default: false
+    },
+    quotedData: {
+      type: 'boolean',
+      description: 'Allow quoted values containing the delimiter',
+      default: false
+    },
+    recycle: {
+      type: 'boolean',
+      description: 'Start again from the first row at end of file',
+      default: true
+    },
+    stopThread: {
+      type: 'boolean',
+      description: 'Stop the thread at end of file (when recycle is false)',
+      default: false
+    },
+    shareMode: {
+      type: 'string',
+      enum: ['all', 'group', 'thread'],
+      description: 'Share rows across all threads, per thread group, or give every thread its own copy of the file',
+      default: 'all'
+    },
+    name: {
+      type: 'string',
+      description: 'Element name'
+    }
+  },
+  required: ['filename', 'variableNames']
+};
+
+const LOAD_PROFILE_SCHEMA = {
+  type: 'object',
+  description: 'Load shape replacing threads, rampUp and duration. Stages run in order; either every stage sets users (closed model: stepping, spikes, soak) or every stage sets rps (open model: target arrival rate, built with throughput timers)',
+  properties: {
+    stages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          duration: {
+            type: 'number',
+            description: 'Stage length in seconds'
+          },
+          users: {
+            type: 'number',
+            description: 'Concurrent users during the stage; with rps, the size of the thread pool (defaults to one per request per second)'
+          },
+          rps: {
+            type: 'number',
+            description: 'Target requests per second across all steps'
+          },
+          rampUp: {
+            type: 'number',
+            description: 'Seconds to start the stage\'s new users',
+            default: 0
+          }
+        },
+        required: ['duration']
+      }
+    },
+    throughputTimer: {
+      type: 'string',
+      enum: ['precise', 'constant'],
+      description: 'Timer pacing rps stages',
+      default: 'precise'
+    }
+  },
+  required: ['stages']
+};
+
+const GRAPHQL_STEP_SCHEMA = {
+  type: 'object',
+  description: 'GraphQL request, sent as a JSON POST. Fails on a non-empty errors array unless assertNoErrors is false',
+  properties: {
+    name: {
+      type: 'string',
+      description: 'Sampler name (defaults to "GraphQL <operationName>")'
+    },
+    url: {
+      type: 'string',
+      description: 'GraphQL endpoint URL'
+    },
+    graphql: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Query or mutation document'
+        },
+        operationName: { type: 'string' },
+        variables: {
+          type: 'object',
+          description: 'Variables object; string values may reference ${variable}'
+        },
+        assertNoErrors: {
+          type: 'boolean',
+          description: 'Fail the sample when the response has a non-empty errors array',
+          default: true
+        }
+      },
+      required: ['query']
+    },
+    headers: HTTP_STEP_SCHEMA.properties.headers,
+    assertions: HTTP_STEP_SCHEMA.properties.assertions,
+    extractors: HTTP_STEP_SCHEMA.properties.extractors,
+    timers: HTTP_STEP_SCHEMA.properties.timers,
+    thinkTime: THINK_TIME_SCHEMA
+  },
+  required: ['url', 'graphql']
+};
+
+const BACKEND_LISTENER_SCHEMA = {
+  type: 'object',
+  description: 'Stream live metrics during the run through a Backend Listener, for Grafana-style dashboards',
+  properties: {
+    type: {
+      type: 'string',
+      enum: ['influxdb', 'graphite']
+    },
+    url: {
+      type: 'string',
+      description: 'InfluxDB write URL (e.g. http://influx:8086/write?db=jmeter) or Graphite host:port'
+    },
+    application: {
+      type: 'string',
+      description: 'Application name tag (defaults to the test plan name)'
+    },
+    measurement: {
+      type: 'string',
+      description: 'InfluxDB measurement or Graphite root metric prefix',
+      default: 'jmeter'
+    },
+    percentiles: {
+      type: 'array',
+      items: { type: 'number' },
+      description: 'Percentiles to send',
+      default: [90, 95, 99]
+    },
+    samplersRegex: {
+      type: 'string',
+      description: 'Only send metrics for samplers whose name matches',
+      default: '.*'
+    },
+    summaryOnly: {
+      type: 'boolean',
+      description: 'Send only totals instead of per-sampler metrics',
+      default: false
+    },
+    token: {
+      type: 'string',
+      description: 'InfluxDB 2 API token'
+    }
+  },
+  required: ['type', 'url']
+};
+
+const SESSION_PROPERTIES = {
+  authorization: {
+    type: 'array',
+    description: 'HTTP Authorization Manager entries for Basic or Digest authentication',
+    items: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'Base URL the credentials apply to (all requests when omitted)'
+        },
+        username: { type: 'string' },
+        password: { type: 'string' },
+        mechanism: {
+          type: 'string',
+          enum: ['basic', 'digest'],
+          default: 'basic'
+        },
+        domain: { type: 'string' },
+        realm: { type: 'string' }
+      },
+      required: ['username', 'password']
+    }
+  },
+  oauth2: {
+    type: 'object',
+    description: 'Fetch a token with the OAuth2 client credentials grant in a setUp Thread Group and send it as "Authorization: Bearer <token>" on every request',
+    properties: {
+      tokenUrl: {
+        type: 'string',
+        description: 'Token endpoint URL'
+      },
+      clientId: { type: 'string' },
+      clientSecret: { type: 'string' },
+      scope: { type: 'string' },
+      clientAuthentication: {
+        type: 'string',
+        enum: ['body', 'basic'],
+        description: 'Send the client credentials as form parameters or with HTTP Basic authentication',
+        default: 'body'
+      },
+      tokenPath: {
+        type: 'string',
+        description: 'JSONPath of the token in the response',
+        default: '$.access_token'
+      },
+      property: {
+        type: 'string',
+        description: 'JMeter property holding the token',
+        default: 'access_token'
+      }
+    },
+    required: ['tokenUrl', 'clientId', 'clientSecret']
+  },
+  cookieManager: {
+    type: 'boolean',
+    description: 'Add an HTTP Cookie Manager so each virtual user keeps its own session cookies',
+    default: false
+  },
+  cacheManager: {
+    type: 'boolean',
+    description: 'Add an HTTP Cache Manager emulating a browser cache per virtual user',
+    default: false
+  }
+};
+
+const SAMPLE_SCOPE_SCHEMA = {
+  type: 'string',
+  enum: ['requests', 'transactions', 'all'],
+  description: 'Samples to count: requests (default), Transaction Controller samples, or all of them. Sub-results such as redirects and embedded resources are always part of their parent request'
+};
 
 // Define all available tools
 const TOOLS: Tool[] = [
@@ -49,50 +564,58 @@ const TOOLS: Tool[] = [
   {
     name: 'execute_jmeter_test',
     description: 'Execute a JMeter test plan in non-GUI mode with comprehensive options',
+    inputSchema: {
+      type: 'object',
+      properties: TEST_EXECUTION_PROPERTIES,
+      required: ['testPlan', 'resultsFile']
+    }
+  },
+  {
+    name: 'start_jmeter_test',
+    description: 'Start a JMeter test plan in non-GUI mode in the background and return a run ID immediately. Use get_test_status to poll it and stop_jmeter_test to stop it.',
+    inputSchema: {
+      type: 'object',
+      properties: TEST_EXECUTION_PROPERTIES,
+      required: ['testPlan', 'resultsFile']
+    }
+  },
+  {
+    name: 'get_test_status',
+    description: 'Get the status of a test run (running/finished, elapsed time, exit code, results file and recent output). Lists all runs when no run ID is given. Runs still going are always kept; only the 50 most recently ended runs are remembered, so older run IDs become unknown.',
     inputSchema: {
       type: 'object',
       properties: {
-        testPlan: {
-          type: 'string',
-          description: 'Path to the JMeter test plan (.jmx file)'
-        },
-        resultsFile: {
-          type: 'string',
-          description: 'Path where test results will be saved (.jtl file)'
-        },
-        logFile: {
+        runId: {
           type: 'string',
-          description: 'Optional path for JMeter log file'
-        },
-        reportDir: {
+          description: 'Run ID returned by start_jmeter_test'
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: 'stop_jmeter_test',
+    description: 'Stop a running test. Uses JMeter\'s UDP control port for a graceful stop and kills the process only as a fallback.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        runId: {
           type: 'string',
-          description: 'Optional directory to generate HTML report dashboard'
-        },
-        properties: {
-          type: 'object',
-          description: 'JMeter properties to set (-J flags)',
-          additionalProperties: { type: 'string' }
-        },
-        systemProperties: {
-          type: 'object',
-          description: 'System properties to set (-D flags)',
-          additionalProperties: { type: 'string' }
-        },
-        remoteHosts: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Remote hosts for distributed testing'
+          description: 'Run ID returned by start_jmeter_test'
         },
-        proxyHost: {
+        mode: {
           type: 'string',
-          description: 'Proxy server hostname'
+          enum: ['shutdown', 'stoptest', 'kill'],
+          description: 'shutdown waits for running samples to finish, stoptest aborts them, kill terminates the process',
+          default: 'shutdown'
         },
-        proxyPort: {
+        timeoutSeconds: {
           type: 'number',
-          description: 'Proxy server port'
+          description: 'Seconds to wait for JMeter to exit before killing the process',
+          default: 30
         }
       },
-      required: ['testPlan', 'resultsFile']
+      required: ['runId']
     }
   },
   {
@@ -136,99 +659,191 @@ const TOOLS: Tool[] = [
         resultsFile: {
           type: 'string',
           description: 'Path to the JTL results file to analyze'
-        }
+        },
+        profile: {
+          description: 'Bottleneck detection profile: a profile name (see list_bottleneck_profiles) or an inline profile { extends?, endpoint?, overall?, labels? } whose thresholds are severity bands like { medium: 2000, high: 3000, critical: 5000 }. Throughput bands are floors.',
+          oneOf: [
+            { type: 'string' },
+            {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                extends: { type: 'string' },
+                endpoint: { type: 'object' },
+                overall: { type: 'object' },
+                labels: {
+                  type: 'object',
+                  additionalProperties: { type: 'object' }
+                }
+              }
+            }
+          ]
+        },
+        scope: SAMPLE_SCOPE_SCHEMA
       },
       required: ['resultsFile']
     }
   },
   {
-    name: 'create_http_test_plan',
-    description: 'Create a new HTTP test plan programmatically with customizable options',
+    name: 'get_time_series',
+    description: 'Bucket JMeter test results over time. Each bucket reports p50/p90/p95/p99 response times, success and error counts by response code, and bytes received and sent, overall and optionally per label',
     inputSchema: {
       type: 'object',
       properties: {
-        name: {
+        resultsFile: {
           type: 'string',
-          description: 'Name of the test plan'
+          description: 'Path to the JTL results file'
         },
-        outputPath: {
+        bucketSeconds: {
+          type: 'number',
+          description: 'Bucket size in seconds (default: 10). Doubled as often as needed to keep the series, including per-label buckets, within 20,000 buckets; intervalMs in the response is the size used'
+        },
+        byLabel: {
+          type: 'boolean',
+          description: 'Also break every bucket down per sampler label (default: false)'
+        },
+        labels: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only include samples with these labels'
+        },
+        scope: SAMPLE_SCOPE_SCHEMA
+      },
+      required: ['resultsFile']
+    }
+  },
+  {
+    name: 'render_charts',
+    description: 'Render standalone SVG charts from JMeter test results without JMeter: response time percentiles over time, throughput vs. active threads, error rate over time and a latency histogram. Charts are written to files and returned as embedded SVG resources',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        resultsFile: {
           type: 'string',
-          description: 'Path where the test plan will be saved (.jmx file)'
+          description: 'Path to the JTL results file'
         },
-        threads: {
+        outputDir: {
+          type: 'string',
+          description: 'Directory for the SVG files (one per chart, named after the chart)'
+        },
+        charts: {
+          type: 'array',
+          items: { type: 'string', enum: CHART_KINDS },
+          description: 'Charts to render (default: all)'
+        },
+        bucketSeconds: {
           type: 'number',
-          description: 'Number of concurrent threads (virtual users)',
-          default: 10
+          description: 'Time bucket size in seconds (default: 10)'
         },
-        rampUp: {
+        labels: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only include samples with these labels'
+        },
+        width: {
           type: 'number',
-          description: 'Ramp-up period in seconds',
-          default: 10
+          description: 'Chart width in pixels (default: 800)'
         },
-        duration: {
+        height: {
           type: 'number',
-          description: 'Test duration in seconds',
-          default: 60
+          description: 'Chart height in pixels (default: 400)'
         },
-        endpoint: {
+        includeSvg: {
+          type: 'boolean',
+          description: 'Also return each chart\'s SVG as an embedded resource (default: true). SVG is sent as a resource rather than image content, which MCP clients only accept as PNG, JPEG, GIF or WebP'
+        },
+        scope: SAMPLE_SCOPE_SCHEMA
+      },
+      required: ['resultsFile', 'outputDir']
+    }
+  },
+  {
+    name: 'generate_summary_report',
+    description: 'Write an HTML or Markdown performance report from JMeter test results, without a JMeter installation: executive summary, SLA and bottleneck tables, per-endpoint metrics, error breakdown, recommendations and charts. HTML reports embed the charts in a single file; Markdown reports link to SVG files written to a <report name>-charts directory beside the report',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        resultsFile: {
           type: 'string',
-          description: 'HTTP endpoint URL to test'
+          description: 'Path to the JTL results file'
         },
-        method: {
+        outputPath: {
           type: 'string',
-          enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-          description: 'HTTP method',
-          default: 'GET'
+          description: 'Path of the report file'
         },
-        headers: {
-          type: 'object',
-          description: 'HTTP headers as key-value pairs',
-          additionalProperties: { type: 'string' }
+        format: {
+          type: 'string',
+          enum: ['html', 'markdown'],
+          description: 'Report format (default: markdown for .md files, otherwise html)'
         },
-        body: {
+        title: {
           type: 'string',
-          description: 'Request body for POST/PUT/PATCH requests'
-        }
+          description: 'Report title (default: "Performance Test Report")'
+        },
+        profile: {
+          description: 'Bottleneck detection profile name or inline profile, as for analyze_test_results',
+          oneOf: [{ type: 'string' }, { type: 'object' }]
+        },
+        slaFile: {
+          type: 'string',
+          description: 'Path to an SLA document in JSON or YAML format, as for evaluate_sla'
+        },
+        sla: {
+          type: 'object',
+          description: 'Inline SLA document, as for evaluate_sla'
+        },
+        charts: {
+          type: 'boolean',
+          description: 'Include charts (default: true)'
+        },
+        bucketSeconds: {
+          type: 'number',
+          description: 'Time bucket size for the charts in seconds (default: 10)'
+        },
+        scope: SAMPLE_SCOPE_SCHEMA
       },
-      required: ['name', 'outputPath', 'endpoint']
+      required: ['resultsFile', 'outputPath']
     }
   },
   {
-    name: 'execute_distributed_test',
-    description: 'Execute a distributed test across multiple remote JMeter servers',
+    name: 'export_analysis',
+    description: 'Export the analysis of a JMeter results file with raw numeric values: CSV (one row per endpoint plus an errors file), Markdown tables, and JSON following a published, versioned schema',
     inputSchema: {
       type: 'object',
       properties: {
-        testPlan: {
+        resultsFile: {
           type: 'string',
-          description: 'Path to the test plan'
+          description: 'Path to the JTL results file'
         },
-        resultsFile: {
+        outputDir: {
           type: 'string',
-          description: 'Path for results file'
+          description: 'Directory for the exported files'
         },
-        remoteHosts: {
+        formats: {
           type: 'array',
-          items: { type: 'string' },
-          description: 'Array of remote host addresses (e.g., ["192.168.1.10", "192.168.1.11"])'
+          items: { type: 'string', enum: ['csv', 'markdown', 'json'] },
+          description: 'Formats to write (default: all)'
         },
-        startRemoteServers: {
-          type: 'boolean',
-          description: 'Start all remote servers before test',
-          default: true
+        baseName: {
+          type: 'string',
+          description: 'File name prefix (default: the results file name without extension)'
         },
-        stopRemoteServers: {
+        profile: {
+          description: 'Bottleneck detection profile name or inline profile, as for analyze_test_results',
+          oneOf: [{ type: 'string' }, { type: 'object' }]
+        },
+        includeSchema: {
           type: 'boolean',
-          description: 'Stop all remote servers after test',
-          default: true
-        }
+          description: 'Write the JSON schema next to the JSON export (default: true)'
+        },
+        scope: SAMPLE_SCOPE_SCHEMA
       },
-      required: ['testPlan', 'resultsFile', 'remoteHosts']
+      required: ['resultsFile', 'outputDir']
     }
   },
   {
-    name: 'list_jmeter_plugins',
-    description: 'List all installed JMeter plugins',
+    name: 'list_bottleneck_profiles',
+    description: 'List the named bottleneck detection profiles available to analyze_test_results',
     inputSchema: {
       type: 'object',
       properties: {},
@@ -236,34 +851,939 @@ const TOOLS: Tool[] = [
     }
   },
   {
-    name: 'get_jmeter_properties',
-    description: 'Get JMeter properties from jmeter.properties file',
+    name: 'compare_test_results',
+    description: 'Compare a candidate JTL against a baseline JTL label by label and flag each label as regression, improvement or unchanged using tolerance bands and statistical significance tests',
     inputSchema: {
       type: 'object',
-      properties: {},
-      required: []
+      properties: {
+        baselineFile: {
+          type: 'string',
+          description: 'Path to the baseline JTL results file'
+        },
+        candidateFile: {
+          type: 'string',
+          description: 'Path to the candidate JTL results file'
+        },
+        tolerances: {
+          type: 'object',
+          description: 'Tolerance bands; changes inside them are reported as unchanged',
+          properties: {
+            responseTimePercent: {
+              type: 'number',
+              description: 'Allowed change in average/p90/p95/p99 response time, in percent',
+              default: 10
+            },
+            errorRatePoints: {
+              type: 'number',
+              description: 'Allowed change in error rate, in percentage points',
+              default: 1
+            },
+            throughputPercent: {
+              type: 'number',
+              description: 'Allowed change in throughput, in percent',
+              default: 10
+            },
+            significanceLevel: {
+              type: 'number',
+              description: 'p-value below which a difference is statistically significant',
+              default: 0.05
+            },
+            minSamples: {
+              type: 'number',
+              description: 'Samples needed on both sides before significance tests are applied',
+              default: 20
+            }
+          }
+        },
+        scope: SAMPLE_SCOPE_SCHEMA
+      },
+      required: ['baselineFile', 'candidateFile']
     }
   },
   {
-    name: 'set_jmeter_property',
-    description: 'Set a JMeter property in user.properties file',
+    name: 'evaluate_sla',
+    description: 'Evaluate SLA rules (e.g. "p95 < 800ms", "errorRate < 1%", "throughput > 50 rps") against test results and return a pass/fail verdict per rule, optionally writing a JUnit XML report for CI',
     inputSchema: {
       type: 'object',
       properties: {
-        key: {
+        resultsFile: {
           type: 'string',
-          description: 'Property key'
+          description: 'Path to the JTL results file to evaluate'
         },
-        value: {
+        slaFile: {
           type: 'string',
-          description: 'Property value'
-        }
-      },
+          description: 'Path to an SLA document in JSON or YAML format'
+        },
+        sla: {
+          type: 'object',
+          description: 'Inline SLA document: { name?, global?: rules[], labels?: { "<label>" | "*": rules[] } }. Rules are strings like "p95 < 800ms" or objects { metric, operator, value }.',
+          properties: {
+            name: { type: 'string' },
+            global: {
+              type: 'array',
+              items: {}
+            },
+            labels: {
+              type: 'object',
+              additionalProperties: { type: 'array', items: {} }
+            }
+          }
+        },
+        junitFile: {
+          type: 'string',
+          description: 'Optional path to write a JUnit XML report'
+        },
+        scope: SAMPLE_SCOPE_SCHEMA
+      },
+      required: ['resultsFile']
+    }
+  },
+  {
+    name: 'create_http_test_plan',
+    description: 'Create a new HTTP test plan programmatically with customizable options',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the test plan'
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Path where the test plan will be saved (.jmx file)'
+        },
+        threads: {
+          type: 'number',
+          description: 'Number of concurrent threads (virtual users)',
+          default: 10
+        },
+        rampUp: {
+          type: 'number',
+          description: 'Ramp-up period in seconds',
+          default: 10
+        },
+        duration: {
+          type: 'number',
+          description: 'Test duration in seconds',
+          default: 60
+        },
+        endpoint: {
+          type: 'string',
+          description: 'HTTP endpoint URL to test'
+        },
+        method: {
+          type: 'string',
+          enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+          description: 'HTTP method',
+          default: 'GET'
+        },
+        headers: {
+          type: 'object',
+          description: 'HTTP headers as key-value pairs',
+          additionalProperties: { type: 'string' }
+        },
+        body: {
+          type: 'string',
+          description: 'Request body for POST/PUT/PATCH requests'
+        },
+        assertions: {
+          type: 'array',
+          description: 'Assertions on the response',
+          items: ASSERTION_SCHEMA
+        },
+        csvDataSets: {
+          type: 'array',
+          description: 'CSV files parameterizing the request, e.g. with ${userId} in the endpoint or body',
+          items: CSV_DATA_SET_SCHEMA
+        },
+        loadProfile: LOAD_PROFILE_SCHEMA,
+        timers: {
+          type: 'array',
+          description: 'Think time and pacing timers at thread group level',
+          items: TIMER_SCHEMA
+        },
+        ...SESSION_PROPERTIES,
+        backendListener: BACKEND_LISTENER_SCHEMA
+      },
+      required: ['name', 'outputPath', 'endpoint']
+    }
+  },
+  {
+    name: 'create_scenario_test_plan',
+    description: 'Create a test plan for a multi-step user journey (e.g. login, search, add to cart, checkout). Steps run in order, can be grouped into Transaction Controllers and are separated by think time.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the test plan'
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Path where the test plan will be saved (.jmx file)'
+        },
+        threads: {
+          type: 'number',
+          description: 'Number of concurrent threads (virtual users)',
+          default: 10
+        },
+        rampUp: {
+          type: 'number',
+          description: 'Ramp-up period in seconds',
+          default: 10
+        },
+        duration: {
+          type: 'number',
+          description: 'Test duration in seconds',
+          default: 60
+        },
+        headers: {
+          type: 'object',
+          description: 'HTTP headers sent with every step',
+          additionalProperties: { type: 'string' }
+        },
+        steps: {
+          type: 'array',
+          description: 'Ordered steps. Each item is an HTTP step, a GraphQL step or a transaction { transaction: name, steps: HTTP or GraphQL steps[], includeTimers? }',
+          items: {
+            oneOf: [
+              HTTP_STEP_SCHEMA,
+              GRAPHQL_STEP_SCHEMA,
+              {
+                type: 'object',
+                properties: {
+                  transaction: {
+                    type: 'string',
+                    description: 'Transaction Controller name'
+                  },
+                  steps: {
+                    type: 'array',
+                    items: { oneOf: [HTTP_STEP_SCHEMA, GRAPHQL_STEP_SCHEMA] }
+                  },
+                  includeTimers: {
+                    type: 'boolean',
+                    description: 'Include think time in the transaction time',
+                    default: false
+                  }
+                },
+                required: ['transaction', 'steps']
+              }
+            ]
+          }
+        },
+        thinkTime: THINK_TIME_SCHEMA,
+        variables: {
+          type: 'object',
+          description: 'User Defined Variables available to every step as ${name}',
+          additionalProperties: { type: 'string' }
+        },
+        csvDataSets: {
+          type: 'array',
+          description: 'CSV files giving each virtual user its own data, referenced as ${name}',
+          items: CSV_DATA_SET_SCHEMA
+        },
+        loadProfile: LOAD_PROFILE_SCHEMA,
+        timers: {
+          type: 'array',
+          description: 'Timers at thread group level, applied before every step. When the scenario has think time, each step gets its own copy instead so the pauses are not delayed or counted as requests; throughput rates are split evenly between the steps',
+          items: TIMER_SCHEMA
+        },
+        ...SESSION_PROPERTIES,
+        backendListener: BACKEND_LISTENER_SCHEMA
+      },
+      required: ['name', 'outputPath', 'steps']
+    }
+  },
+  {
+    name: 'import_openapi',
+    description: 'Generate a test plan from a local OpenAPI 3 or Swagger 2 specification (JSON or YAML) with one sampler per operation, using example values for parameters and request bodies',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        specFile: {
+          type: 'string',
+          description: 'Path to the OpenAPI/Swagger specification file'
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Path where the test plan will be saved (.jmx file)'
+        },
+        name: {
+          type: 'string',
+          description: 'Test plan name (defaults to the spec title)'
+        },
+        baseUrl: {
+          type: 'string',
+          description: 'Base URL overriding the spec servers/host; required when the spec declares neither'
+        },
+        threads: {
+          type: 'number',
+          description: 'Number of concurrent threads (virtual users)',
+          default: 10
+        },
+        rampUp: {
+          type: 'number',
+          description: 'Ramp-up period in seconds',
+          default: 10
+        },
+        duration: {
+          type: 'number',
+          description: 'Test duration in seconds',
+          default: 60
+        },
+        includeTags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only include operations with one of these tags'
+        },
+        excludeTags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Skip operations with any of these tags'
+        },
+        includeOperations: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only include these operationIds'
+        },
+        excludeOperations: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Skip these operationIds'
+        },
+        groupByTag: {
+          type: 'boolean',
+          description: 'Wrap operations in one Transaction Controller per tag',
+          default: false
+        },
+        headers: {
+          type: 'object',
+          description: 'HTTP headers sent with every request (e.g. Authorization)',
+          additionalProperties: { type: 'string' }
+        },
+        thinkTime: THINK_TIME_SCHEMA
+      },
+      required: ['specFile', 'outputPath']
+    }
+  },
+  {
+    name: 'import_har',
+    description: 'Generate a test plan from a HAR browser recording. Static assets are dropped, pages become Transaction Controllers and recorded pauses become think time',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        harFile: {
+          type: 'string',
+          description: 'Path to the HAR file exported from browser devtools'
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Path where the test plan will be saved (.jmx file)'
+        },
+        name: {
+          type: 'string',
+          description: 'Test plan name (defaults to the first page title)'
+        },
+        threads: {
+          type: 'number',
+          description: 'Number of concurrent threads (virtual users)',
+          default: 10
+        },
+        rampUp: {
+          type: 'number',
+          description: 'Ramp-up period in seconds',
+          default: 10
+        },
+        duration: {
+          type: 'number',
+          description: 'Test duration in seconds',
+          default: 60
+        },
+        excludePattern: {
+          type: 'string',
+          description: `Regular expression (case-insensitive) matched against request URLs to drop; empty string keeps everything. Default: ${DEFAULT_STATIC_PATTERN}`
+        },
+        groupByPage: {
+          type: 'boolean',
+          description: 'Wrap each recorded page in a Transaction Controller',
+          default: true
+        },
+        minThinkTimeMs: {
+          type: 'number',
+          description: 'Recorded gaps shorter than this are not turned into think time',
+          default: 100
+        },
+        maxThinkTimeMs: {
+          type: 'number',
+          description: 'Cap for think time taken from recorded gaps'
+        },
+        headers: {
+          type: 'object',
+          description: 'HTTP headers sent with every request (e.g. Authorization)',
+          additionalProperties: { type: 'string' }
+        }
+      },
+      required: ['harFile', 'outputPath']
+    }
+  },
+  {
+    name: 'import_curl',
+    description: 'Generate a test plan from one or more cURL command lines (e.g. "Copy as cURL"). Supports -X, -H, -d/--data-raw/--data-binary/--data-urlencode, -F, -u, -b, -G and --compressed',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        commands: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'cURL commands, replayed in order'
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Path where the test plan will be saved (.jmx file)'
+        },
+        name: {
+          type: 'string',
+          description: 'Test plan name'
+        },
+        threads: {
+          type: 'number',
+          description: 'Number of concurrent threads (virtual users)',
+          default: 10
+        },
+        rampUp: {
+          type: 'number',
+          description: 'Ramp-up period in seconds',
+          default: 10
+        },
+        duration: {
+          type: 'number',
+          description: 'Test duration in seconds',
+          default: 60
+        },
+        thinkTime: THINK_TIME_SCHEMA
+      },
+      required: ['commands', 'outputPath']
+    }
+  },
+  {
+    name: 'import_postman',
+    description: 'Generate a test plan from a Postman v2.1 collection. Folders become Transaction Controllers and collection/environment variables become User Defined Variables',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        collectionFile: {
+          type: 'string',
+          description: 'Path to the exported Postman collection (v2.1 JSON)'
+        },
+        environmentFile: {
+          type: 'string',
+          description: 'Path to an exported Postman environment whose values override collection variables'
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Path where the test plan will be saved (.jmx file)'
+        },
+        name: {
+          type: 'string',
+          description: 'Test plan name (defaults to the collection name)'
+        },
+        threads: {
+          type: 'number',
+          description: 'Number of concurrent threads (virtual users)',
+          default: 10
+        },
+        rampUp: {
+          type: 'number',
+          description: 'Ramp-up period in seconds',
+          default: 10
+        },
+        duration: {
+          type: 'number',
+          description: 'Test duration in seconds',
+          default: 60
+        },
+        variables: {
+          type: 'object',
+          description: 'Variable values overriding the collection and environment',
+          additionalProperties: { type: 'string' }
+        },
+        thinkTime: THINK_TIME_SCHEMA
+      },
+      required: ['collectionFile', 'outputPath']
+    }
+  },
+  {
+    name: 'inspect_test_plan',
+    description: 'Describe an existing JMX test plan: thread groups and their load settings, samplers, controllers, config elements, extractors, assertions, timers, listeners, variables, ${__P()} property references and disabled elements',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        testPlan: {
+          type: 'string',
+          description: 'Path to the JMX test plan file'
+        }
+      },
+      required: ['testPlan']
+    }
+  },
+  {
+    name: 'modify_test_plan',
+    description: 'Apply targeted edits to an existing JMX test plan (load shape, renames, sampler hosts, enabling/disabling elements, headers) while leaving everything else untouched. Elements are selected by name or by the end of their path, e.g. "Users > Login"',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        testPlan: {
+          type: 'string',
+          description: 'Path to the JMX test plan file'
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Write the result here instead of modifying the test plan in place'
+        },
+        loadShape: {
+          type: 'array',
+          description: 'Thread group settings to change; omit threadGroup to change every thread group',
+          items: {
+            type: 'object',
+            properties: {
+              threadGroup: { type: 'string', description: 'Thread group name or path' },
+              threads: { type: ['number', 'string'], description: 'Number of threads, or an expression such as ${__P(threads,10)}' },
+              rampUp: { type: ['number', 'string'], description: 'Ramp-up period in seconds' },
+              duration: { type: ['number', 'string'], description: 'Duration in seconds (turns the scheduler on)' },
+              delay: { type: ['number', 'string'], description: 'Startup delay in seconds' },
+              loops: { type: ['number', 'string'], description: 'Loop count, -1 for infinite' }
+            }
+          }
+        },
+        rename: {
+          type: 'array',
+          description: 'Elements to rename',
+          items: {
+            type: 'object',
+            properties: {
+              element: { type: 'string', description: 'Element name or path (must match exactly one element)' },
+              name: { type: 'string', description: 'New name' }
+            },
+            required: ['element', 'name']
+          }
+        },
+        retarget: {
+          type: 'object',
+          description: 'Point HTTP samplers and HTTP Request Defaults at another host',
+          properties: {
+            host: { type: 'string', description: 'New host name' },
+            protocol: { type: 'string', description: 'New protocol (http or https)' },
+            port: { type: ['number', 'string'], description: 'New port' },
+            fromHost: { type: 'string', description: 'Only change elements currently pointing at this host' },
+            samplers: { type: 'array', items: { type: 'string' }, description: 'Only change these samplers (names or paths)' }
+          },
+          required: ['host']
+        },
+        enable: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Elements to enable (names or paths)'
+        },
+        disable: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Elements to disable (names or paths)'
+        },
+        headers: {
+          type: 'object',
+          description: 'Header changes, applied to every HTTP Header Manager unless one is named. A manager is added under the Test Plan when there is none.',
+          properties: {
+            set: { type: 'object', additionalProperties: { type: 'string' }, description: 'Headers to add or update' },
+            remove: { type: 'array', items: { type: 'string' }, description: 'Header names to remove' },
+            headerManager: { type: 'string', description: 'Header Manager name or path' }
+          }
+        },
+        backup: {
+          type: 'boolean',
+          description: 'Copy the original to <testPlan>.bak before modifying it in place',
+          default: true
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the changes and a diff without writing anything',
+          default: false
+        }
+      },
+      required: ['testPlan']
+    }
+  },
+  {
+    name: 'lint_test_plan',
+    description: `Check a JMX test plan for common JMeter anti-patterns and report findings with severity, element path and a suggested fix. Rules: ${linter.listRules().map(rule => rule.id).join(', ')}`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        testPlan: {
+          type: 'string',
+          description: 'Path to the JMX test plan file'
+        },
+        rules: {
+          type: 'object',
+          description: 'Per-rule overrides: "off" or a severity (error, warning, info)',
+          additionalProperties: {
+            type: 'string',
+            enum: ['off', 'error', 'warning', 'info']
+          }
+        }
+      },
+      required: ['testPlan']
+    }
+  },
+  {
+    name: 'generate_test_data',
+    description: 'Write a CSV file of generated test data (sequences, random integers, UUIDs, picks from a list, realistic email addresses) for use with csvDataSets. Returns a ready-to-use CSV Data Set Config.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        outputPath: {
+          type: 'string',
+          description: 'Path of the CSV file to write'
+        },
+        rows: {
+          type: 'number',
+          description: 'Number of data rows'
+        },
+        columns: {
+          type: 'array',
+          description: 'Column specs in order',
+          items: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Column and variable name'
+              },
+              type: {
+                type: 'string',
+                enum: ['sequence', 'randomInt', 'uuid', 'list', 'email']
+              },
+              start: {
+                type: 'number',
+                description: 'First value (sequence only)',
+                default: 1
+              },
+              step: {
+                type: 'number',
+                description: 'Increment (sequence only)',
+                default: 1
+              },
+              prefix: {
+                type: 'string',
+                description: 'Text before each value, e.g. "user" (sequence only)'
+              },
+              padding: {
+                type: 'number',
+                description: 'Zero-pad numbers to this width (sequence only)'
+              },
+              min: {
+                type: 'number',
+                description: 'Lowest value, inclusive (randomInt only)'
+              },
+              max: {
+                type: 'number',
+                description: 'Highest value, inclusive (randomInt only)'
+              },
+              values: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Values to pick from (list only)'
+              },
+              order: {
+                type: 'string',
+                enum: ['random', 'cycle'],
+                description: 'Pick values at random or cycle through them in order (list only)',
+                default: 'random'
+              },
+              domains: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Email domains (email only, defaults to example.com, example.org and example.net)'
+              }
+            },
+            required: ['name', 'type']
+          }
+        },
+        delimiter: {
+          type: 'string',
+          default: ','
+        },
+        header: {
+          type: 'boolean',
+          description: 'Write a header row with the column names',
+          default: true
+        },
+        seed: {
+          type: 'number',
+          description: 'Random seed; the same seed produces the same file'
+        }
+      },
+      required: ['outputPath', 'rows', 'columns']
+    }
+  },
+  {
+    name: 'execute_distributed_test',
+    description: 'Execute a distributed test across multiple remote JMeter servers',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        testPlan: {
+          type: 'string',
+          description: 'Path to the test plan'
+        },
+        resultsFile: {
+          type: 'string',
+          description: 'Path for results file'
+        },
+        remoteHosts: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Array of remote host addresses (e.g., ["192.168.1.10", "192.168.1.11"])'
+        },
+        startRemoteServers: {
+          type: 'boolean',
+          description: 'Start all remote servers before test',
+          default: true
+        },
+        stopRemoteServers: {
+          type: 'boolean',
+          description: 'Stop all remote servers after test',
+          default: true
+        }
+      },
+      required: ['testPlan', 'resultsFile', 'remoteHosts']
+    }
+  },
+  {
+    name: 'list_jmeter_plugins',
+    description: 'List all installed JMeter plugins',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: 'get_jmeter_properties',
+    description: 'Get JMeter properties from jmeter.properties file',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: 'set_jmeter_property',
+    description: 'Set a JMeter property in user.properties file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key: {
+          type: 'string',
+          description: 'Property key'
+        },
+        value: {
+          type: 'string',
+          description: 'Property value'
+        }
+      },
       required: ['key', 'value']
     }
   }
 ];
 
+const testExecutionSchema = z.object({
+  testPlan: z.string(),
+  resultsFile: z.string(),
+  logFile: z.string().optional(),
+  reportDir: z.string().optional(),
+  properties: z.record(z.string()).optional(),
+  systemProperties: z.record(z.string()).optional(),
+  remoteHosts: z.array(z.string()).optional(),
+  proxyHost: z.string().optional(),
+  proxyPort: z.number().optional()
+});
+
+const assertionSchema = z.object({
+  type: z.enum(['response', 'code', 'header', 'json', 'xpath', 'duration', 'size']),
+  value: z.union([z.string(), z.number()]).optional(),
+  operator: z.enum(['equals', 'contains', 'matches', 'greaterThan', 'lessThan']).optional(),
+  not: z.boolean().optional(),
+  path: z.string().optional(),
+  header: z.string().optional(),
+  name: z.string().optional()
+});
+
+const thinkTimeSchema = z.object({
+  delayMs: z.number().nonnegative(),
+  randomMs: z.number().nonnegative().optional()
+});
+
+const extractorSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('json'),
+    variable: z.string(),
+    expression: z.string(),
+    matchNumber: z.number().int().optional(),
+    defaultValue: z.string().optional(),
+    name: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('regex'),
+    variable: z.string(),
+    expression: z.string(),
+    template: z.string().optional(),
+    source: z.enum(['body', 'headers', 'url', 'code']).optional(),
+    matchNumber: z.number().int().optional(),
+    defaultValue: z.string().optional(),
+    name: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('boundary'),
+    variable: z.string(),
+    left: z.string(),
+    right: z.string(),
+    source: z.enum(['body', 'headers', 'url', 'code']).optional(),
+    matchNumber: z.number().int().optional(),
+    defaultValue: z.string().optional(),
+    name: z.string().optional()
+  })
+]);
+
+const timerSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('constant'),
+    delayMs: z.number().nonnegative(),
+    name: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('uniform'),
+    delayMs: z.number().nonnegative(),
+    randomMs: z.number().nonnegative(),
+    name: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('gaussian'),
+    delayMs: z.number().nonnegative(),
+    deviationMs: z.number().nonnegative(),
+    name: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('constantThroughput'),
+    rps: z.number().positive(),
+    perThread: z.boolean().optional(),
+    name: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('preciseThroughput'),
+    rps: z.number().positive(),
+    durationSeconds: z.number().int().positive().optional(),
+    name: z.string().optional()
+  })
+]);
+
+const csvDataSetSchema = z.object({
+  filename: z.string(),
+  variableNames: z.array(z.string()).min(1),
+  delimiter: z.string().optional(),
+  encoding: z.string().optional(),
+  ignoreFirstLine: z.boolean().optional(),
+  quotedData: z.boolean().optional(),
+  recycle: z.boolean().optional(),
+  stopThread: z.boolean().optional(),
+  shareMode: z.enum(['all', 'group', 'thread']).optional(),
+  name: z.string().optional()
+});
+
+const loadProfileSchema = z.object({
+  stages: z.array(z.object({
+    duration: z.number().nonnegative(),
+    users: z.number().int().nonnegative().optional(),
+    rps: z.number().nonnegative().optional(),
+    rampUp: z.number().nonnegative().optional()
+  })).min(1),
+  throughputTimer: z.enum(['precise', 'constant']).optional()
+});
+
+const backendListenerSchema = z.object({
+  type: z.enum(['influxdb', 'graphite']),
+  url: z.string(),
+  application: z.string().optional(),
+  measurement: z.string().optional(),
+  percentiles: z.array(z.number().min(0).max(100)).optional(),
+  samplersRegex: z.string().optional(),
+  summaryOnly: z.boolean().optional(),
+  token: z.string().optional()
+});
+
+const sessionSchema = {
+  authorization: z.array(z.object({
+    url: z.string().optional(),
+    username: z.string(),
+    password: z.string(),
+    mechanism: z.enum(['basic', 'digest']).optional(),
+    domain: z.string().optional(),
+    realm: z.string().optional()
+  })).optional(),
+  oauth2: z.object({
+    tokenUrl: z.string(),
+    clientId: z.string(),
+    clientSecret: z.string(),
+    scope: z.string().optional(),
+    clientAuthentication: z.enum(['body', 'basic']).optional(),
+    tokenPath: z.string().optional(),
+    property: z.string().optional()
+  }).optional(),
+  cookieManager: z.boolean().optional(),
+  cacheManager: z.boolean().optional()
+};
+
+const httpStepSchema = z.object({
+  name: z.string().optional(),
+  method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']).default('GET'),
+  url: z.string(),
+  headers: z.record(z.string()).optional(),
+  body: z.string().optional(),
+  assertions: z.array(assertionSchema).optional(),
+  extractors: z.array(extractorSchema).optional(),
+  timers: z.array(timerSchema).optional(),
+  thinkTime: thinkTimeSchema.optional()
+});
+
+const graphqlStepSchema = z.object({
+  name: z.string().optional(),
+  url: z.string(),
+  graphql: z.object({
+    query: z.string(),
+    operationName: z.string().optional(),
+    variables: z.record(z.unknown()).optional(),
+    assertNoErrors: z.boolean().optional()
+  }),
+  headers: z.record(z.string()).optional(),
+  assertions: z.array(assertionSchema).optional(),
+  extractors: z.array(extractorSchema).optional(),
+  timers: z.array(timerSchema).optional(),
+  thinkTime: thinkTimeSchema.optional()
+});
+
+// GraphQL steps first: an HTTP step would also match them, dropping the query
+const requestStepSchema = z.union([graphqlStepSchema, httpStepSchema]);
+
+const scenarioStepSchema = z.union([
+  z.object({
+    transaction: z.string(),
+    steps: z.array(requestStepSchema).min(1),
+    includeTimers: z.boolean().optional()
+  }),
+  requestStepSchema
+]);
+
+const sampleScopeSchema = z.enum(['requests', 'transactions', 'all']).default('requests');
+
 // Create MCP server
 const server = new Server(
   {
@@ -282,14 +1802,203 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
   return { tools: TOOLS };
 });
 
-// Call tool handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+// Call tool handler
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+
+  try {
+    switch (name) {
+      case 'validate_jmeter': {
+        const result = await executor.validateJMeter();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'execute_jmeter_test': {
+        const params = testExecutionSchema.parse(args);
+        const result = await executor.executeTest(params);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: result.success,
+                exitCode: result.exitCode,
+                resultsFile: result.resultsFile,
+                output: result.stdout,
+                errors: result.stderr
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'start_jmeter_test': {
+        const params = testExecutionSchema.parse(args);
+        const run = await executor.startTest(params);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(run, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'get_test_status': {
+        const schema = z.object({
+          runId: z.string().optional()
+        });
+
+        const params = schema.parse(args);
+        const result = params.runId
+          ? registry.getStatus(params.runId)
+          : { runs: registry.list() };
+
+        if (!result) {
+          throw new Error(`Unknown run ID: ${params.runId}`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'stop_jmeter_test': {
+        const schema = z.object({
+          runId: z.string(),
+          mode: z.enum(['shutdown', 'stoptest', 'kill']).default('shutdown'),
+          timeoutSeconds: z.number().default(30)
+        });
+
+        const params = schema.parse(args);
+        const result = await registry.stop(params.runId, params.mode, params.timeoutSeconds * 1000);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'launch_jmeter_gui': {
+        const schema = z.object({
+          testPlan: z.string().optional()
+        });
+
+        const params = schema.parse(args);
+        const result = await executor.launchGui(params.testPlan);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'generate_html_report': {
+        const schema = z.object({
+          resultsFile: z.string(),
+          outputDir: z.string()
+        });
+
+        const params = schema.parse(args);
+        const result = await executor.generateReport(params.resultsFile, params.outputDir);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'analyze_test_results': {
+        const schema = z.object({
+          resultsFile: z.string(),
+          profile: z.union([z.string(), z.record(z.unknown())]).optional(),
+          scope: sampleScopeSchema
+        });
+
+        const params = schema.parse(args);
+        const profile = profiles.resolve(params.profile);
+        const analysis = await analyzer.analyzeResults(params.resultsFile, profile, params.scope);
+
+        // Format the analysis for better readability
+        const formatted = {
+          summary: {
+            totalRequests: analysis.summary.totalRequests,
+            successRate: `${((analysis.summary.successfulRequests / analysis.summary.totalRequests) * 100).toFixed(2)}%`,
+            errorRate: `${analysis.summary.errorRate.toFixed(2)}%`,
+            averageResponseTime: `${analysis.summary.averageResponseTime.toFixed(2)}ms`,
+            medianResponseTime: `${analysis.summary.medianResponseTime.toFixed(2)}ms`,
+            percentile90: `${analysis.summary.percentile90.toFixed(2)}ms`,
+            percentile95: `${analysis.summary.percentile95.toFixed(2)}ms`,
+            percentile99: `${analysis.summary.percentile99.toFixed(2)}ms`,
+            throughput: `${analysis.summary.throughput.toFixed(2)} req/sec`,
+            bandwidth: {
+              received: `${analysis.summary.receivedKBPerSec.toFixed(2)} KB/sec`,
+              sent: `${analysis.summary.sentKBPerSec.toFixed(2)} KB/sec`
+            }
+          },
+          profile: profile.name,
+          scope: params.scope,
+          topEndpoints: analysis.endpoints.slice(0, 10),
+          errors: analysis.errors,
+          bottlenecks: analysis.bottlenecks,
+          recommendations: analysis.recommendations,
+          timeSeriesData: analysis.timeSeriesData
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(formatted, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'get_time_series': {
+        const schema = z.object({
+          resultsFile: z.string(),
+          bucketSeconds: z.number().positive().default(10),
+          byLabel: z.boolean().default(false),
+          labels: z.array(z.string()).optional(),
+          scope: sampleScopeSchema
+        });
+
+        const params = schema.parse(args);
+        const result = await analyzer.analyzeTimeSeries(params.resultsFile, {
+          intervalMs: params.bucketSeconds * 1000,
+          byLabel: params.byLabel,
+          labels: params.labels,
+          scope: params.scope
+        });
 
-  try {
-    switch (name) {
-      case 'validate_jmeter': {
-        const result = await executor.validateJMeter();
         return {
           content: [
             {
@@ -300,45 +2009,101 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'execute_jmeter_test': {
+      case 'render_charts': {
         const schema = z.object({
-          testPlan: z.string(),
           resultsFile: z.string(),
-          logFile: z.string().optional(),
-          reportDir: z.string().optional(),
-          properties: z.record(z.string()).optional(),
-          systemProperties: z.record(z.string()).optional(),
-          remoteHosts: z.array(z.string()).optional(),
-          proxyHost: z.string().optional(),
-          proxyPort: z.number().optional()
+          outputDir: z.string(),
+          charts: z.array(z.enum(['response-times', 'throughput', 'errors', 'latency-histogram'])).optional(),
+          bucketSeconds: z.number().positive().default(10),
+          labels: z.array(z.string()).optional(),
+          width: z.number().int().min(200).optional(),
+          height: z.number().int().min(150).optional(),
+          includeSvg: z.boolean().default(true),
+          scope: sampleScopeSchema
         });
 
         const params = schema.parse(args);
-        const result = await executor.executeTest(params);
+        const data = await analyzer.analyzeChartData(params.resultsFile, {
+          intervalMs: params.bucketSeconds * 1000,
+          labels: params.labels,
+          scope: params.scope
+        });
+        const renderer = new ChartRenderer({ width: params.width, height: params.height });
+        const charts = renderer.renderAll(data, params.charts);
+        const files = await renderer.write(charts, params.outputDir);
+
+        const summary = {
+          success: true,
+          message: `Rendered ${charts.length} charts to ${params.outputDir}`,
+          charts: charts.map((chart, index) => ({ kind: chart.kind, title: chart.title, file: files[index] })),
+          buckets: data.timeSeries.overall.length
+        };
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                success: result.success,
-                exitCode: result.exitCode,
-                resultsFile: result.resultsFile,
-                output: result.stdout,
-                errors: result.stderr
-              }, null, 2)
-            }
+              text: JSON.stringify(summary, null, 2)
+            },
+            ...(params.includeSvg ? charts.map((chart, index) => ({
+              type: 'resource',
+              resource: {
+                uri: pathToFileURL(files[index]).href,
+                mimeType: 'image/svg+xml',
+                text: chart.svg
+              }
+            })) : [])
           ]
         };
       }
 
-      case 'launch_jmeter_gui': {
+      case 'generate_summary_report': {
         const schema = z.object({
-          testPlan: z.string().optional()
+          resultsFile: z.string(),
+          outputPath: z.string(),
+          format: z.enum(['html', 'markdown']).optional(),
+          title: z.string().default('Performance Test Report'),
+          profile: z.union([z.string(), z.record(z.unknown())]).optional(),
+          slaFile: z.string().optional(),
+          sla: z.unknown().optional(),
+          charts: z.boolean().default(true),
+          bucketSeconds: z.number().positive().default(10),
+          scope: sampleScopeSchema
         });
 
         const params = schema.parse(args);
-        const result = await executor.launchGui(params.testPlan);
+        const format = params.format ?? (/\.(md|markdown)$/i.test(params.outputPath) ? 'markdown' : 'html');
+        const profile = profiles.resolve(params.profile);
+        const slaDocument = params.slaFile
+          ? await slaEvaluator.loadDocument(params.slaFile)
+          : params.sla !== undefined ? slaEvaluator.validateDocument(params.sla) : undefined;
+
+        const { analysis, chartData } = await analyzer.analyzeWithChartData(params.resultsFile, profile, {
+          intervalMs: params.bucketSeconds * 1000,
+          scope: params.scope
+        });
+        const sla = slaDocument && slaEvaluator.evaluateAnalysis(analysis, slaDocument, params.resultsFile);
+
+        const chartFiles = await summaryReport.write({
+          title: params.title,
+          resultsFile: params.resultsFile,
+          profile: profile.name,
+          scope: params.scope,
+          analysis,
+          charts: params.charts ? new ChartRenderer().renderAll(chartData) : undefined,
+          sla
+        }, params.outputPath, format);
+
+        const result = {
+          success: true,
+          message: `Wrote ${format} report to ${params.outputPath}`,
+          reportPath: params.outputPath,
+          format,
+          chartFiles: chartFiles.length > 0 ? chartFiles : undefined,
+          slaPassed: sla?.passed,
+          bottlenecks: analysis.bottlenecks.length,
+          errors: analysis.summary.failedRequests
+        };
 
         return {
           content: [
@@ -350,14 +2115,38 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'generate_html_report': {
+      case 'export_analysis': {
         const schema = z.object({
           resultsFile: z.string(),
-          outputDir: z.string()
+          outputDir: z.string(),
+          formats: z.array(z.enum(['csv', 'markdown', 'json'])).min(1).default(['csv', 'markdown', 'json']),
+          baseName: z.string().optional(),
+          profile: z.union([z.string(), z.record(z.unknown())]).optional(),
+          includeSchema: z.boolean().default(true),
+          scope: sampleScopeSchema
         });
 
         const params = schema.parse(args);
-        const result = await executor.generateReport(params.resultsFile, params.outputDir);
+        const profile = profiles.resolve(params.profile);
+        const analysis = await analyzer.analyzeResults(params.resultsFile, profile, params.scope);
+        const files = await exporter.export(
+          analysis,
+          { resultsFile: params.resultsFile, profile: profile.name, scope: params.scope },
+          {
+            outputDir: params.outputDir,
+            baseName: params.baseName ?? path.basename(params.resultsFile, path.extname(params.resultsFile)),
+            formats: params.formats,
+            includeSchema: params.includeSchema
+          }
+        );
+
+        const result = {
+          success: true,
+          message: `Exported analysis to ${files.length} files in ${params.outputDir}`,
+          files,
+          schema: ANALYSIS_SCHEMA_ID,
+          schemaVersion: ANALYSIS_SCHEMA_VERSION
+        };
 
         return {
           content: [
@@ -369,42 +2158,75 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'analyze_test_results': {
+      case 'compare_test_results': {
         const schema = z.object({
-          resultsFile: z.string()
+          baselineFile: z.string(),
+          candidateFile: z.string(),
+          tolerances: z.object({
+            responseTimePercent: z.number().nonnegative().optional(),
+            errorRatePoints: z.number().nonnegative().optional(),
+            throughputPercent: z.number().nonnegative().optional(),
+            significanceLevel: z.number().min(0).max(1).optional(),
+            minSamples: z.number().int().nonnegative().optional()
+          }).optional(),
+          scope: sampleScopeSchema
         });
 
         const params = schema.parse(args);
-        const analysis = await analyzer.analyzeResults(params.resultsFile);
+        const result = await comparator.compareResults(
+          params.baselineFile,
+          params.candidateFile,
+          params.tolerances,
+          params.scope
+        );
 
-        // Format the analysis for better readability
-        const formatted = {
-          summary: {
-            totalRequests: analysis.summary.totalRequests,
-            successRate: `${((analysis.summary.successfulRequests / analysis.summary.totalRequests) * 100).toFixed(2)}%`,
-            errorRate: `${analysis.summary.errorRate.toFixed(2)}%`,
-            averageResponseTime: `${analysis.summary.averageResponseTime.toFixed(2)}ms`,
-            medianResponseTime: `${analysis.summary.medianResponseTime.toFixed(2)}ms`,
-            percentile90: `${analysis.summary.percentile90.toFixed(2)}ms`,
-            percentile95: `${analysis.summary.percentile95.toFixed(2)}ms`,
-            percentile99: `${analysis.summary.percentile99.toFixed(2)}ms`,
-            throughput: `${analysis.summary.throughput.toFixed(2)} req/sec`,
-            bandwidth: {
-              received: `${analysis.summary.receivedKBPerSec.toFixed(2)} KB/sec`,
-              sent: `${analysis.summary.sentKBPerSec.toFixed(2)} KB/sec`
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
             }
-          },
-          topEndpoints: analysis.endpoints.slice(0, 10),
-          errors: analysis.errors,
-          bottlenecks: analysis.bottlenecks,
-          recommendations: analysis.recommendations
+          ]
         };
+      }
+
+      case 'evaluate_sla': {
+        const schema = z.object({
+          resultsFile: z.string(),
+          slaFile: z.string().optional(),
+          sla: z.unknown().optional(),
+          junitFile: z.string().optional(),
+          scope: sampleScopeSchema
+        });
+
+        const params = schema.parse(args);
+        if (!params.slaFile && params.sla === undefined) {
+          throw new Error('Either slaFile or sla must be provided');
+        }
+
+        const document = params.slaFile
+          ? await slaEvaluator.loadDocument(params.slaFile)
+          : slaEvaluator.validateDocument(params.sla);
+        const result = await slaEvaluator.evaluate(params.resultsFile, document, params.junitFile, params.scope);
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(formatted, null, 2)
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'list_bottleneck_profiles': {
+        const list = profiles.list();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ profiles: list, count: list.length }, null, 2)
             }
           ]
         };
@@ -420,14 +2242,61 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           endpoint: z.string(),
           method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']).default('GET'),
           headers: z.record(z.string()).optional(),
-          body: z.string().optional()
+          body: z.string().optional(),
+          assertions: z.array(assertionSchema).optional(),
+          csvDataSets: z.array(csvDataSetSchema).optional(),
+          loadProfile: loadProfileSchema.optional(),
+          timers: z.array(timerSchema).optional(),
+          ...sessionSchema,
+          backendListener: backendListenerSchema.optional()
+        });
+
+        const params = schema.parse(args);
+        const result = await builder.createHttpTestPlan({
+          ...params,
+          listeners: [
+            { type: 'summary' },
+            { type: 'aggregate' },
+            ...(params.backendListener ? [{ type: 'backend' as const, backend: params.backendListener }] : [])
+          ]
+        }, params.outputPath);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'create_scenario_test_plan': {
+        const schema = z.object({
+          name: z.string(),
+          outputPath: z.string(),
+          threads: z.number().default(10),
+          rampUp: z.number().default(10),
+          duration: z.number().default(60),
+          headers: z.record(z.string()).optional(),
+          steps: z.array(scenarioStepSchema).min(1),
+          thinkTime: thinkTimeSchema.optional(),
+          variables: z.record(z.string()).optional(),
+          csvDataSets: z.array(csvDataSetSchema).optional(),
+          loadProfile: loadProfileSchema.optional(),
+          timers: z.array(timerSchema).optional(),
+          ...sessionSchema,
+          backendListener: backendListenerSchema.optional()
         });
 
         const params = schema.parse(args);
         const result = await builder.createHttpTestPlan({
           ...params,
-          assertions: [],
-          listeners: [{ type: 'summary' }, { type: 'aggregate' }]
+          listeners: [
+            { type: 'summary' },
+            { type: 'aggregate' },
+            ...(params.backendListener ? [{ type: 'backend' as const, backend: params.backendListener }] : [])
+          ]
         }, params.outputPath);
 
         return {
@@ -440,6 +2309,253 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'import_openapi': {
+        const schema = z.object({
+          specFile: z.string(),
+          outputPath: z.string(),
+          name: z.string().optional(),
+          baseUrl: z.string().optional(),
+          threads: z.number().default(10),
+          rampUp: z.number().default(10),
+          duration: z.number().default(60),
+          includeTags: z.array(z.string()).optional(),
+          excludeTags: z.array(z.string()).optional(),
+          includeOperations: z.array(z.string()).optional(),
+          excludeOperations: z.array(z.string()).optional(),
+          groupByTag: z.boolean().default(false),
+          headers: z.record(z.string()).optional(),
+          thinkTime: thinkTimeSchema.optional()
+        });
+
+        const params = schema.parse(args);
+        const result = await openApiImporter.importSpec(params);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'import_har': {
+        const schema = z.object({
+          harFile: z.string(),
+          outputPath: z.string(),
+          name: z.string().optional(),
+          threads: z.number().default(10),
+          rampUp: z.number().default(10),
+          duration: z.number().default(60),
+          excludePattern: z.string().optional(),
+          groupByPage: z.boolean().default(true),
+          minThinkTimeMs: z.number().default(100),
+          maxThinkTimeMs: z.number().optional(),
+          headers: z.record(z.string()).optional()
+        });
+
+        const params = schema.parse(args);
+        const result = await harImporter.importHar(params);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'import_curl': {
+        const schema = z.object({
+          commands: z.array(z.string()).min(1),
+          outputPath: z.string(),
+          name: z.string().optional(),
+          threads: z.number().default(10),
+          rampUp: z.number().default(10),
+          duration: z.number().default(60),
+          thinkTime: thinkTimeSchema.optional()
+        });
+
+        const params = schema.parse(args);
+        const result = await curlImporter.importCommands(params);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'import_postman': {
+        const schema = z.object({
+          collectionFile: z.string(),
+          environmentFile: z.string().optional(),
+          outputPath: z.string(),
+          name: z.string().optional(),
+          threads: z.number().default(10),
+          rampUp: z.number().default(10),
+          duration: z.number().default(60),
+          variables: z.record(z.string()).optional(),
+          thinkTime: thinkTimeSchema.optional()
+        });
+
+        const params = schema.parse(args);
+        const result = await postmanImporter.importCollection(params);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'inspect_test_plan': {
+        const schema = z.object({
+          testPlan: z.string()
+        });
+
+        const params = schema.parse(args);
+        const outline = await inspector.inspect(params.testPlan);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(outline, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'modify_test_plan': {
+        const settingSchema = z.union([z.number(), z.string()]).optional();
+        const schema = z.object({
+          testPlan: z.string(),
+          outputPath: z.string().optional(),
+          loadShape: z.array(z.object({
+            threadGroup: z.string().optional(),
+            threads: settingSchema,
+            rampUp: settingSchema,
+            duration: settingSchema,
+            delay: settingSchema,
+            loops: settingSchema
+          })).optional(),
+          rename: z.array(z.object({
+            element: z.string(),
+            name: z.string()
+          })).optional(),
+          retarget: z.object({
+            host: z.string(),
+            protocol: z.string().optional(),
+            port: settingSchema,
+            fromHost: z.string().optional(),
+            samplers: z.array(z.string()).optional()
+          }).optional(),
+          enable: z.array(z.string()).optional(),
+          disable: z.array(z.string()).optional(),
+          headers: z.object({
+            set: z.record(z.string()).optional(),
+            remove: z.array(z.string()).optional(),
+            headerManager: z.string().optional()
+          }).optional(),
+          backup: z.boolean().default(true),
+          dryRun: z.boolean().default(false)
+        });
+
+        const { testPlan, outputPath, backup, dryRun, ...edits } = schema.parse(args);
+        const result = await editor.modify({ testPlan, outputPath, backup, dryRun, edits });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'lint_test_plan': {
+        const schema = z.object({
+          testPlan: z.string(),
+          rules: z.record(z.enum(['off', 'error', 'warning', 'info'])).optional()
+        });
+
+        const params = schema.parse(args);
+        const result = await linter.lint(params.testPlan, params.rules);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'generate_test_data': {
+        const schema = z.object({
+          outputPath: z.string(),
+          rows: z.number().int().positive(),
+          columns: z.array(z.discriminatedUnion('type', [
+            z.object({
+              name: z.string(),
+              type: z.literal('sequence'),
+              start: z.number().optional(),
+              step: z.number().optional(),
+              prefix: z.string().optional(),
+              padding: z.number().int().nonnegative().optional()
+            }),
+            z.object({
+              name: z.string(),
+              type: z.literal('randomInt'),
+              min: z.number().int(),
+              max: z.number().int()
+            }),
+            z.object({
+              name: z.string(),
+              type: z.literal('uuid')
+            }),
+            z.object({
+              name: z.string(),
+              type: z.literal('list'),
+              values: z.array(z.string()).min(1),
+              order: z.enum(['random', 'cycle']).optional()
+            }),
+            z.object({
+              name: z.string(),
+              type: z.literal('email'),
+              domains: z.array(z.string()).optional()
+            })
+          ])).min(1),
+          delimiter: z.string().min(1).optional(),
+          header: z.boolean().optional(),
+          seed: z.number().int().optional()
+        });
+
+        const params = schema.parse(args);
+        const result = await testDataGenerator.generate(params);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
       case 'execute_distributed_test': {
         const schema = z.object({
           testPlan: z.string(),
@@ -533,6 +2649,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+// Make sure no spawned JMeter process outlives the server
+process.on('exit', () => registry.stopAll());
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => process.exit(0));
+}
+
 // Start the server
 async function main() {
   // Validate JMeter installation on startup
@@ -543,6 +2665,11 @@ async function main() {
     process.exit(1);
   }
 
+  if (JMETER_PROFILES_FILE) {
+    const loaded = await profiles.loadFile(JMETER_PROFILES_FILE);
+    console.error(`Loaded bottleneck profiles: ${loaded.join(', ')}`);
+  }
+
   console.error('JMeter MCP Server v2.0.0 starting...');
   console.error(`JMeter ${validation.version} detected at ${JMETER_HOME}`);
   console.error('Available tools:', TOOLS.length);
@@ -0,0 +1,332 @@
+import * as fs from 'fs/promises';
+import { parseJmx, walkJmx, PATH_SEPARATOR } from './jmx.js';
+import type {
+  JmxElement,
+  JmxElementKind,
+  JmxElementOutline,
+  PropertyReference,
+  TestPlanOutline,
+  ThreadGroupOutline
+} from './types.js';
+
+/**
+ * ${__P(name)}, ${__P(name,default)} and ${__property(name,,default)}
+ */
+const PROPERTY_REFERENCE = /\$\{__(P|property)\(\s*([^,)]+?)\s*(?:,([^)]*))?\)\}/g;
+
+/**
+ * Reads existing JMX files and describes what they do
+ */
+export class TestPlanInspector {
+  /**
+   * Build a structured outline of a test plan
+   */
+  async inspect(filePath: string): Promise<TestPlanOutline> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return this.outline(filePath, parseJmx(content));
+  }
+
+  outline(filePath: string, testPlan: JmxElement): TestPlanOutline {
+    const counts: Partial<Record<JmxElementKind, number>> = {};
+    const disabledElements: string[] = [];
+    const references = new Map<string, PropertyReference>();
+
+    walkJmx(testPlan, element => {
+      if (element !== testPlan) {
+        counts[element.kind] = (counts[element.kind] ?? 0) + 1;
+      }
+      if (!element.enabled) {
+        disabledElements.push(element.path.join(PATH_SEPARATOR));
+      }
+      this.collectPropertyReferences(element, references);
+    });
+
+    return {
+      file: filePath,
+      name: testPlan.name,
+      enabled: testPlan.enabled,
+      comments: testPlan.properties['TestPlan.comments'] || undefined,
+      variables: this.variables(testPlan),
+      threadGroups: testPlan.children
+        .filter(child => child.kind === 'threadGroup')
+        .map(child => this.threadGroupOutline(child)),
+      testPlanElements: testPlan.children
+        .filter(child => child.kind !== 'threadGroup')
+        .map(child => this.elementOutline(child)),
+      propertyReferences: [...references.values()],
+      disabledElements,
+      counts
+    };
+  }
+
+  private threadGroupOutline(element: JmxElement): ThreadGroupOutline {
+    const props = element.properties;
+    const { details, children, ...identity } = this.elementOutline(element);
+    const outline: ThreadGroupOutline = {
+      ...identity,
+      threads: props['ThreadGroup.num_threads'],
+      rampUp: props['ThreadGroup.ramp_time'],
+      duration: props['ThreadGroup.duration'],
+      delay: props['ThreadGroup.delay'],
+      loops: props['LoopController.loops'],
+      scheduler: props['ThreadGroup.scheduler'] === undefined ? undefined : props['ThreadGroup.scheduler'] === 'true',
+      onSampleError: props['ThreadGroup.on_sample_error'],
+      details,
+      children
+    };
+
+    // Plugin thread groups describe their load as a schedule table
+    const schedule = element.collections['ultimatethreadgroupdata'] ?? element.collections['load_profile'];
+    if (schedule) {
+      outline.details.schedule = schedule.map(row => Object.values(row));
+    }
+
+    return outline;
+  }
+
+  private elementOutline(element: JmxElement): JmxElementOutline {
+    const outline: JmxElementOutline = {
+      kind: element.kind,
+      type: element.tag,
+      name: element.name,
+      enabled: element.enabled,
+      path: element.path.join(PATH_SEPARATOR),
+      details: this.details(element)
+    };
+
+    if (element.children.length > 0) {
+      outline.children = element.children.map(child => this.elementOutline(child));
+    }
+
+    return outline;
+  }
+
+  /**
+   * The settings that matter for each kind of element
+   */
+  private details(element: JmxElement): Record<string, unknown> {
+    const props = element.properties;
+    const pick = (entries: Record<string, string>) => Object.fromEntries(
+      Object.entries(entries)
+        .map(([key, property]) => [key, props[property]])
+        .filter(([, value]) => value !== undefined && value !== '')
+    );
+
+    switch (element.tag) {
+      case 'HTTPSamplerProxy': {
+        const body = props['HTTPSampler.postBodyRaw'] === 'true'
+          ? element.collections['Arguments.arguments']?.[0]?.['Argument.value']
+          : undefined;
+        const parameters = props['HTTPSampler.postBodyRaw'] === 'true'
+          ? undefined
+          : element.collections['Arguments.arguments']?.map(argument => ({
+            name: argument['Argument.name'],
+            value: argument['Argument.value']
+          }));
+        return {
+          method: props['HTTPSampler.method'] || 'GET',
+          url: this.httpUrl(props),
+          ...(body !== undefined ? { body } : {}),
+          ...(parameters?.length ? { parameters } : {})
+        };
+      }
+      case 'TestAction':
+        return pick({ action: 'ActionProcessor.action', duration: 'ActionProcessor.duration' });
+      case 'JSR223Sampler':
+      case 'JSR223PreProcessor':
+      case 'JSR223PostProcessor':
+      case 'JSR223Assertion':
+      case 'JSR223Timer':
+      case 'JSR223Listener':
+        return pick({ language: 'scriptLanguage', file: 'filename', script: 'script' });
+      case 'BeanShellSampler':
+      case 'BeanShellPreProcessor':
+      case 'BeanShellPostProcessor':
+      case 'BeanShellAssertion':
+      case 'BeanShellTimer':
+      case 'BeanShellListener':
+        return pick({ file: 'BeanShellSampler.filename', script: 'BeanShellSampler.query' });
+      case 'TransactionController':
+        return {
+          includeTimers: props['TransactionController.includeTimers'] === 'true',
+          generateParentSample: props['TransactionController.parent'] === 'true'
+        };
+      case 'LoopController':
+        return pick({ loops: 'LoopController.loops' });
+      case 'IfController':
+        return pick({ condition: 'IfController.condition' });
+      case 'WhileController':
+        return pick({ condition: 'WhileController.condition' });
+      case 'ForeachController':
+        return pick({ inputVariable: 'ForeachController.inputVal', outputVariable: 'ForeachController.returnVal' });
+      case 'ThroughputController':
+        return pick({ style: 'ThroughputController.style', percent: 'ThroughputController.percentThroughput' });
+      case 'RunTime':
+        return pick({ seconds: 'RunTime.seconds' });
+      case 'ModuleController':
+        return { target: element.collections['ModuleController.node_path']?.map(node => Object.values(node)[0]) };
+      case 'HeaderManager':
+        return {
+          headers: Object.fromEntries(
+            (element.collections['HeaderManager.headers'] ?? []).map(header => [header['Header.name'], header['Header.value']])
+          )
+        };
+      case 'CookieManager':
+        return { clearEachIteration: props['CookieManager.clearEachIteration'] === 'true' };
+      case 'CacheManager':
+        return { clearEachIteration: props['clearEachIteration'] === 'true' };
+      case 'AuthManager':
+        return {
+          authorizations: (element.collections['AuthManager.auth_list'] ?? []).map(auth => ({
+            url: auth['Authorization.url'],
+            username: auth['Authorization.username'],
+            mechanism: auth['Authorization.mechanism']
+          }))
+        };
+      case 'CSVDataSet':
+        return pick({
+          filename: 'filename',
+          variableNames: 'variableNames',
+          delimiter: 'delimiter',
+          recycle: 'recycle',
+          stopThread: 'stopThread',
+          shareMode: 'shareMode'
+        });
+      case 'ConfigTestElement':
+        return pick({
+          protocol: 'HTTPSampler.protocol',
+          domain: 'HTTPSampler.domain',
+          port: 'HTTPSampler.port',
+          path: 'HTTPSampler.path'
+        });
+      case 'Arguments':
+        return { variables: this.argumentMap(element.collections['Arguments.arguments']) };
+      case 'RegexExtractor':
+        return pick({
+          variable: 'RegexExtractor.refname',
+          expression: 'RegexExtractor.regex',
+          template: 'RegexExtractor.template',
+          match: 'RegexExtractor.match_number',
+          default: 'RegexExtractor.default'
+        });
+      case 'JSONPostProcessor':
+        return pick({
+          variable: 'JSONPostProcessor.referenceNames',
+          expression: 'JSONPostProcessor.jsonPathExprs',
+          match: 'JSONPostProcessor.match_numbers',
+          default: 'JSONPostProcessor.defaultValues'
+        });
+      case 'BoundaryExtractor':
+        return pick({
+          variable: 'BoundaryExtractor.refname',
+          left: 'BoundaryExtractor.lboundary',
+          right: 'BoundaryExtractor.rboundary',
+          match: 'BoundaryExtractor.match_number',
+          default: 'BoundaryExtractor.default'
+        });
+      case 'XPath2Extractor':
+        return pick({ variable: 'XPathExtractor2.refname', expression: 'XPathExtractor2.xpathQuery' });
+      case 'XPathExtractor':
+        return pick({ variable: 'XPathExtractor.refname', expression: 'XPathExtractor.xpathQuery' });
+      case 'ResponseAssertion':
+        return {
+          field: props['Assertion.test_field'],
+          testType: props['Assertion.test_type'],
+          patterns: (element.collections['Asserion.test_strings'] ?? []).map(entry => Object.values(entry)[0])
+        };
+      case 'DurationAssertion':
+        return pick({ maxMs: 'DurationAssertion.duration' });
+      case 'SizeAssertion':
+        return pick({ size: 'SizeAssertion.size', operator: 'SizeAssertion.operator' });
+      case 'JSONPathAssertion':
+        return pick({ path: 'JSON_PATH', expectedValue: 'EXPECTED_VALUE', invert: 'INVERT' });
+      case 'XPath2Assertion':
+      case 'XPathAssertion':
+        return pick({ xpath: 'XPath.xpath', negate: 'XPath.negate' });
+      case 'ConstantTimer':
+        return pick({ delayMs: 'ConstantTimer.delay' });
+      case 'UniformRandomTimer':
+      case 'GaussianRandomTimer':
+      case 'PoissonRandomTimer':
+        return pick({ delayMs: 'ConstantTimer.delay', rangeMs: 'RandomTimer.range' });
+      case 'ConstantThroughputTimer':
+        return pick({ perMinute: 'throughput', calcMode: 'calcMode' });
+      case 'PreciseThroughputTimer':
+        return pick({ throughput: 'throughput', periodSeconds: 'throughputPeriod', durationSeconds: 'duration' });
+      case 'ResultCollector':
+        return {
+          listener: element.guiclass,
+          ...pick({ filename: 'filename' })
+        };
+      case 'BackendListener':
+        return {
+          implementation: props['classname'],
+          arguments: this.argumentMap(element.collections['Arguments.arguments'])
+        };
+      default:
+        return {};
+    }
+  }
+
+  private httpUrl(props: Record<string, string>): string {
+    const domain = props['HTTPSampler.domain'];
+    const path = props['HTTPSampler.path'] ?? '';
+    if (!domain) return path;
+
+    const protocol = props['HTTPSampler.protocol'] || 'http';
+    const port = props['HTTPSampler.port'];
+    const defaultPort = protocol === 'https' ? '443' : '80';
+    const portSuffix = port && port !== defaultPort ? `:${port}` : '';
+    return `${protocol}://${domain}${portSuffix}${path.startsWith('/') || !path ? path : `/${path}`}`;
+  }
+
+  /**
+   * Variables defined on the Test Plan and in enabled User Defined Variables
+   * elements directly under it
+   */
+  private variables(testPlan: JmxElement): Record<string, string> {
+    const variables = this.argumentMap(testPlan.collections['Arguments.arguments']);
+    for (const child of testPlan.children) {
+      if (child.tag === 'Arguments' && child.enabled) {
+        Object.assign(variables, this.argumentMap(child.collections['Arguments.arguments']));
+      }
+    }
+    return variables;
+  }
+
+  private argumentMap(argumentsList: Array<Record<string, string>> = []): Record<string, string> {
+    return Object.fromEntries(
+      argumentsList
+        .filter(argument => argument['Argument.name'] !== undefined)
+        .map(argument => [argument['Argument.name'], argument['Argument.value'] ?? ''])
+    );
+  }
+
+  private collectPropertyReferences(element: JmxElement, references: Map<string, PropertyReference>): void {
+    const values = [
+      ...Object.values(element.properties),
+      ...Object.values(element.collections).flatMap(records => records.flatMap(record => Object.values(record)))
+    ];
+    const path = element.path.join(PATH_SEPARATOR);
+
+    for (const value of values) {
+      for (const match of value.matchAll(PROPERTY_REFERENCE)) {
+        const [, functionName, name, rest] = match;
+        // __property takes the variable name to store into before the default
+        const defaultValue = functionName === 'P' ? rest : rest?.split(',')[1];
+
+        let reference = references.get(name);
+        if (!reference) {
+          reference = { name, usedIn: [] };
+          references.set(name, reference);
+        }
+        if (defaultValue !== undefined && defaultValue !== '' && reference.defaultValue === undefined) {
+          reference.defaultValue = defaultValue.trim();
+        }
+        if (!reference.usedIn.includes(path)) {
+          reference.usedIn.push(path);
+        }
+      }
+    }
+  }
+}
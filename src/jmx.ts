@@ -0,0 +1,367 @@
+import { XMLParser } from 'fast-xml-parser';
+import type { JmxElement, JmxElementKind } from './types.js';
+
+/**
+ * Separator between element names in element paths, e.g.
+ * "Test Plan > Thread Group > Login"
+ */
+export const PATH_SEPARATOR = ' > ';
+
+const SCALAR_PROPS = new Set(['stringProp', 'boolProp', 'intProp', 'longProp', 'doubleProp', 'floatProp']);
+
+const CONFIG_TAGS = new Set([
+  'ConfigTestElement', 'HeaderManager', 'CookieManager', 'CacheManager', 'AuthManager', 'CSVDataSet',
+  'Arguments', 'DNSCacheManager', 'KeystoreConfig', 'RandomVariableConfig', 'CounterConfig', 'JDBCDataSource'
+]);
+
+const LISTENER_TAGS = new Set(['ResultCollector', 'BackendListener', 'Summariser', 'ResultSaver']);
+
+/**
+ * Parse a JMX document into its element tree, rooted at the Test Plan.
+ * In JMX each element's children live in the <hashTree> that follows it.
+ */
+export function parseJmx(content: string): JmxElement {
+  const parser = new XMLParser({
+    preserveOrder: true,
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseTagValue: false,
+    trimValues: false
+  });
+
+  const document: any[] = parser.parse(content);
+  const root = document.find(node => tagOf(node) === 'jmeterTestPlan');
+  const rootTree = root?.jmeterTestPlan.find((node: any) => tagOf(node) === 'hashTree');
+  if (!rootTree) {
+    throw new Error('Not a JMeter test plan: <jmeterTestPlan><hashTree> is missing');
+  }
+
+  const elements = readHashTree(rootTree.hashTree, []);
+  const testPlan = elements.find(element => element.tag === 'TestPlan');
+  if (!testPlan) {
+    throw new Error('Not a JMeter test plan: no TestPlan element found');
+  }
+
+  return testPlan;
+}
+
+/**
+ * Visit an element and all its descendants, depth first
+ */
+export function walkJmx(element: JmxElement, visit: (element: JmxElement) => void): void {
+  visit(element);
+  for (const child of element.children) {
+    walkJmx(child, visit);
+  }
+}
+
+/**
+ * Classify a JMX element by its tag
+ */
+export function elementKind(tag: string): JmxElementKind {
+  const type = tag.slice(tag.lastIndexOf('.') + 1);
+
+  if (type === 'TestPlan') return 'testPlan';
+  if (type.endsWith('ThreadGroup')) return 'threadGroup';
+  if (LISTENER_TAGS.has(type) || type.endsWith('Listener') || type.endsWith('ResultCollector')) return 'listener';
+  if (CONFIG_TAGS.has(type) || type.endsWith('Config') || type.endsWith('Manager')) return 'config';
+  if (type.endsWith('Extractor') || type === 'JSONPostProcessor') return 'extractor';
+  if (type.endsWith('PreProcessor') || type.endsWith('PostProcessor') || type.endsWith('Modifier')) return 'processor';
+  if (type.endsWith('Assertion')) return 'assertion';
+  if (type.endsWith('Timer')) return 'timer';
+  if (type.endsWith('Controller')) return 'controller';
+  if (type.endsWith('Sampler') || type.endsWith('SamplerProxy') || type === 'TestAction') return 'sampler';
+  return 'other';
+}
+
+function readHashTree(nodes: any[], parentPath: string[]): JmxElement[] {
+  const elements: JmxElement[] = [];
+
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (!tag) continue;
+
+    if (tag === 'hashTree') {
+      // Children of the element just before this hashTree
+      const owner = elements[elements.length - 1];
+      if (owner) {
+        owner.children.push(...readHashTree(node.hashTree, owner.path));
+      }
+      continue;
+    }
+
+    const attributes = node[':@'] ?? {};
+    const name: string = attributes.testname ?? tag;
+    const element: JmxElement = {
+      tag,
+      kind: elementKind(tag),
+      name,
+      enabled: attributes.enabled !== 'false',
+      guiclass: attributes.guiclass,
+      path: [...parentPath, name],
+      properties: {},
+      collections: {},
+      children: []
+    };
+    readProperties(node[tag], element);
+    elements.push(element);
+  }
+
+  return elements;
+}
+
+/**
+ * Flatten scalar properties (including those of nested elementProps) into
+ * properties, and collectionProps into lists of records
+ */
+function readProperties(nodes: any[], element: JmxElement): void {
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (!tag) continue;
+    const name: string = node[':@']?.name ?? '';
+
+    if (SCALAR_PROPS.has(tag)) {
+      element.properties[name] = textOf(node[tag]);
+    } else if (tag === 'elementProp') {
+      readProperties(node[tag], element);
+    } else if (tag === 'collectionProp') {
+      element.collections[name] = readCollection(node[tag]);
+    }
+  }
+}
+
+function readCollection(nodes: any[]): Array<Record<string, string>> {
+  const records: Array<Record<string, string>> = [];
+
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (!tag) continue;
+    const name: string = node[':@']?.name ?? '';
+
+    if (SCALAR_PROPS.has(tag)) {
+      records.push({ [name]: textOf(node[tag]) });
+    } else if (tag === 'elementProp') {
+      const record: Record<string, string> = {};
+      for (const child of node[tag]) {
+        const childTag = tagOf(child);
+        if (childTag && SCALAR_PROPS.has(childTag)) {
+          record[child[':@']?.name ?? ''] = textOf(child[childTag]);
+        }
+      }
+      records.push(record);
+    }
+  }
+
+  return records;
+}
+
+function tagOf(node: any): string | undefined {
+  return Object.keys(node).find(key => key !== ':@' && key !== '#text');
+}
+
+function textOf(nodes: any[]): string {
+  return nodes.map(node => node['#text'] ?? '').join('');
+}
+
+/**
+ * An XML element with its position in the source text
+ */
+export interface XmlNode {
+  tag: string;
+  attributes: Record<string, string>;
+  start: number;
+  openEnd: number;
+  closeStart: number;
+  end: number;
+  selfClosing: boolean;
+  children: XmlNode[];
+}
+
+/**
+ * A test element located in the source text, with the hashTree holding its children
+ */
+export interface LocatedElement {
+  node: XmlNode;
+  hashTree?: XmlNode;
+  tag: string;
+  kind: JmxElementKind;
+  name: string;
+  path: string[];
+  children: LocatedElement[];
+}
+
+/**
+ * Locate every test element in a JMX document without altering the text,
+ * so edits can be spliced into the original source
+ */
+export function locateJmx(content: string): LocatedElement {
+  const root = scanXml(content).find(node => node.tag === 'jmeterTestPlan');
+  const rootTree = root?.children.find(node => node.tag === 'hashTree');
+  if (!rootTree) {
+    throw new Error('Not a JMeter test plan: <jmeterTestPlan><hashTree> is missing');
+  }
+
+  const testPlan = locateHashTree(rootTree, []).find(element => element.tag === 'TestPlan');
+  if (!testPlan) {
+    throw new Error('Not a JMeter test plan: no TestPlan element found');
+  }
+
+  return testPlan;
+}
+
+/**
+ * Whether an element matches a selector: its name, its full path or the
+ * end of its path, e.g. "Users > Login". Names may contain ">" themselves,
+ * so the selector is compared with each end of the path joined back together.
+ */
+export function matchesSelector(element: { name: string; path: string[] }, selector: string): boolean {
+  const target = normalizeSelector(selector);
+  for (let length = 1; length <= element.path.length; length++) {
+    if (normalizeSelector(element.path.slice(-length).join(PATH_SEPARATOR)) === target) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Put exactly one space on each side of every ">" in a path
+ */
+function normalizeSelector(selector: string): string {
+  return selector.split(PATH_SEPARATOR.trim()).map(part => part.trim()).join(PATH_SEPARATOR);
+}
+
+function locateHashTree(hashTree: XmlNode, parentPath: string[]): LocatedElement[] {
+  const elements: LocatedElement[] = [];
+
+  for (const node of hashTree.children) {
+    if (node.tag === 'hashTree') {
+      const owner = elements[elements.length - 1];
+      if (owner) {
+        owner.hashTree = node;
+        owner.children = locateHashTree(node, owner.path);
+      }
+      continue;
+    }
+
+    const name = node.attributes.testname ?? node.tag;
+    elements.push({
+      node,
+      tag: node.tag,
+      kind: elementKind(node.tag),
+      name,
+      path: [...parentPath, name],
+      children: []
+    });
+  }
+
+  return elements;
+}
+
+/**
+ * Minimal XML scanner recording element positions. Comments, CDATA,
+ * processing instructions and doctypes are skipped.
+ */
+function scanXml(content: string): XmlNode[] {
+  const roots: XmlNode[] = [];
+  const stack: XmlNode[] = [];
+  let index = 0;
+
+  while ((index = content.indexOf('<', index)) >= 0) {
+    if (content.startsWith('<!--', index)) {
+      index = skipPast(content, index, '-->');
+    } else if (content.startsWith('<![CDATA[', index)) {
+      index = skipPast(content, index, ']]>');
+    } else if (content.startsWith('<?', index)) {
+      index = skipPast(content, index, '?>');
+    } else if (content.startsWith('<!', index)) {
+      index = skipPast(content, index, '>');
+    } else if (content.startsWith('</', index)) {
+      const close = skipPast(content, index, '>');
+      const tag = content.slice(index + 2, close - 1).trim();
+      const node = stack.pop();
+      if (!node || node.tag !== tag) {
+        throw new Error(`Malformed XML: unexpected </${tag}> at offset ${index}`);
+      }
+      node.closeStart = index;
+      node.end = close;
+      index = close;
+    } else {
+      const openEnd = findTagEnd(content, index);
+      const selfClosing = content[openEnd - 2] === '/';
+      const inner = content.slice(index + 1, openEnd - (selfClosing ? 2 : 1));
+      const tag = inner.match(/^[^\s/>]+/)?.[0] ?? '';
+      const node: XmlNode = {
+        tag,
+        attributes: parseAttributes(inner.slice(tag.length)),
+        start: index,
+        openEnd,
+        closeStart: openEnd,
+        end: openEnd,
+        selfClosing,
+        children: []
+      };
+
+      (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+      if (!selfClosing) stack.push(node);
+      index = openEnd;
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Malformed XML: <${stack[stack.length - 1].tag}> is never closed`);
+  }
+
+  return roots;
+}
+
+function skipPast(content: string, index: number, terminator: string): number {
+  const end = content.indexOf(terminator, index);
+  if (end < 0) {
+    throw new Error(`Malformed XML: unterminated markup at offset ${index}`);
+  }
+  return end + terminator.length;
+}
+
+/**
+ * Index just past the '>' ending a start tag, ignoring '>' inside quoted attribute values
+ */
+function findTagEnd(content: string, index: number): number {
+  let quote: string | undefined;
+  for (let i = index + 1; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i + 1;
+    }
+  }
+  throw new Error(`Malformed XML: unterminated tag at offset ${index}`);
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Decode the predefined XML entities and character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, code: string) => {
+    switch (code) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(code[1] === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+  });
+}
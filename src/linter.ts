@@ -0,0 +1,334 @@
+import * as fs from 'fs/promises';
+import { parseJmx, walkJmx, PATH_SEPARATOR } from './jmx.js';
+import type {
+  JmxElement,
+  LintFinding,
+  LintResult,
+  LintRuleInfo,
+  LintRuleSetting,
+  LintSeverity
+} from './types.js';
+
+/**
+ * Listeners that keep every sample in memory or redraw for each one
+ */
+const GUI_LISTENERS = new Set([
+  'ViewResultsFullVisualizer',
+  'TableVisualizer',
+  'GraphVisualizer',
+  'RespTimeGraphVisualizer',
+  'AssertionVisualizer',
+  'BeanShellListener'
+]);
+
+/**
+ * Elements removed from or deprecated in current JMeter releases
+ */
+const DEPRECATED_ELEMENTS: Record<string, string> = {
+  HTTPSampler: 'HTTP Request (HTTPSamplerProxy)',
+  HTTPSampler2: 'HTTP Request (HTTPSamplerProxy)',
+  SoapSampler: 'HTTP Request with a raw XML body',
+  WebServiceSampler: 'HTTP Request with a raw XML body',
+  MonitorResultCollector: 'a Backend Listener',
+  JavaScriptSampler: 'JSR223 Sampler with Groovy',
+  AccessLogSampler: 'a CSV Data Set Config feeding HTTP Requests'
+};
+
+const ON_SAMPLE_ERROR_MESSAGES: Record<string, [LintSeverity, string]> = {
+  stopthread: ['info', 'stops the thread'],
+  stoptest: ['warning', 'stops the whole test'],
+  stoptestnow: ['warning', 'stops the whole test immediately']
+};
+
+interface LintContext {
+  testPlan: JmxElement;
+  parents: Map<JmxElement, JmxElement>;
+  report: (element: JmxElement, message: string, fix: string, extra?: Partial<LintFinding>) => void;
+}
+
+interface LintRule {
+  id: string;
+  description: string;
+  severity: LintSeverity;
+  check: (context: LintContext) => void;
+}
+
+const LINT_RULES: LintRule[] = [
+  {
+    id: 'gui-listener',
+    description: 'Heavy GUI listeners enabled for non-GUI runs',
+    severity: 'warning',
+    check: ({ testPlan, parents, report }) => {
+      walkJmx(testPlan, element => {
+        const type = element.guiclass?.slice(element.guiclass.lastIndexOf('.') + 1) ?? element.tag;
+        if (element.kind === 'listener' && isActive(element, parents) &&
+            (GUI_LISTENERS.has(type) || GUI_LISTENERS.has(element.tag))) {
+          report(element, `${element.name} is enabled and holds or renders every sample, slowing down load generation`,
+            'Disable or remove it; write results with -l and build the HTML report instead');
+        }
+      });
+    }
+  },
+  {
+    id: 'sampler-without-assertion',
+    description: 'Samplers with no assertion in scope',
+    severity: 'warning',
+    check: ({ testPlan, parents, report }) => {
+      walkJmx(testPlan, element => {
+        if (element.kind !== 'sampler' || element.tag === 'TestAction' || element.tag === 'DebugSampler') return;
+        if (!isActive(element, parents)) return;
+        const hasAssertion = scopeOf(element, parents).some(scope =>
+          scope.children.some(child => child.kind === 'assertion' && child.enabled)
+        );
+        if (!hasAssertion) {
+          report(element, `${element.name} has no assertion, so error responses with a 2xx/3xx code count as successes`,
+            'Add a Response Assertion on the status code or a JSON/XPath assertion on the body');
+        }
+      });
+    }
+  },
+  {
+    id: 'missing-cookie-manager',
+    description: 'Thread groups sending HTTP requests without a Cookie Manager',
+    severity: 'warning',
+    check: ({ testPlan, parents, report }) => {
+      for (const threadGroup of testPlan.children.filter(child => child.kind === 'threadGroup' && child.enabled)) {
+        if (!containsTag(threadGroup, 'HTTPSamplerProxy')) continue;
+        const hasCookieManager = testPlan.children.some(child => child.tag === 'CookieManager' && child.enabled) ||
+          containsTag(threadGroup, 'CookieManager');
+        if (!hasCookieManager && isActive(threadGroup, parents)) {
+          report(threadGroup, `${threadGroup.name} sends HTTP requests but no HTTP Cookie Manager is in scope, so session cookies are dropped`,
+            'Add an HTTP Cookie Manager to the thread group or the Test Plan');
+        }
+      }
+    }
+  },
+  {
+    id: 'hard-coded-host',
+    description: 'Hosts and ports written into samplers instead of variables or HTTP Request Defaults',
+    severity: 'info',
+    check: ({ testPlan, parents, report }) => {
+      const byHost = new Map<string, JmxElement[]>();
+      walkJmx(testPlan, element => {
+        if (element.tag !== 'HTTPSamplerProxy' || !isActive(element, parents)) return;
+        const domain = element.properties['HTTPSampler.domain'] ?? '';
+        const port = element.properties['HTTPSampler.port'] ?? '';
+        const literalDomain = domain !== '' && !domain.includes('${');
+        const literalPort = port !== '' && !port.includes('${');
+        if (!literalDomain && !literalPort) return;
+
+        const key = literalDomain ? `${domain}${literalPort ? `:${port}` : ''}` : `port ${port}`;
+        byHost.set(key, [...(byHost.get(key) ?? []), element]);
+      });
+
+      for (const [host, samplers] of byHost) {
+        report(samplers[0], `${samplers.length} sampler(s) hard-code ${host}`,
+          'Move the host and port to HTTP Request Defaults or use ${__P(host,...)} so the plan can target other environments',
+          { elements: samplers.map(sampler => sampler.path.join(PATH_SEPARATOR)) });
+      }
+    }
+  },
+  {
+    id: 'no-think-time',
+    description: 'Thread groups with no timers or think time',
+    severity: 'warning',
+    check: ({ testPlan, parents, report }) => {
+      const testPlanTimer = testPlan.children.some(child => child.kind === 'timer' && child.enabled);
+      for (const threadGroup of testPlan.children.filter(child => child.kind === 'threadGroup' && child.enabled)) {
+        if (testPlanTimer || !isActive(threadGroup, parents)) continue;
+        let hasSampler = false;
+        let hasPause = false;
+        walkJmx(threadGroup, element => {
+          if (!element.enabled) return;
+          if (element.kind === 'sampler' && element.tag !== 'TestAction') hasSampler = true;
+          if (element.kind === 'timer' || (element.tag === 'TestAction' && element.properties['ActionProcessor.action'] === '1')) {
+            hasPause = true;
+          }
+        });
+        if (hasSampler && !hasPause) {
+          report(threadGroup, `${threadGroup.name} has no timers, so every thread sends requests back to back`,
+            'Add think time (e.g. a Uniform Random Timer) or a throughput timer to model real users');
+        }
+      }
+    }
+  },
+  {
+    id: 'zero-timer',
+    description: 'Timers configured with no delay',
+    severity: 'warning',
+    check: ({ testPlan, parents, report }) => {
+      walkJmx(testPlan, element => {
+        if (element.kind !== 'timer' || !isActive(element, parents)) return;
+        const delay = element.properties['ConstantTimer.delay'];
+        const range = element.properties['RandomTimer.range'];
+        const isZero = (value: string | undefined) => value === undefined || value.trim() === '' || Number(value) === 0;
+        if (delay !== undefined && isZero(delay) && isZero(range)) {
+          report(element, `${element.name} waits 0 ms`,
+            'Set a realistic delay or remove the timer');
+        }
+      });
+    }
+  },
+  {
+    id: 'on-sample-error',
+    description: 'Thread groups that stop threads or the test on the first error',
+    severity: 'warning',
+    check: ({ testPlan, parents, report }) => {
+      walkJmx(testPlan, element => {
+        if (element.kind !== 'threadGroup' || !isActive(element, parents)) return;
+        const policy = element.properties['ThreadGroup.on_sample_error'];
+        const outcome = policy ? ON_SAMPLE_ERROR_MESSAGES[policy] : undefined;
+        if (outcome) {
+          report(element, `${element.name} ${outcome[1]} on any sampler error, which hides how the system behaves under errors`,
+            'Use "continue" (or "Start Next Thread Loop") and judge errors with assertions and SLAs',
+            { severity: outcome[0] });
+        }
+      });
+    }
+  },
+  {
+    id: 'beanshell',
+    description: 'BeanShell elements and functions instead of JSR223 with Groovy',
+    severity: 'warning',
+    check: ({ testPlan, parents, report }) => {
+      walkJmx(testPlan, element => {
+        if (!isActive(element, parents)) return;
+        if (element.tag.startsWith('BeanShell')) {
+          report(element, `${element.name} uses BeanShell, which is interpreted and scales poorly`,
+            `Replace it with the JSR223 equivalent (${element.tag.replace('BeanShell', 'JSR223')}) using Groovy`);
+        } else if (Object.values(element.properties).some(value => value.includes('${__BeanShell('))) {
+          report(element, `${element.name} calls the __BeanShell function`,
+            'Use __groovy instead');
+        }
+      });
+    }
+  },
+  {
+    id: 'jsr223-language',
+    description: 'JSR223 elements not using Groovy, or with script caching off',
+    severity: 'warning',
+    check: ({ testPlan, parents, report }) => {
+      walkJmx(testPlan, element => {
+        if (!element.tag.startsWith('JSR223') || !isActive(element, parents)) return;
+        const language = element.properties['scriptLanguage'] || 'groovy';
+        if (language !== 'groovy') {
+          report(element, `${element.name} uses ${language}, which cannot be compiled and cached`,
+            'Switch the script language to groovy');
+        } else if (element.properties['cacheKey'] === 'false' && !element.properties['filename']) {
+          report(element, `${element.name} has compilation caching turned off`,
+            'Enable "Cache compiled script if available" and read variables with vars.get() instead of inlining ${...} in the script');
+        }
+      });
+    }
+  },
+  {
+    id: 'deprecated-element',
+    description: 'Deprecated or removed JMeter elements',
+    severity: 'error',
+    check: ({ testPlan, report }) => {
+      walkJmx(testPlan, element => {
+        const replacement = DEPRECATED_ELEMENTS[element.tag];
+        if (replacement) {
+          report(element, `${element.name} is a ${element.tag}, which is deprecated or removed in current JMeter`,
+            `Replace it with ${replacement}`);
+        }
+      });
+    }
+  }
+];
+
+/**
+ * Checks JMX test plans for common JMeter anti-patterns
+ */
+export class TestPlanLinter {
+  /**
+   * Describe every rule with its default severity
+   */
+  listRules(): LintRuleInfo[] {
+    return LINT_RULES.map(({ id, description, severity }) => ({ id, description, severity }));
+  }
+
+  /**
+   * Lint a test plan. Rules can be turned off or given another severity,
+   * which then applies to every finding of that rule.
+   */
+  async lint(filePath: string, rules: Record<string, LintRuleSetting> = {}): Promise<LintResult> {
+    const unknown = Object.keys(rules).filter(id => !LINT_RULES.some(rule => rule.id === id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown lint rule(s): ${unknown.join(', ')}. Available: ${LINT_RULES.map(rule => rule.id).join(', ')}`);
+    }
+
+    const testPlan = parseJmx(await fs.readFile(filePath, 'utf-8'));
+    const parents = new Map<JmxElement, JmxElement>();
+    walkJmx(testPlan, element => element.children.forEach(child => parents.set(child, element)));
+
+    const findings: LintFinding[] = [];
+    const effectiveRules: LintRuleInfo[] = [];
+
+    for (const rule of LINT_RULES) {
+      const setting = rules[rule.id] ?? rule.severity;
+      effectiveRules.push({ id: rule.id, description: rule.description, severity: setting });
+      if (setting === 'off') continue;
+
+      rule.check({
+        testPlan,
+        parents,
+        report: (element, message, fix, extra = {}) => {
+          findings.push({
+            rule: rule.id,
+            severity: rules[rule.id] !== undefined ? setting : extra.severity ?? setting,
+            path: element.path.join(PATH_SEPARATOR),
+            message,
+            fix,
+            ...(extra.elements ? { elements: extra.elements } : {})
+          });
+        }
+      });
+    }
+
+    const severityOrder: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+    findings.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+
+    const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+    for (const finding of findings) {
+      counts[finding.severity]++;
+    }
+
+    return {
+      file: filePath,
+      passed: counts.error === 0,
+      counts,
+      findings,
+      rules: effectiveRules
+    };
+  }
+}
+
+/**
+ * An element only runs when it and all its ancestors are enabled
+ */
+function isActive(element: JmxElement, parents: Map<JmxElement, JmxElement>): boolean {
+  for (let current: JmxElement | undefined = element; current; current = parents.get(current)) {
+    if (!current.enabled) return false;
+  }
+  return true;
+}
+
+/**
+ * The element and its ancestors; elements directly under any of them apply to it
+ */
+function scopeOf(element: JmxElement, parents: Map<JmxElement, JmxElement>): JmxElement[] {
+  const scope: JmxElement[] = [];
+  for (let current: JmxElement | undefined = element; current; current = parents.get(current)) {
+    scope.push(current);
+  }
+  return scope;
+}
+
+function containsTag(root: JmxElement, tag: string): boolean {
+  let found = false;
+  walkJmx(root, element => {
+    if (element.tag === tag && element.enabled) found = true;
+  });
+  return found;
+}
@@ -0,0 +1,563 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { TestPlanBuilder } from './builder.js';
+import type {
+  HttpMethod,
+  HttpStep,
+  OpenApiImportOptions,
+  ScenarioStep,
+  TransactionStep
+} from './types.js';
+
+const SUPPORTED_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+const ALL_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+/**
+ * Depth limit when generating examples from recursive schemas
+ */
+const MAX_SCHEMA_DEPTH = 8;
+
+/**
+ * The parts of OpenAPI 3 and Swagger 2 documents the importer reads. Any
+ * object may instead be a local $ref to one elsewhere in the document.
+ */
+interface OpenApiDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string };
+  servers?: Array<{ url?: string; variables?: Record<string, { default?: string }> }>;
+  schemes?: string[];
+  host?: string;
+  basePath?: string;
+  consumes?: string[];
+  paths?: Record<string, PathItem>;
+}
+
+type PathItem = { $ref?: string; parameters?: Parameter[] } & {
+  [method in typeof ALL_METHODS[number]]?: Operation;
+};
+
+interface Operation {
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
+  parameters?: Parameter[];
+  requestBody?: RequestBody;
+  consumes?: string[];
+}
+
+/**
+ * Swagger 2 parameters other than body parameters carry their schema
+ * (type, format, items, ...) inline
+ */
+interface Parameter extends Schema {
+  name: string;
+  in: string;
+  required?: boolean;
+  schema?: Schema;
+  'x-example'?: unknown;
+  content?: Record<string, MediaType>;
+}
+
+interface RequestBody {
+  $ref?: string;
+  content?: Record<string, MediaType>;
+}
+
+interface MediaType {
+  example?: unknown;
+  examples?: Record<string, Example>;
+  schema?: Schema;
+}
+
+interface Example {
+  $ref?: string;
+  value?: unknown;
+}
+
+interface Schema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  example?: unknown;
+  // A list in JSON Schema, a map of Example objects on OpenAPI 3 parameters
+  examples?: unknown;
+  default?: unknown;
+  enum?: unknown[];
+  minimum?: number;
+  readOnly?: boolean;
+  allOf?: Schema[];
+  oneOf?: Schema[];
+  anyOf?: Schema[];
+  properties?: Record<string, Schema>;
+  items?: Schema;
+}
+
+/**
+ * Builds JMeter test plans from OpenAPI 3 and Swagger 2 specifications
+ */
+export class OpenApiImporter {
+  private builder: TestPlanBuilder;
+
+  constructor(builder: TestPlanBuilder) {
+    this.builder = builder;
+  }
+
+  /**
+   * Read a spec file and write a test plan with one sampler per operation
+   */
+  async importSpec(options: OpenApiImportOptions): Promise<{
+    success: boolean;
+    message: string;
+    filePath?: string;
+    operations: number;
+    skipped: string[];
+    warnings: string[];
+  }> {
+    const content = await fs.readFile(options.specFile, 'utf-8');
+    const spec: OpenApiDocument = path.extname(options.specFile).toLowerCase() === '.json'
+      ? JSON.parse(content)
+      : parseYaml(content);
+
+    if (!spec || (!spec.openapi && !spec.swagger)) {
+      throw new Error(`${options.specFile} is not an OpenAPI 3 or Swagger 2 document`);
+    }
+
+    const { steps, skipped, warnings } = this.buildSteps(spec, options);
+    if (steps.length === 0) {
+      throw new Error('No operations matched the include/exclude filters');
+    }
+
+    const operations = steps.reduce(
+      (count, step) => count + ('transaction' in step ? step.steps.length : 1),
+      0
+    );
+
+    const result = await this.builder.createHttpTestPlan({
+      name: options.name || spec.info?.title || 'OpenAPI Test Plan',
+      threads: options.threads,
+      rampUp: options.rampUp,
+      duration: options.duration,
+      headers: options.headers,
+      thinkTime: options.thinkTime,
+      steps,
+      listeners: [{ type: 'summary' }, { type: 'aggregate' }]
+    }, options.outputPath);
+
+    return { ...result, operations, skipped, warnings };
+  }
+
+  /**
+   * Convert every matching operation into a scenario step
+   */
+  buildSteps(
+    spec: OpenApiDocument,
+    options: Pick<OpenApiImportOptions, 'baseUrl' | 'includeTags' | 'excludeTags' | 'includeOperations' | 'excludeOperations' | 'groupByTag'>
+  ): {
+    steps: ScenarioStep[];
+    skipped: string[];
+    warnings: string[];
+  } {
+    const baseUrl = (options.baseUrl || this.getBaseUrl(spec)).replace(/\/+$/, '');
+    const isSwagger2 = Boolean(spec.swagger);
+    const httpSteps: Array<{ tag?: string; step: HttpStep }> = [];
+    const skipped: string[] = [];
+    const warnings: string[] = [];
+
+    for (const [pathTemplate, pathItemRef] of Object.entries(spec.paths || {})) {
+      const pathItem = this.resolve(spec, pathItemRef);
+
+      for (const methodName of ALL_METHODS) {
+        const operation = pathItem[methodName];
+        if (!operation) continue;
+
+        const method = methodName.toUpperCase() as HttpMethod;
+        const operationId: string = operation.operationId || `${method} ${pathTemplate}`;
+        const tags: string[] = operation.tags || [];
+
+        if (!this.matchesFilters(operationId, tags, options)) continue;
+
+        if (!SUPPORTED_METHODS.includes(method)) {
+          skipped.push(`${operationId}: ${method} is not supported`);
+          continue;
+        }
+
+        try {
+          const step = isSwagger2
+            ? this.buildSwagger2Step(spec, baseUrl, pathTemplate, method, pathItem, operation, warnings)
+            : this.buildOpenApi3Step(spec, baseUrl, pathTemplate, method, pathItem, operation, warnings);
+          httpSteps.push({ tag: tags[0], step });
+        } catch (error) {
+          skipped.push(`${operationId}: ${error instanceof Error ? error.message : 'could not be converted'}`);
+        }
+      }
+    }
+
+    if (!options.groupByTag) {
+      return { steps: httpSteps.map(({ step }) => step), skipped, warnings };
+    }
+
+    // One Transaction Controller per first tag, untagged operations at the top level
+    const steps: ScenarioStep[] = [];
+    const transactions = new Map<string, TransactionStep>();
+    for (const { tag, step } of httpSteps) {
+      if (!tag) {
+        steps.push(step);
+        continue;
+      }
+      let transaction = transactions.get(tag);
+      if (!transaction) {
+        transaction = { transaction: tag, steps: [] };
+        transactions.set(tag, transaction);
+        steps.push(transaction);
+      }
+      transaction.steps.push(step);
+    }
+
+    return { steps, skipped, warnings };
+  }
+
+  private buildOpenApi3Step(
+    spec: OpenApiDocument,
+    baseUrl: string,
+    pathTemplate: string,
+    method: HttpMethod,
+    pathItem: PathItem,
+    operation: Operation,
+    warnings: string[]
+  ): HttpStep {
+    const parameters = this.mergeParameters(spec, pathItem.parameters, operation.parameters);
+    const step = this.buildRequestLine(spec, baseUrl, pathTemplate, method, operation, parameters,
+      parameter => this.parameterExample(spec, parameter, parameter.schema), warnings);
+
+    const requestBody = operation.requestBody ? this.resolve(spec, operation.requestBody) : undefined;
+    const content = requestBody?.content || {};
+    const contentTypes = Object.keys(content);
+    if (contentTypes.length > 0) {
+      const contentType = contentTypes.find(type => /json/i.test(type)) || contentTypes[0];
+      const media = content[contentType];
+      const example = this.mediaExample(spec, media);
+      step.body = this.serializeBody(example, contentType);
+      step.headers = { ...step.headers, 'Content-Type': contentType };
+    }
+
+    return step;
+  }
+
+  private buildSwagger2Step(
+    spec: OpenApiDocument,
+    baseUrl: string,
+    pathTemplate: string,
+    method: HttpMethod,
+    pathItem: PathItem,
+    operation: Operation,
+    warnings: string[]
+  ): HttpStep {
+    const parameters = this.mergeParameters(spec, pathItem.parameters, operation.parameters);
+    const step = this.buildRequestLine(spec, baseUrl, pathTemplate, method, operation, parameters,
+      parameter => this.parameterExample(spec, parameter, parameter), warnings);
+
+    const consumes: string[] = operation.consumes || spec.consumes || [];
+    const bodyParameter = parameters.find(parameter => parameter.in === 'body');
+    const formParameters = parameters.filter(parameter => parameter.in === 'formData');
+
+    if (bodyParameter) {
+      const contentType = consumes.find(type => /json/i.test(type)) || consumes[0] || 'application/json';
+      const example = bodyParameter['x-example'] ?? this.schemaExample(spec, bodyParameter.schema);
+      step.body = this.serializeBody(example, contentType);
+      step.headers = { ...step.headers, 'Content-Type': contentType };
+    } else if (formParameters.length > 0) {
+      const contentType = 'application/x-www-form-urlencoded';
+      const form = Object.fromEntries(
+        formParameters.map(parameter => [parameter.name, this.parameterExample(spec, parameter, parameter)])
+      );
+      step.body = this.serializeBody(form, contentType);
+      step.headers = { ...step.headers, 'Content-Type': contentType };
+    }
+
+    return step;
+  }
+
+  /**
+   * Build name, method, URL and header parameters shared by both spec versions.
+   * A parameter that has to be sent but has no example becomes a ${name}
+   * variable reference for the user to define.
+   */
+  private buildRequestLine(
+    spec: OpenApiDocument,
+    baseUrl: string,
+    pathTemplate: string,
+    method: HttpMethod,
+    operation: Operation,
+    parameters: Parameter[],
+    example: (parameter: Parameter) => unknown,
+    warnings: string[]
+  ): HttpStep {
+    const name: string = operation.operationId || operation.summary || `${method} ${pathTemplate}`;
+    let requestPath = pathTemplate;
+    const query: string[] = [];
+    const headers: Record<string, string> = {};
+    const queryPair = (key: string, value: string) => new URLSearchParams([[key, value]]).toString();
+
+    for (const parameter of parameters) {
+      // Bodies and form data are handled per spec version; cookies are not sent
+      if (!['path', 'query', 'header'].includes(parameter.in)) continue;
+      const include = parameter.required || parameter.in === 'path' || this.hasExample(spec, parameter);
+      if (!include) continue;
+
+      const value = example(parameter);
+      if (value === undefined) {
+        const variable = `\${${parameter.name}}`;
+        warnings.push(`${name}: no example for ${parameter.in} parameter "${parameter.name}"; define ${variable}`);
+        if (parameter.in === 'path') {
+          requestPath = requestPath.replace(`{${parameter.name}}`, variable);
+        } else if (parameter.in === 'query') {
+          query.push(`${encodeURIComponent(parameter.name)}=${variable}`);
+        } else if (parameter.in === 'header') {
+          headers[parameter.name] = variable;
+        }
+        continue;
+      }
+
+      const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+      if (parameter.in === 'path') {
+        requestPath = requestPath.replace(`{${parameter.name}}`, encodeURIComponent(text));
+      } else if (parameter.in === 'query') {
+        if (Array.isArray(value)) {
+          value.forEach(item => query.push(queryPair(parameter.name, String(item))));
+        } else {
+          query.push(queryPair(parameter.name, text));
+        }
+      } else if (parameter.in === 'header') {
+        headers[parameter.name] = text;
+      }
+    }
+
+    const queryString = query.join('&');
+    const step: HttpStep = {
+      name,
+      method,
+      url: `${baseUrl}${requestPath}${queryString ? `?${queryString}` : ''}`
+    };
+
+    if (Object.keys(headers).length > 0) {
+      step.headers = headers;
+    }
+
+    return step;
+  }
+
+  /**
+   * Path-level parameters overridden by operation-level ones with the same name and location
+   */
+  private mergeParameters(
+    spec: OpenApiDocument,
+    pathParameters: Parameter[] = [],
+    operationParameters: Parameter[] = []
+  ): Parameter[] {
+    const merged = new Map<string, Parameter>();
+    for (const parameter of [...pathParameters, ...operationParameters]) {
+      const resolved = this.resolve(spec, parameter);
+      merged.set(`${resolved.in}:${resolved.name}`, resolved);
+    }
+    return [...merged.values()];
+  }
+
+  private getBaseUrl(spec: OpenApiDocument): string {
+    if (spec.swagger) {
+      if (!spec.host) {
+        throw new Error('The spec declares no host; pass baseUrl');
+      }
+      const scheme = spec.schemes?.[0] || 'https';
+      return `${scheme}://${spec.host}${spec.basePath || ''}`;
+    }
+
+    const server = spec.servers?.[0];
+    if (!server?.url) {
+      throw new Error('The spec declares no servers; pass baseUrl');
+    }
+
+    // Substitute server variables with their defaults
+    const url = server.url.replace(/\{([^}]+)\}/g, (_: string, name: string) =>
+      server.variables?.[name]?.default ?? name
+    );
+
+    if (!/^https?:\/\//i.test(url)) {
+      throw new Error(`Server URL "${server.url}" is relative; pass baseUrl`);
+    }
+
+    return url;
+  }
+
+  private matchesFilters(
+    operationId: string,
+    tags: string[],
+    options: Pick<OpenApiImportOptions, 'includeTags' | 'excludeTags' | 'includeOperations' | 'excludeOperations'>
+  ): boolean {
+    if (options.excludeOperations?.includes(operationId)) return false;
+    if (options.excludeTags?.some(tag => tags.includes(tag))) return false;
+
+    const hasIncludes = Boolean(options.includeTags?.length || options.includeOperations?.length);
+    if (!hasIncludes) return true;
+
+    return Boolean(
+      options.includeOperations?.includes(operationId) ||
+      options.includeTags?.some(tag => tags.includes(tag))
+    );
+  }
+
+  private hasExample(spec: OpenApiDocument, parameter: Parameter): boolean {
+    const schema = parameter.schema ? this.resolve(spec, parameter.schema) : parameter;
+    return parameter.example !== undefined ||
+      parameter['x-example'] !== undefined ||
+      parameter.examples !== undefined ||
+      schema?.example !== undefined ||
+      schema?.default !== undefined;
+  }
+
+  private parameterExample(spec: OpenApiDocument, parameter: Parameter, schema: Schema | undefined): unknown {
+    if (parameter.example !== undefined) return parameter.example;
+    if (parameter['x-example'] !== undefined) return parameter['x-example'];
+
+    const firstExample = this.firstExample(spec, parameter.examples);
+    if (firstExample !== undefined) return firstExample;
+
+    return this.schemaExample(spec, schema);
+  }
+
+  private mediaExample(spec: OpenApiDocument, media: MediaType | undefined): unknown {
+    if (!media) return undefined;
+    if (media.example !== undefined) return media.example;
+
+    const firstExample = this.firstExample(spec, media.examples);
+    if (firstExample !== undefined) return firstExample;
+
+    return this.schemaExample(spec, media.schema);
+  }
+
+  private firstExample(spec: OpenApiDocument, examples: unknown): unknown {
+    if (!examples || typeof examples !== 'object') return undefined;
+    const first = Object.values(examples as Record<string, Example>)[0];
+    return first === undefined ? undefined : this.resolve(spec, first)?.value;
+  }
+
+  /**
+   * Build an example value from a schema: explicit examples and defaults
+   * first, then values generated from the type and format
+   */
+  private schemaExample(spec: OpenApiDocument, schemaRef: Schema | undefined, depth: number = 0): unknown {
+    if (!schemaRef || depth > MAX_SCHEMA_DEPTH) return undefined;
+    const schema = this.resolve(spec, schemaRef);
+
+    if (schema.example !== undefined) return schema.example;
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+    if (schema.default !== undefined) return schema.default;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+    if (Array.isArray(schema.allOf)) {
+      return schema.allOf.reduce<Record<string, unknown>>((merged, part) => {
+        const value = this.schemaExample(spec, part, depth + 1);
+        return typeof value === 'object' && value !== null && !Array.isArray(value)
+          ? { ...merged, ...value }
+          : merged;
+      }, {});
+    }
+
+    const alternatives = schema.oneOf || schema.anyOf;
+    if (Array.isArray(alternatives) && alternatives.length > 0) {
+      return this.schemaExample(spec, alternatives[0], depth + 1);
+    }
+
+    const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+
+    switch (type) {
+      case 'object':
+        return this.objectExample(spec, schema, depth);
+      case 'array': {
+        const item = this.schemaExample(spec, schema.items, depth + 1);
+        return item === undefined ? [] : [item];
+      }
+      case 'integer':
+        return schema.minimum ?? 1;
+      case 'number':
+        return schema.minimum ?? 1.0;
+      case 'boolean':
+        return true;
+      case 'string':
+        return this.stringExample(schema.format);
+      default:
+        return schema.properties ? this.objectExample(spec, schema, depth) : undefined;
+    }
+  }
+
+  private objectExample(spec: OpenApiDocument, schema: Schema, depth: number): Record<string, unknown> {
+    const value: Record<string, unknown> = {};
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      const resolved = this.resolve(spec, property);
+      if (resolved.readOnly) continue;
+      const example = this.schemaExample(spec, resolved, depth + 1);
+      if (example !== undefined) value[name] = example;
+    }
+    return value;
+  }
+
+  private stringExample(format?: string): string {
+    switch (format) {
+      case 'date': return '2024-01-01';
+      case 'date-time': return '2024-01-01T00:00:00Z';
+      case 'uuid': return '00000000-0000-4000-8000-000000000000';
+      case 'email': return 'user@example.com';
+      case 'uri':
+      case 'url': return 'https://example.com';
+      case 'ipv4': return '127.0.0.1';
+      case 'byte': return 'c3RyaW5n';
+      case 'password': return 'password';
+      default: return 'string';
+    }
+  }
+
+  private serializeBody(value: unknown, contentType: string): string {
+    if (value === undefined) return '';
+    if (typeof value === 'string') return value;
+
+    if (/x-www-form-urlencoded/i.test(contentType) && typeof value === 'object' && value !== null) {
+      const form = new URLSearchParams();
+      for (const [key, item] of Object.entries(value)) {
+        form.append(key, typeof item === 'object' ? JSON.stringify(item) : String(item));
+      }
+      return form.toString();
+    }
+
+    return JSON.stringify(value, null, 2);
+  }
+
+  /**
+   * Follow local "#/..." references. Remote references are not supported.
+   */
+  private resolve<T extends { $ref?: string }>(spec: OpenApiDocument, node: T, seen: Set<string> = new Set()): T {
+    if (!node || typeof node !== 'object' || typeof node.$ref !== 'string') {
+      return node;
+    }
+
+    const ref = node.$ref;
+    if (!ref.startsWith('#/')) {
+      throw new Error(`External reference ${ref} is not supported`);
+    }
+    if (seen.has(ref)) {
+      return {} as T;
+    }
+    seen.add(ref);
+
+    const target = ref.slice(2).split('/').reduce<unknown>(
+      (current, segment) => (current as Record<string, unknown> | undefined)?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')],
+      spec
+    );
+    if (target === undefined) {
+      throw new Error(`Unresolved reference ${ref}`);
+    }
+
+    return this.resolve(spec, target as T, seen);
+  }
+}
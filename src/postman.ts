@@ -0,0 +1,407 @@
+import * as fs from 'fs/promises';
+import { TestPlanBuilder } from './builder.js';
+import { encodeMultipart } from './curl.js';
+import type {
+  HttpMethod,
+  HttpStep,
+  PostmanImportOptions,
+  ScenarioStep
+} from './types.js';
+
+const SUPPORTED_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+/**
+ * Postman dynamic variables with a JMeter function equivalent
+ */
+const DYNAMIC_VARIABLES: Record<string, string> = {
+  $guid: '${__UUID()}',
+  $randomUUID: '${__UUID()}',
+  $timestamp: '${__time(/1000,)}',
+  // __time formats in the JVM's time zone, so build the UTC instant directly
+  $isoTimestamp: '${__groovy(java.time.Instant.now().toString(),)}',
+  $randomInt: '${__Random(0,1000)}'
+};
+
+/**
+ * A Postman {{variable}} reference; the group captures the variable name
+ */
+const VARIABLE_REFERENCE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+interface KeyValue {
+  key: string;
+  value?: string;
+  disabled?: boolean;
+  type?: string;
+}
+
+interface PostmanCollection {
+  info?: { name?: string; schema?: string };
+  item: PostmanItem[];
+  variable?: KeyValue[];
+  auth?: PostmanAuth;
+}
+
+/**
+ * A request, or a folder when it has items of its own
+ */
+interface PostmanItem {
+  name?: string;
+  item?: PostmanItem[];
+  request?: string | PostmanRequest;
+  auth?: PostmanAuth;
+}
+
+interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: KeyValue[];
+  body?: PostmanBody;
+  auth?: PostmanAuth;
+}
+
+interface PostmanUrl {
+  raw?: string;
+  protocol?: string;
+  host?: string | string[];
+  port?: string;
+  path?: string | string[];
+  query?: KeyValue[];
+  variable?: KeyValue[];
+}
+
+interface PostmanBody {
+  mode?: string;
+  disabled?: boolean;
+  raw?: string;
+  options?: { raw?: { language?: string } };
+  urlencoded?: KeyValue[];
+  formdata?: KeyValue[];
+  graphql?: { query?: string; variables?: string };
+}
+
+/**
+ * Attributes are stored as a key/value list under the auth type's name
+ */
+interface PostmanAuth {
+  type: string;
+  [type: string]: string | KeyValue[] | undefined;
+}
+
+/**
+ * Builds JMeter test plans from Postman v2.1 collections
+ */
+export class PostmanImporter {
+  private builder: TestPlanBuilder;
+
+  constructor(builder: TestPlanBuilder) {
+    this.builder = builder;
+  }
+
+  /**
+   * Read a collection (and optional environment) and write a test plan.
+   * Folders become Transaction Controllers and variables become User
+   * Defined Variables referenced as ${name}.
+   */
+  async importCollection(options: PostmanImportOptions): Promise<{
+    success: boolean;
+    message: string;
+    filePath?: string;
+    requests: number;
+    transactions: number;
+    variables: string[];
+    warnings: string[];
+  }> {
+    const collection: PostmanCollection = JSON.parse(await fs.readFile(options.collectionFile, 'utf-8'));
+    if (!Array.isArray(collection?.item)) {
+      throw new Error(`${options.collectionFile} is not a Postman collection: item is missing`);
+    }
+    const schema = collection.info?.schema ?? '';
+    if (schema && !schema.includes('v2.1')) {
+      throw new Error(`Unsupported Postman collection schema ${schema}; export the collection as v2.1`);
+    }
+
+    const variables = this.toVariables(collection.variable);
+    if (options.environmentFile) {
+      const environment: { values?: KeyValue[] } = JSON.parse(await fs.readFile(options.environmentFile, 'utf-8'));
+      Object.assign(variables, this.toVariables(environment.values));
+    }
+    Object.assign(variables, options.variables);
+
+    const warnings: string[] = [];
+    const steps = this.buildSteps(collection, variables, warnings);
+    if (steps.length === 0) {
+      throw new Error('The collection contains no supported requests');
+    }
+
+    const result = await this.builder.createHttpTestPlan({
+      name: options.name || collection.info?.name || 'Postman Collection',
+      threads: options.threads,
+      rampUp: options.rampUp,
+      duration: options.duration,
+      thinkTime: options.thinkTime,
+      variables,
+      steps,
+      listeners: [{ type: 'summary' }, { type: 'aggregate' }]
+    }, options.outputPath);
+
+    return {
+      ...result,
+      requests: steps.reduce((count, step) => count + ('transaction' in step ? step.steps.length : 1), 0),
+      transactions: steps.filter(step => 'transaction' in step).length,
+      variables: Object.keys(variables),
+      warnings
+    };
+  }
+
+  /**
+   * Walk the collection tree. Requests at the top level stay plain steps;
+   * each folder with requests becomes a transaction named by its folder path.
+   */
+  buildSteps(collection: PostmanCollection, variables: Record<string, string>, warnings: string[]): ScenarioStep[] {
+    const steps: ScenarioStep[] = [];
+
+    const visit = (items: PostmanItem[], folderPath: string[], inheritedAuth: PostmanAuth | undefined) => {
+      const requests: HttpStep[] = [];
+
+      for (const item of items) {
+        if (Array.isArray(item.item)) {
+          // Flush requests before the folder so the original order is kept
+          this.pushRequests(steps, folderPath, requests.splice(0));
+          visit(item.item, [...folderPath, item.name || 'Folder'], item.auth ?? inheritedAuth);
+        } else if (item.request) {
+          const step = this.toStep(item, inheritedAuth, variables, warnings);
+          if (step) requests.push(step);
+        }
+      }
+
+      this.pushRequests(steps, folderPath, requests);
+    };
+
+    visit(collection.item, [], collection.auth);
+    return steps;
+  }
+
+  private pushRequests(steps: ScenarioStep[], folderPath: string[], requests: HttpStep[]): void {
+    if (requests.length === 0) return;
+    if (folderPath.length === 0) {
+      steps.push(...requests);
+    } else {
+      steps.push({ transaction: folderPath.join(' / '), steps: requests });
+    }
+  }
+
+  private toStep(
+    item: PostmanItem,
+    inheritedAuth: PostmanAuth | undefined,
+    variables: Record<string, string>,
+    warnings: string[]
+  ): HttpStep | undefined {
+    const request: PostmanRequest = typeof item.request === 'string' ? { url: item.request } : item.request ?? {};
+    const name = item.name || 'Request';
+    const method = (request.method || 'GET').toUpperCase() as HttpMethod;
+
+    if (!SUPPORTED_METHODS.includes(method)) {
+      warnings.push(`${name}: ${method} is not supported`);
+      return undefined;
+    }
+
+    let url = this.toJMeterSyntax(this.rawUrl(request.url));
+    if (!url) {
+      warnings.push(`${name}: request has no URL`);
+      return undefined;
+    }
+    if (!/^(https?:\/\/|\$\{)/i.test(url)) {
+      url = `http://${url}`;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const header of request.header ?? []) {
+      if (header.disabled) continue;
+      headers[this.toJMeterSyntax(header.key)] = this.toJMeterSyntax(header.value ?? '');
+    }
+    const hasHeader = (headerName: string) =>
+      Object.keys(headers).some(key => key.toLowerCase() === headerName.toLowerCase());
+
+    const step: HttpStep = { name, method, url };
+
+    const body = this.toBody(request.body, name, warnings);
+    if (body) {
+      step.body = body.text;
+      if (body.contentType && !hasHeader('Content-Type')) {
+        headers['Content-Type'] = body.contentType;
+      }
+    }
+
+    const auth = request.auth ?? inheritedAuth;
+    if (auth) {
+      const query = this.applyAuth(auth, headers, variables, name, warnings);
+      if (query) {
+        step.url += (step.url.includes('?') ? '&' : '?') + query;
+      }
+    }
+
+    if (Object.keys(headers).length > 0) {
+      step.headers = headers;
+    }
+
+    return step;
+  }
+
+  private rawUrl(url: string | PostmanUrl | undefined): string {
+    if (!url) return '';
+    if (typeof url === 'string') return url;
+    if (url.raw) {
+      // Path variables ("/users/:id") take their values from url.variable
+      const pathVariables = new Map((url.variable ?? []).map(variable => [variable.key, variable.value]));
+      return url.raw.replace(/\/:([A-Za-z_]\w*)/g, (segment: string, key: string) =>
+        pathVariables.get(key) !== undefined ? `/${pathVariables.get(key)}` : segment
+      );
+    }
+
+    // Rebuild from the structured form
+    const host = Array.isArray(url.host) ? url.host.join('.') : url.host ?? '';
+    const path = Array.isArray(url.path) ? url.path.join('/') : url.path ?? '';
+    const query = (url.query ?? [])
+      .filter(param => !param.disabled)
+      .map(param => `${param.key}=${param.value ?? ''}`)
+      .join('&');
+    return `${url.protocol ? `${url.protocol}://` : ''}${host}${url.port ? `:${url.port}` : ''}` +
+      `${path ? `/${path}` : ''}${query ? `?${query}` : ''}`;
+  }
+
+  private toBody(body: PostmanBody | undefined, name: string, warnings: string[]): { text: string; contentType?: string } | undefined {
+    if (!body || body.disabled) return undefined;
+
+    switch (body.mode) {
+      case 'raw': {
+        if (!body.raw) return undefined;
+        const language = body.options?.raw?.language;
+        const contentType = language === 'json' ? 'application/json'
+          : language === 'xml' ? 'application/xml'
+          : language === 'html' ? 'text/html'
+          : language === 'text' ? 'text/plain'
+          : undefined;
+        return { text: this.toJMeterSyntax(body.raw), contentType };
+      }
+      case 'urlencoded': {
+        const params = (body.urlencoded ?? []).filter(param => !param.disabled);
+        const text = params
+          .map(param => `${this.encodeFormValue(param.key)}=${this.encodeFormValue(param.value ?? '')}`)
+          .join('&');
+        return { text, contentType: 'application/x-www-form-urlencoded' };
+      }
+      case 'formdata': {
+        const fields: Array<[string, string]> = [];
+        for (const field of body.formdata ?? []) {
+          if (field.disabled) continue;
+          if (field.type === 'file') {
+            warnings.push(`${name}: file field "${field.key}" was skipped`);
+            continue;
+          }
+          fields.push([this.toJMeterSyntax(field.key), this.toJMeterSyntax(field.value ?? '')]);
+        }
+        if (fields.length === 0) return undefined;
+        const { body: text, contentType } = encodeMultipart(fields);
+        return { text, contentType };
+      }
+      case 'graphql': {
+        const variables = body.graphql?.variables ? this.parseJson(body.graphql.variables) : undefined;
+        const text = JSON.stringify({ query: body.graphql?.query ?? '', variables });
+        return { text: this.toJMeterSyntax(text), contentType: 'application/json' };
+      }
+      default:
+        warnings.push(`${name}: ${body.mode} bodies are not supported`);
+        return undefined;
+    }
+  }
+
+  /**
+   * Apply request auth as headers; returns a query string for API keys sent in the URL
+   */
+  private applyAuth(
+    auth: PostmanAuth,
+    headers: Record<string, string>,
+    variables: Record<string, string>,
+    name: string,
+    warnings: string[]
+  ): string | undefined {
+    const attribute = (key: string): string => {
+      const values = auth[auth.type];
+      const value = Array.isArray(values) ? values.find(entry => entry.key === key)?.value : undefined;
+      return this.toJMeterSyntax(value === undefined ? '' : String(value));
+    };
+
+    switch (auth.type) {
+      case 'noauth':
+        return undefined;
+      case 'bearer':
+        headers['Authorization'] = `Bearer ${attribute('token')}`;
+        return undefined;
+      case 'basic': {
+        // The header is encoded now, so variables are substituted with their current values
+        const credentials = this.substitute(`${attribute('username')}:${attribute('password')}`, variables);
+        if (credentials.includes('${')) {
+          warnings.push(`${name}: basic auth uses undefined variables`);
+        }
+        headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+        return undefined;
+      }
+      case 'apikey': {
+        const key = attribute('key');
+        const value = attribute('value');
+        if (attribute('in') === 'query') {
+          return `${encodeURIComponent(key)}=${value}`;
+        }
+        headers[key] = value;
+        return undefined;
+      }
+      default:
+        warnings.push(`${name}: ${auth.type} auth is not supported`);
+        return undefined;
+    }
+  }
+
+  private toVariables(entries: KeyValue[] | undefined): Record<string, string> {
+    const variables: Record<string, string> = {};
+    for (const entry of entries ?? []) {
+      if (entry.disabled || (entry as { enabled?: boolean }).enabled === false) continue;
+      variables[entry.key] = this.toJMeterSyntax(entry.value === undefined ? '' : String(entry.value));
+    }
+    return variables;
+  }
+
+  /**
+   * Rewrite Postman {{variable}} references as JMeter ${variable}
+   */
+  private toJMeterSyntax(text: string): string {
+    return text.replace(VARIABLE_REFERENCE, (_, name: string) => this.variableReference(name));
+  }
+
+  /**
+   * Percent-encode a form field, rewriting {{variable}} references first so
+   * only the literal text around them is encoded
+   */
+  private encodeFormValue(text: string): string {
+    // split() with a capture group alternates literal text and variable names
+    return text
+      .split(VARIABLE_REFERENCE)
+      .map((part, index) => index % 2 === 1 ? this.variableReference(part) : encodeURIComponent(part))
+      .join('');
+  }
+
+  private variableReference(name: string): string {
+    return DYNAMIC_VARIABLES[name] ?? `\${${name}}`;
+  }
+
+  private substitute(text: string, variables: Record<string, string>): string {
+    return text.replace(/\$\{([^}]+)\}/g, (reference, name: string) => variables[name] ?? reference);
+  }
+
+  private parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
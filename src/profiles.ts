@@ -0,0 +1,183 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { BottleneckProfile, BottleneckSeverity, ThresholdSet } from './types.js';
+
+/**
+ * Built-in bottleneck detection profiles. Bands give the value at which each
+ * severity starts; the least severe band is the detection threshold. Response
+ * time and error rate bands are upper limits, throughput bands are floors.
+ * Only api sets a throughput floor, for the whole run only, since
+ * per-endpoint throughput depends on the request mix and low throughput is
+ * already a general recommendation.
+ */
+export const BUILT_IN_PROFILES: Record<string, BottleneckProfile> = {
+  default: {
+    name: 'default',
+    description: 'General purpose thresholds: 2 s average, 1 s p95, 5% errors, no throughput floor',
+    endpoint: {
+      averageResponseTime: { medium: 2000, high: 3000, critical: 5000 },
+      errorRate: { medium: 5, high: 10, critical: 20 },
+      percentile95: { medium: 1000, high: 2000, critical: 3000 }
+    },
+    overall: {
+      errorRate: { medium: 5, high: 10, critical: 20 }
+    }
+  },
+  api: {
+    name: 'api',
+    description: 'Latency-sensitive internal APIs: 200 ms average, 500 ms p95, 1% errors, 50 req/s overall',
+    endpoint: {
+      averageResponseTime: { low: 200, medium: 300, high: 500, critical: 1000 },
+      errorRate: { low: 0.5, medium: 1, high: 5, critical: 10 },
+      percentile95: { low: 500, medium: 750, high: 1000, critical: 2000 }
+    },
+    overall: {
+      errorRate: { low: 0.5, medium: 1, high: 5, critical: 10 },
+      throughput: { low: 50, medium: 20, high: 10, critical: 1 }
+    }
+  },
+  batch: {
+    name: 'batch',
+    description: 'Long-running batch endpoints: 10 s average, 15 s p95, 5% errors, no throughput floor',
+    endpoint: {
+      averageResponseTime: { medium: 10000, high: 20000, critical: 60000 },
+      errorRate: { medium: 5, high: 10, critical: 20 },
+      percentile95: { medium: 15000, high: 30000, critical: 90000 }
+    },
+    overall: {
+      errorRate: { medium: 5, high: 10, critical: 20 }
+    }
+  }
+};
+
+const SEVERITY_LEVELS: BottleneckSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Severity bands in order from low to critical: rising for upper limits,
+ * falling for floors, as the bottleneck check expects
+ */
+function bandsSchema(direction: 'rising' | 'falling') {
+  return z.object({
+    low: z.number().optional(),
+    medium: z.number().optional(),
+    high: z.number().optional(),
+    critical: z.number().optional()
+  }).refine(bands => Object.values(bands).some(value => value !== undefined), {
+    message: 'At least one severity band is required'
+  }).refine(bands => {
+    const values = SEVERITY_LEVELS.map(level => bands[level]).filter((value): value is number => value !== undefined);
+    return values.every((value, i) => i === 0 || (direction === 'rising' ? value >= values[i - 1] : value <= values[i - 1]));
+  }, {
+    message: direction === 'rising'
+      ? 'Severity bands must not decrease from low to critical'
+      : 'Throughput floors must not increase from low to critical'
+  });
+}
+
+const thresholdSetSchema = z.object({
+  averageResponseTime: bandsSchema('rising').optional(),
+  percentile95: bandsSchema('rising').optional(),
+  errorRate: bandsSchema('rising').optional(),
+  throughput: bandsSchema('falling').optional()
+});
+
+const profileInputSchema = z.object({
+  name: z.string().optional(),
+  extends: z.string().optional(),
+  description: z.string().optional(),
+  endpoint: thresholdSetSchema.optional(),
+  overall: thresholdSetSchema.optional(),
+  labels: z.record(thresholdSetSchema).optional()
+});
+
+export type BottleneckProfileInput = z.input<typeof profileInputSchema>;
+
+/**
+ * Named bottleneck profiles: the built-in ones plus any loaded from a file
+ */
+export class ProfileRegistry {
+  private profiles = new Map<string, BottleneckProfile>(Object.entries(BUILT_IN_PROFILES));
+
+  /**
+   * Load profiles from a JSON or YAML file mapping profile names to profiles
+   */
+  async loadFile(filePath: string): Promise<string[]> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const raw = path.extname(filePath).toLowerCase() === '.json'
+      ? JSON.parse(content)
+      : parseYaml(content);
+    const definitions = z.record(profileInputSchema).parse(raw);
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      this.profiles.set(name, this.resolve({ ...definition, name }));
+    }
+
+    return Object.keys(definitions);
+  }
+
+  list(): BottleneckProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  /**
+   * Resolve a profile name or inline profile. Inline profiles extend another
+   * profile ('default' unless given), replacing its bands metric by metric.
+   */
+  resolve(input?: string | BottleneckProfileInput): BottleneckProfile {
+    if (input === undefined) {
+      return this.get('default');
+    }
+    if (typeof input === 'string') {
+      return this.get(input);
+    }
+
+    const definition = profileInputSchema.parse(input);
+    const base = this.get(definition.extends ?? 'default');
+
+    return {
+      name: definition.name ?? 'inline',
+      description: definition.description ?? base.description,
+      endpoint: { ...base.endpoint, ...definition.endpoint },
+      overall: { ...base.overall, ...definition.overall },
+      labels: { ...base.labels, ...definition.labels }
+    };
+  }
+
+  private get(name: string): BottleneckProfile {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new Error(`Unknown bottleneck profile "${name}". Available: ${[...this.profiles.keys()].join(', ')}`);
+    }
+    return profile;
+  }
+}
+
+/**
+ * Thresholds for one label: the profile's endpoint thresholds with every
+ * matching label override applied in order. Override keys are exact labels
+ * or patterns using "*" as a wildcard.
+ */
+export function thresholdsForLabel(profile: BottleneckProfile, label: string): ThresholdSet {
+  let thresholds: ThresholdSet = { ...profile.endpoint };
+
+  for (const [pattern, overrides] of Object.entries(profile.labels ?? {})) {
+    if (matchesLabel(pattern, label)) {
+      thresholds = { ...thresholds, ...overrides };
+    }
+  }
+
+  return thresholds;
+}
+
+function matchesLabel(pattern: string, label: string): boolean {
+  if (!pattern.includes('*')) {
+    return pattern === label;
+  }
+
+  const regex = new RegExp(
+    '^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'
+  );
+  return regex.test(label);
+}
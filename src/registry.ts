@@ -0,0 +1,296 @@
+import type { ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as dgram from 'dgram';
+import * as os from 'os';
+import type { TestRunInfo, TestRunKind, TestStopMode } from './types.js';
+
+/**
+ * Maximum number of characters of stdout/stderr kept per run, so a long soak
+ * test cannot grow the server's memory without bound
+ */
+const OUTPUT_TAIL_LIMIT = 64 * 1024;
+
+/**
+ * Number of ended runs kept for status queries. Older ones are forgotten, so
+ * a long-lived server does not keep every run and its output tails forever;
+ * runs still going are always kept.
+ */
+export const MAX_ENDED_RUNS = 50;
+
+/**
+ * JMeter announces its non-GUI control port on stdout with this message
+ */
+const SHUTDOWN_PORT_PATTERN = /Waiting for possible .+ message on port (\d+)/;
+
+interface TrackedRun {
+  info: TestRunInfo;
+  child: ChildProcess;
+  processGroup: boolean;
+  stdout: string;
+  stderr: string;
+  done: Promise<void>;
+}
+
+/**
+ * Registry of every child process spawned by the server.
+ *
+ * A single instance lives for the lifetime of the server process, so runs
+ * started by one tool call can be polled and stopped by later ones.
+ */
+export class RunRegistry {
+  private runs = new Map<string, TrackedRun>();
+
+  /**
+   * Start tracking a spawned child process and return its run record
+   */
+  register(
+    child: ChildProcess,
+    meta: {
+      kind: TestRunKind;
+      testPlan?: string;
+      resultsFile?: string;
+      processGroup?: boolean;
+    }
+  ): TestRunInfo {
+    const info: TestRunInfo = {
+      runId: randomUUID(),
+      kind: meta.kind,
+      status: 'running',
+      pid: child.pid,
+      testPlan: meta.testPlan,
+      resultsFile: meta.resultsFile,
+      startedAt: Date.now(),
+      elapsedSeconds: 0
+    };
+
+    const run: TrackedRun = {
+      info,
+      child,
+      processGroup: meta.processGroup ?? false,
+      stdout: '',
+      stderr: '',
+      done: Promise.resolve()
+    };
+
+    child.stdout?.on('data', (data) => {
+      run.stdout = this.appendTail(run.stdout, data.toString());
+      if (info.shutdownPort === undefined) {
+        const match = run.stdout.match(SHUTDOWN_PORT_PATTERN);
+        if (match) {
+          info.shutdownPort = parseInt(match[1]);
+        }
+      }
+    });
+
+    child.stderr?.on('data', (data) => {
+      run.stderr = this.appendTail(run.stderr, data.toString());
+    });
+
+    run.done = new Promise((resolve) => {
+      child.on('close', (code, signal) => {
+        this.finish(run, code, signal);
+        resolve();
+      });
+
+      child.on('error', (error) => {
+        run.stderr = this.appendTail(run.stderr, '\n' + error.message);
+        this.finish(run, 1, null);
+        resolve();
+      });
+    });
+
+    this.runs.set(info.runId, run);
+    return { ...info };
+  }
+
+  /**
+   * Get the current status of a run
+   */
+  getStatus(runId: string): (TestRunInfo & { stdout: string; stderr: string }) | undefined {
+    const run = this.runs.get(runId);
+    if (!run) return undefined;
+
+    return {
+      ...this.snapshot(run),
+      stdout: run.stdout,
+      stderr: run.stderr
+    };
+  }
+
+  /**
+   * List all runs known to the registry, most recent first
+   */
+  list(): TestRunInfo[] {
+    return [...this.runs.values()]
+      .map(run => this.snapshot(run))
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Wait until a run's process has exited
+   */
+  async wait(runId: string): Promise<TestRunInfo | undefined> {
+    const run = this.runs.get(runId);
+    if (!run) return undefined;
+
+    await run.done;
+    return this.snapshot(run);
+  }
+
+  /**
+   * Stop a run.
+   *
+   * 'shutdown' and 'stoptest' send the matching command to JMeter's non-GUI
+   * UDP control port and wait up to timeoutMs for the process to exit. The
+   * process is only killed if that fails, or straight away with mode 'kill'.
+   */
+  async stop(runId: string, mode: TestStopMode = 'shutdown', timeoutMs: number = 30000): Promise<{
+    success: boolean;
+    message: string;
+    run?: TestRunInfo;
+  }> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return { success: false, message: `Unknown run ID: ${runId}` };
+    }
+
+    if (run.info.endedAt !== undefined) {
+      return {
+        success: true,
+        message: `Run ${runId} has already finished`,
+        run: this.snapshot(run)
+      };
+    }
+
+    run.info.status = 'stopping';
+    run.info.stopRequested = mode;
+    let message: string;
+
+    if (mode !== 'kill' && run.info.shutdownPort !== undefined) {
+      const command = mode === 'shutdown' ? 'Shutdown' : 'StopTestNow';
+
+      try {
+        await this.sendControlMessage(command, run.info.shutdownPort);
+        if (await this.waitForExit(run, timeoutMs)) {
+          return {
+            success: true,
+            message: `${command} sent on port ${run.info.shutdownPort}; JMeter exited`,
+            run: this.snapshot(run)
+          };
+        }
+        message = `JMeter did not exit within ${timeoutMs}ms after ${command}; process killed`;
+      } catch (error) {
+        message = `Failed to send ${command}: ${error instanceof Error ? error.message : 'unknown error'}; process killed`;
+      }
+    } else if (mode !== 'kill') {
+      message = 'JMeter control port is unknown; process killed';
+    } else {
+      message = 'Process killed';
+    }
+
+    this.killProcess(run, 'SIGTERM');
+    if (!(await this.waitForExit(run, 5000))) {
+      this.killProcess(run, 'SIGKILL');
+      await this.waitForExit(run, 5000);
+    }
+
+    return { success: true, message, run: this.snapshot(run) };
+  }
+
+  /**
+   * Kill every test process that is still running. Used when the server
+   * shuts down. GUI sessions are left open, since killing them would lose
+   * unsaved edits to the plan.
+   */
+  stopAll(): void {
+    for (const run of this.runs.values()) {
+      if (run.info.endedAt === undefined && run.info.kind !== 'gui') {
+        this.killProcess(run, 'SIGTERM');
+      }
+    }
+  }
+
+  private finish(run: TrackedRun, code: number | null, signal: NodeJS.Signals | null): void {
+    if (run.info.endedAt !== undefined) return;
+
+    run.info.endedAt = Date.now();
+    run.info.exitCode = code;
+    run.info.signal = signal ?? undefined;
+
+    if (run.info.stopRequested) {
+      run.info.status = 'stopped';
+    } else {
+      run.info.status = code === 0 ? 'finished' : 'failed';
+    }
+
+    this.pruneEnded();
+  }
+
+  /**
+   * Forget the runs that ended longest ago beyond MAX_ENDED_RUNS
+   */
+  private pruneEnded(): void {
+    const ended = [...this.runs.values()]
+      .filter(run => run.info.endedAt !== undefined)
+      .sort((a, b) => a.info.endedAt! - b.info.endedAt!);
+
+    for (const run of ended.slice(0, Math.max(0, ended.length - MAX_ENDED_RUNS))) {
+      this.runs.delete(run.info.runId);
+    }
+  }
+
+  private snapshot(run: TrackedRun): TestRunInfo {
+    const end = run.info.endedAt ?? Date.now();
+    return {
+      ...run.info,
+      elapsedSeconds: (end - run.info.startedAt) / 1000
+    };
+  }
+
+  private appendTail(buffer: string, chunk: string): string {
+    const combined = buffer + chunk;
+    return combined.length > OUTPUT_TAIL_LIMIT
+      ? combined.slice(combined.length - OUTPUT_TAIL_LIMIT)
+      : combined;
+  }
+
+  private sendControlMessage(command: string, port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket('udp4');
+      socket.send(Buffer.from(command, 'ascii'), port, '127.0.0.1', (error) => {
+        socket.close();
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private async waitForExit(run: TrackedRun, timeoutMs: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    const exited = await Promise.race([run.done.then(() => true), timeout]);
+    clearTimeout(timer);
+    return exited;
+  }
+
+  private killProcess(run: TrackedRun, signal: NodeJS.Signals): void {
+    if (run.info.endedAt !== undefined || run.child.pid === undefined) return;
+
+    try {
+      // The jmeter launcher script forks the JVM, so signal the whole group
+      if (run.processGroup && os.platform() !== 'win32') {
+        process.kill(-run.child.pid, signal);
+      } else {
+        run.child.kill(signal);
+      }
+    } catch {
+      // Process already gone
+    }
+  }
+}
@@ -0,0 +1,335 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChartRenderer } from './charts.js';
+import type {
+  Bottleneck,
+  BottleneckSeverity,
+  RenderedChart,
+  SummaryReportFormat,
+  SummaryReportInput
+} from './types.js';
+
+const SEVERITY_ORDER: BottleneckSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #222; max-width: 1100px; margin: 2em auto; padding: 0 1em; }
+h1 { margin-bottom: 0.2em; }
+.meta { color: #666; margin-top: 0; }
+table { border-collapse: collapse; margin: 1em 0; font-size: 14px; }
+th, td { border: 1px solid #ddd; padding: 4px 10px; text-align: left; }
+td.number, th.number { text-align: right; }
+th { background: #f5f5f5; }
+.pass { color: #1a7f37; font-weight: bold; }
+.fail { color: #cf222e; font-weight: bold; }
+.severity-critical, .severity-high { color: #cf222e; font-weight: bold; }
+.severity-medium { color: #9a6700; }
+figure { margin: 1em 0; }
+svg { max-width: 100%; height: auto; }`;
+
+interface Table {
+  headers: string[];
+  rows: string[][];
+  numeric?: boolean[];
+  classes?: Array<string | undefined>;
+}
+
+interface Section {
+  title: string;
+  paragraphs?: string[];
+  table?: Table;
+  list?: string[];
+  charts?: RenderedChart[];
+}
+
+/**
+ * Builds an HTML or Markdown summary report from an analysis. HTML reports
+ * embed their charts, so they are a single file that can be attached to a
+ * ticket. Markdown viewers such as GitHub strip data URIs, so Markdown
+ * reports link to SVG files written next to them instead.
+ */
+export class SummaryReportGenerator {
+  /**
+   * Render the report and write it to a file. Charts of a Markdown report go
+   * to <report name>-charts/ beside it; returns the chart files written.
+   */
+  async write(input: SummaryReportInput, outputPath: string, format: SummaryReportFormat): Promise<string[]> {
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+
+    let chartFiles: string[] = [];
+    const chartDir = `${path.parse(outputPath).name}-charts`;
+    if (format === 'markdown' && input.charts?.length) {
+      chartFiles = await new ChartRenderer().write(input.charts, path.join(path.dirname(outputPath), chartDir));
+    }
+
+    await fs.writeFile(outputPath, this.render(input, format, chartDir), 'utf-8');
+    return chartFiles;
+  }
+
+  /**
+   * Render the report. Markdown charts are linked as <chartDir>/<kind>.svg,
+   * relative to the report.
+   */
+  render(input: SummaryReportInput, format: SummaryReportFormat, chartDir = 'charts'): string {
+    const sections = this.buildSections(input);
+    return format === 'html' ? this.toHtml(input, sections) : this.toMarkdown(input, sections, chartDir);
+  }
+
+  private buildSections(input: SummaryReportInput): Section[] {
+    const { analysis, sla } = input;
+    const summary = analysis.summary;
+    const sections: Section[] = [];
+
+    const durationSeconds = summary.throughput > 0 ? summary.totalRequests / summary.throughput : 0;
+    sections.push({
+      title: 'Executive Summary',
+      paragraphs: [this.verdict(input)],
+      table: {
+        headers: ['Metric', 'Value'],
+        numeric: [false, true],
+        rows: [
+          ['Requests', formatCount(summary.totalRequests)],
+          ['Duration', formatDuration(durationSeconds)],
+          ['Throughput', `${summary.throughput.toFixed(2)} req/s`],
+          ['Error rate', `${summary.errorRate.toFixed(2)}%`],
+          ['Average response time', formatMs(summary.averageResponseTime)],
+          ['Median response time', formatMs(summary.medianResponseTime)],
+          ['90th percentile', formatMs(summary.percentile90)],
+          ['95th percentile', formatMs(summary.percentile95)],
+          ['99th percentile', formatMs(summary.percentile99)],
+          ['Max response time', formatMs(summary.maxResponseTime)],
+          ['Received', `${summary.receivedKBPerSec.toFixed(2)} KB/s`],
+          ['Sent', `${summary.sentKBPerSec.toFixed(2)} KB/s`]
+        ]
+      }
+    });
+
+    if (sla) {
+      sections.push({
+        title: 'SLA',
+        paragraphs: [`${sla.name}: ${sla.passedCount} of ${sla.total} rules passed.`],
+        table: {
+          headers: ['Scope', 'Rule', 'Result', 'Detail'],
+          rows: sla.results.map(result => [
+            result.scope,
+            result.rule,
+            result.passed ? 'PASS' : 'FAIL',
+            result.message
+          ]),
+          classes: [undefined, undefined, 'result']
+        }
+      });
+    }
+
+    const bottlenecks = [...analysis.bottlenecks].sort(
+      (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+    );
+    sections.push(bottlenecks.length === 0
+      ? { title: 'Bottlenecks', paragraphs: [`No bottlenecks found with the ${input.profile} profile.`] }
+      : {
+        title: 'Bottlenecks',
+        paragraphs: [`Detected with the ${input.profile} profile.`],
+        table: {
+          headers: ['Severity', 'Endpoint', 'Metric', 'Value', 'Threshold'],
+          numeric: [false, false, false, true, true],
+          rows: bottlenecks.map(bottleneck => [
+            bottleneck.severity,
+            bottleneck.affectedEndpoint,
+            bottleneck.metric,
+            this.formatBottleneckValue(bottleneck, bottleneck.value),
+            this.formatBottleneckValue(bottleneck, bottleneck.threshold)
+          ]),
+          classes: ['severity']
+        }
+      });
+
+    sections.push({
+      title: 'Endpoints',
+      table: {
+        headers: ['Label', 'Samples', 'Average', 'Median', 'p90', 'p95', 'p99', 'Max', 'Errors', 'Throughput'],
+        numeric: [false, true, true, true, true, true, true, true, true, true],
+        rows: analysis.endpoints.map(endpoint => [
+          endpoint.label,
+          formatCount(endpoint.samples),
+          formatMs(endpoint.average),
+          formatMs(endpoint.median),
+          formatMs(endpoint.percentile90),
+          formatMs(endpoint.percentile95),
+          formatMs(endpoint.percentile99),
+          formatMs(endpoint.max),
+          `${endpoint.errorRate.toFixed(2)}%`,
+          `${endpoint.throughput.toFixed(2)} req/s`
+        ])
+      }
+    });
+
+    sections.push(analysis.errors.length === 0
+      ? { title: 'Errors', paragraphs: ['No failed samples.'] }
+      : {
+        title: 'Errors',
+        table: {
+          headers: ['Code', 'Message', 'Count', 'Share', 'Endpoints'],
+          numeric: [false, false, true, true, false],
+          rows: analysis.errors.map(error => [
+            error.responseCode,
+            error.responseMessage,
+            formatCount(error.count),
+            `${error.percentage.toFixed(2)}%`,
+            error.affectedEndpoints.join(', ')
+          ])
+        }
+      });
+
+    sections.push({ title: 'Recommendations', list: analysis.recommendations });
+
+    if (input.charts?.length) {
+      sections.push({ title: 'Charts', charts: input.charts });
+    }
+
+    return sections;
+  }
+
+  /**
+   * Outcome in a few sentences: the SLA verdict when there is one, the load
+   * and error figures, and the bottleneck count by severity
+   */
+  private verdict(input: SummaryReportInput): string {
+    const { summary, bottlenecks } = input.analysis;
+    const load = `${formatCount(summary.totalRequests)} requests at ${summary.throughput.toFixed(2)} req/s ` +
+      `with a ${summary.errorRate.toFixed(2)}% error rate and a 95th percentile of ${formatMs(summary.percentile95)}.`;
+
+    const counts = SEVERITY_ORDER
+      .map(severity => [severity, bottlenecks.filter(b => b.severity === severity).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([severity, count]) => `${count} ${severity}`);
+    const findings = counts.length === 0
+      ? 'No bottlenecks found.'
+      : `${bottlenecks.length} bottleneck${bottlenecks.length === 1 ? '' : 's'} found (${counts.join(', ')}).`;
+
+    const sla = input.sla
+      ? input.sla.passed
+        ? `SLA passed: all ${input.sla.total} rules met. `
+        : `SLA failed: ${input.sla.failedCount} of ${input.sla.total} rules broken. `
+      : '';
+
+    return `${sla}${load} ${findings}`;
+  }
+
+  private formatBottleneckValue(bottleneck: Bottleneck, value: number): string {
+    switch (bottleneck.type) {
+      case 'high-error-rate': return `${value.toFixed(2)}%`;
+      case 'low-throughput': return `${value.toFixed(2)} req/s`;
+      default: return formatMs(value);
+    }
+  }
+
+  private toHtml(input: SummaryReportInput, sections: Section[]): string {
+    let html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(input.title)}</title>
+<style>${STYLE}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(input.title)}</h1>
+<p class="meta">Results: ${escapeHtml(input.resultsFile)}${input.scope ? ` &middot; Samples: ${input.scope}` : ''} &middot; Generated ${escapeHtml(new Date().toISOString())}</p>
+`;
+
+    for (const section of sections) {
+      html += `\n<h2>${escapeHtml(section.title)}</h2>\n`;
+      for (const paragraph of section.paragraphs ?? []) {
+        html += `<p>${escapeHtml(paragraph)}</p>\n`;
+      }
+
+      if (section.table) {
+        const { headers, rows, numeric, classes } = section.table;
+        const cell = (tag: string, value: string, index: number) => {
+          const names = [
+            numeric?.[index] ? 'number' : '',
+            tag === 'td' && classes?.[index] === 'severity' ? `severity-${value}` : '',
+            tag === 'td' && classes?.[index] === 'result' ? (value === 'PASS' ? 'pass' : 'fail') : ''
+          ].filter(Boolean);
+          const attribute = names.length > 0 ? ` class="${names.join(' ')}"` : '';
+          return `<${tag}${attribute}>${escapeHtml(value)}</${tag}>`;
+        };
+
+        html += '<table>\n<thead><tr>' + headers.map((header, i) => cell('th', header, i)).join('') + '</tr></thead>\n<tbody>\n';
+        for (const row of rows) {
+          html += '<tr>' + row.map((value, i) => cell('td', value, i)).join('') + '</tr>\n';
+        }
+        html += '</tbody>\n</table>\n';
+      }
+
+      if (section.list) {
+        html += '<ul>\n' + section.list.map(item => `<li>${escapeHtml(item)}</li>`).join('\n') + '\n</ul>\n';
+      }
+
+      for (const chart of section.charts ?? []) {
+        html += `<figure>\n${chart.svg.trim()}\n</figure>\n`;
+      }
+    }
+
+    return html + '\n</body>\n</html>\n';
+  }
+
+  private toMarkdown(input: SummaryReportInput, sections: Section[], chartDir: string): string {
+    const blocks = [
+      `# ${input.title}`,
+      `Results: \`${input.resultsFile}\`${input.scope ? ` · Samples: ${input.scope}` : ''} · Generated ${new Date().toISOString()}`
+    ];
+
+    for (const section of sections) {
+      blocks.push(`## ${section.title}`, ...(section.paragraphs ?? []));
+
+      if (section.table) {
+        const { headers, rows, numeric } = section.table;
+        blocks.push([
+          `| ${headers.map(escapeMarkdownCell).join(' | ')} |`,
+          `| ${headers.map((_, i) => numeric?.[i] ? '---:' : '---').join(' | ')} |`,
+          ...rows.map(row => `| ${row.map(escapeMarkdownCell).join(' | ')} |`)
+        ].join('\n'));
+      }
+
+      if (section.list) {
+        blocks.push(section.list.map(item => `- ${item}`).join('\n'));
+      }
+
+      for (const chart of section.charts ?? []) {
+        blocks.push(`![${chart.title}](${encodeURI(`${chartDir}/${chart.kind}.svg`)})`);
+      }
+    }
+
+    return blocks.join('\n\n') + '\n';
+  }
+}
+
+function formatMs(value: number): string {
+  return `${value.toFixed(2)} ms`;
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}h ${m}m ${s}s`;
+  if (m > 0) return `${m}m ${s}s`;
+  return `${s}s`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
@@ -0,0 +1,354 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ResultsAnalyzer } from './analyzer.js';
+import type {
+  AnalysisResult,
+  EndpointMetrics,
+  PerformanceMetrics,
+  SampleScope,
+  SlaDocument,
+  SlaEvaluationResult,
+  SlaMetric,
+  SlaOperator,
+  SlaRule,
+  SlaRuleResult
+} from './types.js';
+
+const METRIC_ALIASES: Record<string, SlaMetric> = {
+  avg: 'average',
+  mean: 'average',
+  average: 'average',
+  median: 'median',
+  p50: 'median',
+  min: 'min',
+  max: 'max',
+  p90: 'p90',
+  p95: 'p95',
+  p99: 'p99',
+  errorrate: 'errorRate',
+  error_rate: 'errorRate',
+  errors: 'errorRate',
+  throughput: 'throughput',
+  rps: 'throughput',
+  tps: 'throughput',
+  samples: 'samples',
+  count: 'samples',
+  receivedkbpersec: 'receivedKBPerSec',
+  sentkbpersec: 'sentKBPerSec'
+};
+
+const TIME_METRICS: SlaMetric[] = ['average', 'median', 'min', 'max', 'p90', 'p95', 'p99'];
+
+const METRIC_UNITS: Record<SlaMetric, string> = {
+  average: 'ms',
+  median: 'ms',
+  min: 'ms',
+  max: 'ms',
+  p90: 'ms',
+  p95: 'ms',
+  p99: 'ms',
+  errorRate: '%',
+  throughput: ' rps',
+  samples: '',
+  receivedKBPerSec: ' KB/s',
+  sentKBPerSec: ' KB/s'
+};
+
+const RULE_PATTERN = /^\s*([A-Za-z_][\w]*)\s*(<=|>=|==|!=|<|>)\s*(-?\d+(?:\.\d+)?)\s*([A-Za-z/%.]*)\s*$/;
+
+const ruleSchema = z.object({
+  metric: z.string(),
+  operator: z.enum(['<', '<=', '>', '>=', '==', '!=']),
+  value: z.number(),
+  description: z.string().optional()
+});
+
+const documentSchema = z.object({
+  name: z.string().optional(),
+  global: z.array(z.union([z.string(), ruleSchema])).optional(),
+  labels: z.record(z.array(z.union([z.string(), ruleSchema]))).optional()
+});
+
+/**
+ * Evaluates declarative SLA rules against analyzed test results
+ */
+export class SlaEvaluator {
+  private analyzer: ResultsAnalyzer;
+
+  constructor(analyzer: ResultsAnalyzer) {
+    this.analyzer = analyzer;
+  }
+
+  /**
+   * Load an SLA document from a JSON or YAML file
+   */
+  async loadDocument(filePath: string): Promise<SlaDocument> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const raw = path.extname(filePath).toLowerCase() === '.json'
+      ? JSON.parse(content)
+      : parseYaml(content);
+    return this.validateDocument(raw);
+  }
+
+  /**
+   * Validate an SLA document and normalize every rule
+   */
+  validateDocument(raw: unknown): SlaDocument {
+    const parsed = documentSchema.parse(raw);
+    const normalize = (rules: Array<string | z.infer<typeof ruleSchema>>) => rules.map(rule => this.toRule(rule));
+
+    const document: SlaDocument = {
+      name: parsed.name,
+      global: parsed.global ? normalize(parsed.global) : undefined,
+      labels: parsed.labels
+        ? Object.fromEntries(Object.entries(parsed.labels).map(([label, rules]) => [label, normalize(rules)]))
+        : undefined
+    };
+
+    if (!document.global?.length && !Object.keys(document.labels ?? {}).length) {
+      throw new Error('SLA document contains no rules');
+    }
+
+    return document;
+  }
+
+  /**
+   * Parse a rule written as text, e.g. "p95 < 800ms", "errorRate < 1%" or
+   * "throughput > 50 rps". Times may be given in ms or s; error rates are
+   * always percentages.
+   */
+  parseRule(text: string): SlaRule {
+    const match = text.match(RULE_PATTERN);
+    if (!match) {
+      throw new Error(`Invalid SLA rule "${text}": expected "<metric> <operator> <value>[unit]"`);
+    }
+
+    const [, metricName, operator, valueText, unitText] = match;
+    const metric = this.resolveMetric(metricName);
+    const value = parseFloat(valueText) * this.unitFactor(metric, unitText.toLowerCase(), text);
+
+    return { metric, operator: operator as SlaOperator, value, description: text.trim() };
+  }
+
+  /**
+   * Evaluate an SLA document against a results file, optionally writing a
+   * JUnit XML report with one test case per rule
+   */
+  async evaluate(
+    resultsFile: string,
+    document: SlaDocument,
+    junitFile?: string,
+    scope: SampleScope = 'requests'
+  ): Promise<SlaEvaluationResult> {
+    const analysis = await this.analyzer.analyzeResults(resultsFile, undefined, scope);
+    const evaluation = this.evaluateAnalysis(analysis, document, resultsFile);
+
+    if (junitFile) {
+      await fs.mkdir(path.dirname(junitFile), { recursive: true });
+      await fs.writeFile(junitFile, this.toJUnitXml(evaluation), 'utf-8');
+      evaluation.junitFile = junitFile;
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Evaluate an SLA document against results that were already analyzed
+   */
+  evaluateAnalysis(analysis: AnalysisResult, document: SlaDocument, resultsFile: string): SlaEvaluationResult {
+    const results: SlaRuleResult[] = [];
+
+    for (const rule of (document.global ?? []).map(rule => this.toRule(rule))) {
+      results.push(this.evaluateRule('global', rule, this.summaryMetric(analysis.summary, rule.metric)));
+    }
+
+    for (const [label, rules] of Object.entries(document.labels ?? {})) {
+      // "*" applies the rules to every label in the results
+      const endpoints = label === '*'
+        ? analysis.endpoints
+        : analysis.endpoints.filter(endpoint => endpoint.label === label);
+
+      for (const rule of rules.map(rule => this.toRule(rule))) {
+        if (endpoints.length === 0) {
+          results.push(this.evaluateRule(label, rule, null));
+          continue;
+        }
+        for (const endpoint of endpoints) {
+          results.push(this.evaluateRule(endpoint.label, rule, this.endpointMetric(endpoint, rule.metric)));
+        }
+      }
+    }
+
+    const failedCount = results.filter(result => !result.passed).length;
+    return {
+      name: document.name || 'SLA',
+      resultsFile,
+      passed: failedCount === 0,
+      total: results.length,
+      passedCount: results.length - failedCount,
+      failedCount,
+      results
+    };
+  }
+
+  /**
+   * Render an evaluation as JUnit XML
+   */
+  toJUnitXml(evaluation: SlaEvaluationResult): string {
+    const scopes = [...new Set(evaluation.results.map(result => result.scope))];
+    let xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${this.escapeXml(evaluation.name)}" tests="${evaluation.total}" failures="${evaluation.failedCount}">`;
+
+    for (const scope of scopes) {
+      const cases = evaluation.results.filter(result => result.scope === scope);
+      const failures = cases.filter(result => !result.passed).length;
+
+      xml += `
+  <testsuite name="${this.escapeXml(scope)}" tests="${cases.length}" failures="${failures}">`;
+
+      for (const result of cases) {
+        xml += `
+    <testcase classname="${this.escapeXml(`${evaluation.name}.${scope}`)}" name="${this.escapeXml(result.rule)}">`;
+        if (!result.passed) {
+          xml += `
+      <failure message="${this.escapeXml(result.message)}" type="SlaViolation">${this.escapeXml(result.message)}</failure>`;
+        }
+        xml += `
+      <system-out>${this.escapeXml(result.message)}</system-out>
+    </testcase>`;
+      }
+
+      xml += `
+  </testsuite>`;
+    }
+
+    xml += `
+</testsuites>
+`;
+    return xml;
+  }
+
+  private evaluateRule(scope: string, rule: SlaRule, actual: number | null): SlaRuleResult {
+    const unit = METRIC_UNITS[rule.metric];
+    const text = rule.description || `${rule.metric} ${rule.operator} ${rule.value}${unit}`;
+
+    if (actual === null) {
+      return {
+        scope,
+        rule: text,
+        metric: rule.metric,
+        operator: rule.operator,
+        threshold: rule.value,
+        actual: null,
+        passed: false,
+        message: `No samples found for label "${scope}"`
+      };
+    }
+
+    const passed = this.compare(actual, rule.operator, rule.value);
+    return {
+      scope,
+      rule: text,
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: rule.value,
+      actual,
+      passed,
+      message: `${rule.metric} was ${Number(actual.toFixed(2))}${unit}; required ${rule.operator} ${rule.value}${unit}`
+    };
+  }
+
+  private compare(actual: number, operator: SlaOperator, threshold: number): boolean {
+    switch (operator) {
+      case '<': return actual < threshold;
+      case '<=': return actual <= threshold;
+      case '>': return actual > threshold;
+      case '>=': return actual >= threshold;
+      case '==': return actual === threshold;
+      case '!=': return actual !== threshold;
+    }
+  }
+
+  private summaryMetric(summary: PerformanceMetrics, metric: SlaMetric): number {
+    switch (metric) {
+      case 'average': return summary.averageResponseTime;
+      case 'median': return summary.medianResponseTime;
+      case 'min': return summary.minResponseTime;
+      case 'max': return summary.maxResponseTime;
+      case 'p90': return summary.percentile90;
+      case 'p95': return summary.percentile95;
+      case 'p99': return summary.percentile99;
+      case 'errorRate': return summary.errorRate;
+      case 'throughput': return summary.throughput;
+      case 'samples': return summary.totalRequests;
+      case 'receivedKBPerSec': return summary.receivedKBPerSec;
+      case 'sentKBPerSec': return summary.sentKBPerSec;
+    }
+  }
+
+  private endpointMetric(endpoint: EndpointMetrics, metric: SlaMetric): number {
+    switch (metric) {
+      case 'average': return endpoint.average;
+      case 'median': return endpoint.median;
+      case 'min': return endpoint.min;
+      case 'max': return endpoint.max;
+      case 'p90': return endpoint.percentile90;
+      case 'p95': return endpoint.percentile95;
+      case 'p99': return endpoint.percentile99;
+      case 'errorRate': return endpoint.errorRate;
+      case 'throughput': return endpoint.throughput;
+      case 'samples': return endpoint.samples;
+      case 'receivedKBPerSec': return endpoint.receivedKBPerSec;
+      case 'sentKBPerSec': return endpoint.sentKBPerSec;
+    }
+  }
+
+  private toRule(rule: string | z.infer<typeof ruleSchema>): SlaRule {
+    return typeof rule === 'string'
+      ? this.parseRule(rule)
+      : { ...rule, metric: this.resolveMetric(rule.metric) };
+  }
+
+  private resolveMetric(name: string): SlaMetric {
+    const metric = METRIC_ALIASES[name.toLowerCase()];
+    if (!metric) {
+      throw new Error(`Unknown SLA metric "${name}". Supported: ${[...new Set(Object.values(METRIC_ALIASES))].join(', ')}`);
+    }
+    return metric;
+  }
+
+  /**
+   * Multiplier that converts a value in the given unit to the metric's unit
+   */
+  private unitFactor(metric: SlaMetric, unit: string, rule: string): number {
+    if (!unit) return 1;
+
+    if (TIME_METRICS.includes(metric)) {
+      if (unit === 'ms') return 1;
+      if (unit === 's' || unit === 'sec') return 1000;
+    } else if (metric === 'errorRate') {
+      if (unit === '%') return 1;
+    } else if (metric === 'throughput') {
+      if (['rps', 'tps', 'req/s', '/s'].includes(unit)) return 1;
+      if (['rpm', 'req/min', '/min'].includes(unit)) return 1 / 60;
+    } else if (metric === 'receivedKBPerSec' || metric === 'sentKBPerSec') {
+      if (unit === 'kb/s') return 1;
+    }
+
+    throw new Error(`Invalid unit "${unit}" for metric ${metric} in SLA rule "${rule}"`);
+  }
+
+  /**
+   * Escape XML special characters
+   */
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -0,0 +1,566 @@
+import type {
+  JTLResult,
+  LatencyBin,
+  ResponseCodeCounts,
+  TimeSeriesBucket,
+  TimeSeriesData,
+  TimeSeriesResult
+} from './types.js';
+
+/**
+ * Number of bits of precision kept per power of two. 7 bits gives 128
+ * sub-buckets, i.e. a worst-case relative error below 0.8%.
+ */
+const SUB_BUCKET_BITS = 7;
+const SUB_BUCKET_COUNT = 1 << SUB_BUCKET_BITS;
+
+/**
+ * Values below this are recorded exactly, one bucket per millisecond
+ */
+const EXACT_LIMIT = SUB_BUCKET_COUNT * 2;
+
+/**
+ * Mergeable log-linear histogram of response times in milliseconds
+ * (the HDR histogram layout).
+ *
+ * Memory is bounded by the value range rather than the sample count: about
+ * 3,000 buckets cover everything up to 24 days. Values below 256 ms are exact.
+ * Only non-empty buckets are stored, so the many small histograms kept per
+ * time bucket and label cost a few entries each.
+ */
+export class LatencyHistogram {
+  private counts = new Map<number, number>();
+  private sortedIndexes?: number[];
+  private total = 0;
+
+  get count(): number {
+    return this.total;
+  }
+
+  /**
+   * Record a value, optionally several times
+   */
+  record(value: number, times: number = 1): void {
+    const index = LatencyHistogram.indexOf(value);
+    const current = this.counts.get(index);
+    if (current === undefined) {
+      this.sortedIndexes = undefined;
+    }
+    this.counts.set(index, (current ?? 0) + times);
+    this.total += times;
+  }
+
+  /**
+   * Add all counts from another histogram into this one
+   */
+  merge(other: LatencyHistogram): void {
+    other.forEachBucket((value, count) => this.record(value, count));
+  }
+
+  /**
+   * Nearest-rank percentile (0-100). Returns the midpoint of the bucket that
+   * holds the requested rank.
+   */
+  percentile(percentile: number): number {
+    if (this.total === 0) return 0;
+
+    const rank = Math.max(1, Math.ceil((percentile / 100) * this.total));
+    const indexes = this.indexes();
+    let seen = 0;
+
+    for (const index of indexes) {
+      seen += this.counts.get(index)!;
+      if (seen >= rank) {
+        return LatencyHistogram.valueOf(index);
+      }
+    }
+
+    return LatencyHistogram.valueOf(indexes[indexes.length - 1]);
+  }
+
+  /**
+   * Visit every non-empty bucket in ascending value order
+   */
+  forEachBucket(callback: (value: number, count: number) => void): void {
+    for (const index of this.indexes()) {
+      callback(LatencyHistogram.valueOf(index), this.counts.get(index)!);
+    }
+  }
+
+  /**
+   * Non-empty bucket indexes in ascending order, sorted once per change
+   */
+  private indexes(): number[] {
+    if (!this.sortedIndexes) {
+      this.sortedIndexes = [...this.counts.keys()].sort((a, b) => a - b);
+    }
+    return this.sortedIndexes;
+  }
+
+  private static indexOf(value: number): number {
+    const v = Math.max(0, Math.round(value));
+    if (v < EXACT_LIMIT) return v;
+
+    const magnitude = Math.floor(Math.log2(v));
+    const shift = magnitude - SUB_BUCKET_BITS;
+    const subBucket = Math.floor(v / 2 ** shift);
+    return EXACT_LIMIT + (shift - 1) * SUB_BUCKET_COUNT + (subBucket - SUB_BUCKET_COUNT);
+  }
+
+  private static valueOf(index: number): number {
+    if (index < EXACT_LIMIT) return index;
+
+    const offset = index - EXACT_LIMIT;
+    const shift = Math.floor(offset / SUB_BUCKET_COUNT) + 1;
+    const subBucket = (offset % SUB_BUCKET_COUNT) + SUB_BUCKET_COUNT;
+    const lower = subBucket * 2 ** shift;
+    return lower + (2 ** shift - 1) / 2;
+  }
+}
+
+/**
+ * Running totals for a set of samples. Constant memory regardless of how many
+ * samples are added.
+ */
+export class SampleAccumulator {
+  count = 0;
+  successes = 0;
+  elapsedSum = 0;
+  minElapsed = Infinity;
+  maxElapsed = -Infinity;
+  firstTimestamp = Infinity;
+  lastTimestamp = -Infinity;
+  bytes = 0;
+  sentBytes = 0;
+  latencySum = 0;
+  connectSum = 0;
+  readonly histogram = new LatencyHistogram();
+
+  get failures(): number {
+    return this.count - this.successes;
+  }
+
+  /**
+   * Time between the first and last sample start, in seconds
+   */
+  get durationSeconds(): number {
+    return this.count > 0 ? (this.lastTimestamp - this.firstTimestamp) / 1000 : 0;
+  }
+
+  add(result: JTLResult): void {
+    this.count++;
+    if (result.success) this.successes++;
+    this.elapsedSum += result.elapsed;
+    this.minElapsed = Math.min(this.minElapsed, result.elapsed);
+    this.maxElapsed = Math.max(this.maxElapsed, result.elapsed);
+    this.firstTimestamp = Math.min(this.firstTimestamp, result.timestamp);
+    this.lastTimestamp = Math.max(this.lastTimestamp, result.timestamp);
+    this.bytes += result.bytes;
+    this.sentBytes += result.sentBytes;
+    this.latencySum += result.latency;
+    this.connectSum += result.connect;
+    this.histogram.record(result.elapsed);
+  }
+
+  merge(other: SampleAccumulator): void {
+    this.count += other.count;
+    this.successes += other.successes;
+    this.elapsedSum += other.elapsedSum;
+    this.minElapsed = Math.min(this.minElapsed, other.minElapsed);
+    this.maxElapsed = Math.max(this.maxElapsed, other.maxElapsed);
+    this.firstTimestamp = Math.min(this.firstTimestamp, other.firstTimestamp);
+    this.lastTimestamp = Math.max(this.lastTimestamp, other.lastTimestamp);
+    this.bytes += other.bytes;
+    this.sentBytes += other.sentBytes;
+    this.latencySum += other.latencySum;
+    this.connectSum += other.connectSum;
+    this.histogram.merge(other.histogram);
+  }
+
+  /**
+   * Percentile clamped to the observed min/max, so bucket midpoints never
+   * fall outside the real range
+   */
+  percentile(percentile: number): number {
+    if (this.count === 0) return 0;
+    const value = this.histogram.percentile(percentile);
+    return Math.min(this.maxElapsed, Math.max(this.minElapsed, value));
+  }
+}
+
+/**
+ * Failed samples grouped by response code and message
+ */
+export interface ErrorGroup {
+  responseCode: string;
+  responseMessage: string;
+  count: number;
+  labels: Set<string>;
+}
+
+interface TimeBucket {
+  count: number;
+  elapsedSum: number;
+  errors: number;
+  maxThreads: number;
+}
+
+/**
+ * Fixed-interval time buckets aligned to the epoch, filled in one pass
+ */
+export class TimeSeriesAccumulator {
+  private buckets = new Map<number, TimeBucket>();
+
+  constructor(readonly intervalMs: number = 10000) {}
+
+  add(result: JTLResult): void {
+    const start = Math.floor(result.timestamp / this.intervalMs) * this.intervalMs;
+    let bucket = this.buckets.get(start);
+    if (!bucket) {
+      bucket = { count: 0, elapsedSum: 0, errors: 0, maxThreads: 0 };
+      this.buckets.set(start, bucket);
+    }
+
+    bucket.count++;
+    bucket.elapsedSum += result.elapsed;
+    if (!result.success) bucket.errors++;
+    bucket.maxThreads = Math.max(bucket.maxThreads, result.allThreads);
+  }
+
+  toTimeSeries(): TimeSeriesData[] {
+    return [...this.buckets.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([timestamp, bucket]) => ({
+        timestamp,
+        responseTime: bucket.elapsedSum / bucket.count,
+        throughput: bucket.count / (this.intervalMs / 1000),
+        activeThreads: bucket.maxThreads,
+        errorCount: bucket.errors
+      }));
+  }
+}
+
+interface DetailedTimeBucket {
+  samples: SampleAccumulator;
+  responseCodes: Map<string, ResponseCodeCounts>;
+  maxThreads: number;
+}
+
+/**
+ * Upper bound on time buckets held at once, overall and per label together.
+ * Past it the bucket size is doubled until the series fits again.
+ */
+export const MAX_TIME_SERIES_BUCKETS = 20000;
+
+/**
+ * Time buckets with full per-bucket statistics (percentiles, response codes,
+ * bytes), overall and optionally per label, filled in one pass. Each bucket
+ * holds a sparse histogram, and the bucket count is capped at
+ * MAX_TIME_SERIES_BUCKETS by widening the buckets, so memory stays bounded
+ * however long the run and however many labels it has. The result reports
+ * the bucket size actually used.
+ */
+export class DetailedTimeSeriesAccumulator {
+  private overall = new Map<number, DetailedTimeBucket>();
+  private labels = new Map<string, Map<number, DetailedTimeBucket>>();
+  private labelFilter?: Set<string>;
+  private bucketCount = 0;
+  readonly histogram = new LatencyHistogram();
+
+  constructor(public intervalMs: number = 10000, private byLabel: boolean = false, labels?: string[]) {
+    if (labels?.length) {
+      this.labelFilter = new Set(labels);
+    }
+  }
+
+  add(result: JTLResult): void {
+    if (this.labelFilter && !this.labelFilter.has(result.label)) return;
+
+    const start = Math.floor(result.timestamp / this.intervalMs) * this.intervalMs;
+    this.addTo(this.overall, start, result);
+    this.histogram.record(result.elapsed);
+
+    if (this.byLabel) {
+      let buckets = this.labels.get(result.label);
+      if (!buckets) {
+        buckets = new Map();
+        this.labels.set(result.label, buckets);
+      }
+      this.addTo(buckets, start, result);
+    }
+
+    while (this.bucketCount > MAX_TIME_SERIES_BUCKETS) {
+      this.coarsen();
+    }
+  }
+
+  toResult(): TimeSeriesResult {
+    const overall = this.toBuckets(this.overall);
+    const result: TimeSeriesResult = {
+      intervalMs: this.intervalMs,
+      start: overall.length > 0 ? overall[0].timestamp : 0,
+      end: overall.length > 0 ? overall[overall.length - 1].timestamp + this.intervalMs : 0,
+      overall
+    };
+
+    if (this.byLabel) {
+      result.labels = {};
+      for (const label of [...this.labels.keys()].sort()) {
+        result.labels[label] = this.toBuckets(this.labels.get(label)!);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Double the bucket size and merge neighbouring buckets. Buckets stay
+   * aligned to the epoch, so each old bucket falls into exactly one new one.
+   */
+  private coarsen(): void {
+    this.intervalMs *= 2;
+    this.bucketCount = 0;
+    this.overall = this.merge(this.overall);
+    for (const [label, buckets] of this.labels) {
+      this.labels.set(label, this.merge(buckets));
+    }
+  }
+
+  private merge(buckets: Map<number, DetailedTimeBucket>): Map<number, DetailedTimeBucket> {
+    const merged = new Map<number, DetailedTimeBucket>();
+    for (const [start, bucket] of buckets) {
+      const mergedStart = Math.floor(start / this.intervalMs) * this.intervalMs;
+      const target = merged.get(mergedStart);
+      if (!target) {
+        merged.set(mergedStart, bucket);
+        this.bucketCount++;
+        continue;
+      }
+
+      target.samples.merge(bucket.samples);
+      target.maxThreads = Math.max(target.maxThreads, bucket.maxThreads);
+      for (const [code, counts] of bucket.responseCodes) {
+        const targetCounts = target.responseCodes.get(code);
+        if (targetCounts) {
+          targetCounts.success += counts.success;
+          targetCounts.error += counts.error;
+        } else {
+          target.responseCodes.set(code, counts);
+        }
+      }
+    }
+    return merged;
+  }
+
+  private addTo(buckets: Map<number, DetailedTimeBucket>, start: number, result: JTLResult): void {
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = { samples: new SampleAccumulator(), responseCodes: new Map(), maxThreads: 0 };
+      buckets.set(start, bucket);
+      this.bucketCount++;
+    }
+
+    bucket.samples.add(result);
+    bucket.maxThreads = Math.max(bucket.maxThreads, result.allThreads);
+
+    let codes = bucket.responseCodes.get(result.responseCode);
+    if (!codes) {
+      codes = { success: 0, error: 0 };
+      bucket.responseCodes.set(result.responseCode, codes);
+    }
+    if (result.success) {
+      codes.success++;
+    } else {
+      codes.error++;
+    }
+  }
+
+  private toBuckets(buckets: Map<number, DetailedTimeBucket>): TimeSeriesBucket[] {
+    return [...buckets.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([timestamp, { samples, responseCodes, maxThreads }]) => ({
+        timestamp,
+        count: samples.count,
+        successes: samples.successes,
+        errors: samples.failures,
+        throughput: samples.count / (this.intervalMs / 1000),
+        averageResponseTime: samples.elapsedSum / samples.count,
+        minResponseTime: samples.minElapsed,
+        maxResponseTime: samples.maxElapsed,
+        medianResponseTime: samples.percentile(50),
+        percentile90: samples.percentile(90),
+        percentile95: samples.percentile(95),
+        percentile99: samples.percentile(99),
+        responseCodes: Object.fromEntries(
+          [...responseCodes.entries()].sort(([a], [b]) => a.localeCompare(b))
+        ),
+        receivedBytes: samples.bytes,
+        sentBytes: samples.sentBytes,
+        activeThreads: maxThreads
+      }));
+  }
+}
+
+/**
+ * Regroup a histogram into equal-width bins from 0 to the 99th percentile.
+ * Slower samples are counted in the last bin so a few outliers do not squash
+ * the rest of the distribution.
+ */
+export function latencyBins(histogram: LatencyHistogram, binCount: number = 20): LatencyBin[] {
+  if (histogram.count === 0) return [];
+
+  const limit = Math.max(1, histogram.percentile(99));
+  const width = Math.max(1, Math.ceil(limit / binCount));
+  const bins: LatencyBin[] = Array.from({ length: binCount }, (_, i) => ({
+    from: i * width,
+    to: (i + 1) * width,
+    count: 0
+  }));
+
+  histogram.forEachBucket((value, count) => {
+    bins[Math.min(binCount - 1, Math.floor(value / width))].count += count;
+  });
+
+  return bins;
+}
+
+/**
+ * Everything the analyzer needs from a results file, gathered in a single
+ * pass: overall and per-label totals, error groups and time buckets
+ */
+export class ResultsAggregate {
+  readonly overall = new SampleAccumulator();
+  readonly endpoints = new Map<string, SampleAccumulator>();
+  readonly errors = new Map<string, ErrorGroup>();
+  readonly timeSeries: TimeSeriesAccumulator;
+
+  constructor(intervalMs: number = 10000) {
+    this.timeSeries = new TimeSeriesAccumulator(intervalMs);
+  }
+
+  add(result: JTLResult): void {
+    this.overall.add(result);
+
+    let endpoint = this.endpoints.get(result.label);
+    if (!endpoint) {
+      endpoint = new SampleAccumulator();
+      this.endpoints.set(result.label, endpoint);
+    }
+    endpoint.add(result);
+
+    if (!result.success) {
+      const key = `${result.responseCode}-${result.responseMessage}`;
+      let group = this.errors.get(key);
+      if (!group) {
+        group = {
+          responseCode: result.responseCode,
+          responseMessage: result.responseMessage,
+          count: 0,
+          labels: new Set()
+        };
+        this.errors.set(key, group);
+      }
+      group.count++;
+      group.labels.add(result.label);
+    }
+
+    this.timeSeries.add(result);
+  }
+}
+
+/**
+ * Result of a two-sided significance test
+ */
+export interface SignificanceTest {
+  statistic: number;
+  z: number;
+  pValue: number;
+}
+
+/**
+ * Mann-Whitney U test on two histograms, using the normal approximation with
+ * tie correction. Values sharing a bucket count as ties, so the test runs in
+ * memory proportional to the number of buckets rather than samples.
+ *
+ * A positive z means values in `a` tend to be larger than values in `b`.
+ */
+export function mannWhitneyU(a: LatencyHistogram, b: LatencyHistogram): SignificanceTest | undefined {
+  const n1 = a.count;
+  const n2 = b.count;
+  if (n1 === 0 || n2 === 0) return undefined;
+
+  const counts = new Map<number, [number, number]>();
+  a.forEachBucket((value, count) => counts.set(value, [count, 0]));
+  b.forEachBucket((value, count) => {
+    const entry = counts.get(value);
+    if (entry) {
+      entry[1] = count;
+    } else {
+      counts.set(value, [0, count]);
+    }
+  });
+
+  const n = n1 + n2;
+  let rankSumA = 0;
+  let ranked = 0;
+  let tieCorrection = 0;
+
+  for (const value of [...counts.keys()].sort((x, y) => x - y)) {
+    const [countA, countB] = counts.get(value)!;
+    const ties = countA + countB;
+    const averageRank = ranked + (ties + 1) / 2;
+    rankSumA += countA * averageRank;
+    tieCorrection += ties ** 3 - ties;
+    ranked += ties;
+  }
+
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+  const mean = (n1 * n2) / 2;
+  const variance = ((n1 * n2) / 12) * (n + 1 - tieCorrection / (n * (n - 1) || 1));
+  if (variance <= 0) {
+    return { statistic: u, z: 0, pValue: 1 };
+  }
+
+  // Continuity correction towards the mean
+  const difference = u - mean;
+  const z = (difference - Math.sign(difference) * 0.5) / Math.sqrt(variance);
+  return { statistic: u, z, pValue: twoSidedPValue(z) };
+}
+
+/**
+ * Two-proportion z-test, e.g. for comparing error rates.
+ * A positive z means the rate in `a` is higher than in `b`.
+ */
+export function twoProportionZTest(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number
+): SignificanceTest | undefined {
+  if (totalA === 0 || totalB === 0) return undefined;
+
+  const rateA = successesA / totalA;
+  const rateB = successesB / totalB;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) {
+    return { statistic: rateA - rateB, z: 0, pValue: rateA === rateB ? 1 : 0 };
+  }
+
+  const z = (rateA - rateB) / standardError;
+  return { statistic: rateA - rateB, z, pValue: twoSidedPValue(z) };
+}
+
+function twoSidedPValue(z: number): number {
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 +
+    t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
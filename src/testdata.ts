@@ -0,0 +1,169 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { CsvDataSet, TestDataColumn, TestDataOptions } from './types.js';
+
+const FIRST_NAMES = [
+  'james', 'mary', 'john', 'patricia', 'robert', 'jennifer', 'michael', 'linda', 'david', 'elizabeth',
+  'william', 'susan', 'richard', 'jessica', 'joseph', 'sarah', 'thomas', 'karen', 'carlos', 'maria',
+  'wei', 'mei', 'arjun', 'priya', 'ahmed', 'fatima', 'lukas', 'sofia', 'kenji', 'yuki'
+];
+
+const LAST_NAMES = [
+  'smith', 'johnson', 'williams', 'brown', 'jones', 'garcia', 'miller', 'davis', 'rodriguez', 'martinez',
+  'hernandez', 'lopez', 'wilson', 'anderson', 'taylor', 'moore', 'martin', 'lee', 'thompson', 'white',
+  'chen', 'wang', 'patel', 'sharma', 'khan', 'ali', 'muller', 'schmidt', 'rossi', 'tanaka'
+];
+
+/**
+ * Reserved example domains, so generated addresses never reach a real mailbox
+ */
+const DEFAULT_EMAIL_DOMAINS = ['example.com', 'example.org', 'example.net'];
+
+const PREVIEW_ROWS = 5;
+
+/**
+ * Writes CSV files of generated test data for CSV Data Set Config elements
+ */
+export class TestDataGenerator {
+  /**
+   * Generate the rows and write them to a CSV file. The same seed always
+   * produces the same file.
+   */
+  async generate(options: TestDataOptions): Promise<{
+    success: boolean;
+    message: string;
+    filePath: string;
+    rows: number;
+    seed: number;
+    preview: string[][];
+    csvDataSet: CsvDataSet;
+  }> {
+    const delimiter = options.delimiter ?? ',';
+    const header = options.header ?? true;
+    const seed = options.seed ?? Date.now() % 2 ** 32;
+    this.validateColumns(options.columns, delimiter);
+
+    const random = createRandom(seed);
+    const rows: string[][] = [];
+    for (let row = 0; row < options.rows; row++) {
+      rows.push(options.columns.map(column => this.generateValue(column, row, random)));
+    }
+
+    let quotedData = false;
+    const formatLine = (values: string[]) => values.map(value => {
+      const quoted = this.quote(value, delimiter);
+      if (quoted !== value) quotedData = true;
+      return quoted;
+    }).join(delimiter);
+
+    const lines = rows.map(formatLine);
+    if (header) {
+      lines.unshift(formatLine(options.columns.map(column => column.name)));
+    }
+
+    await fs.mkdir(path.dirname(options.outputPath), { recursive: true });
+    await fs.writeFile(options.outputPath, lines.join('\n') + '\n', 'utf-8');
+
+    return {
+      success: true,
+      message: `Wrote ${rows.length} rows to ${options.outputPath}`,
+      filePath: options.outputPath,
+      rows: rows.length,
+      seed,
+      preview: rows.slice(0, PREVIEW_ROWS),
+      csvDataSet: {
+        filename: options.outputPath,
+        variableNames: options.columns.map(column => column.name),
+        delimiter,
+        ignoreFirstLine: header,
+        quotedData
+      }
+    };
+  }
+
+  private validateColumns(columns: TestDataColumn[], delimiter: string): void {
+    const seen = new Set<string>();
+    for (const column of columns) {
+      if (seen.has(column.name)) {
+        throw new Error(`Duplicate column name "${column.name}"`);
+      }
+      if (column.name.includes(delimiter)) {
+        throw new Error(`Column name "${column.name}" contains the delimiter`);
+      }
+      seen.add(column.name);
+
+      if (column.type === 'randomInt' && column.min > column.max) {
+        throw new Error(`Column "${column.name}": min (${column.min}) is greater than max (${column.max})`);
+      }
+      if (column.type === 'list' && column.values.length === 0) {
+        throw new Error(`Column "${column.name}": values must not be empty`);
+      }
+    }
+  }
+
+  /**
+   * Generate the value of one column for a zero-based row number
+   */
+  private generateValue(column: TestDataColumn, row: number, random: () => number): string {
+    switch (column.type) {
+      case 'sequence': {
+        const value = String((column.start ?? 1) + row * (column.step ?? 1));
+        return (column.prefix ?? '') + value.padStart(column.padding ?? 0, '0');
+      }
+      case 'randomInt':
+        return String(column.min + Math.floor(random() * (column.max - column.min + 1)));
+      case 'uuid':
+        return this.uuid(random);
+      case 'list':
+        return column.order === 'cycle'
+          ? column.values[row % column.values.length]
+          : pick(column.values, random);
+      case 'email': {
+        // The row number keeps every address unique
+        const first = pick(FIRST_NAMES, random);
+        const last = pick(LAST_NAMES, random);
+        const domain = pick(column.domains?.length ? column.domains : DEFAULT_EMAIL_DOMAINS, random);
+        return `${first}.${last}${row + 1}@${domain}`;
+      }
+    }
+  }
+
+  /**
+   * Version 4 UUID built from the seeded generator
+   */
+  private uuid(random: () => number): string {
+    const bytes = Array.from({ length: 16 }, () => Math.floor(random() * 256));
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+
+  /**
+   * Quote a value containing the delimiter, quotes or line breaks
+   */
+  private quote(value: string, delimiter: string): string {
+    if (!value.includes(delimiter) && !/["\r\n]/.test(value)) {
+      return value;
+    }
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+}
+
+function pick<T>(values: T[], random: () => number): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+/**
+ * Mulberry32: a small, fast generator that is deterministic for a given seed
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
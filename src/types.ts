@@ -24,30 +24,299 @@ export interface TestExecutionOptions {
   nonProxyHosts?: string;
 }
 
+export type TestRunKind = 'test' | 'distributed' | 'gui';
+
+export type TestRunStatus = 'running' | 'stopping' | 'finished' | 'failed' | 'stopped';
+
+export type TestStopMode = 'shutdown' | 'stoptest' | 'kill';
+
+export interface TestRunInfo {
+  runId: string;
+  kind: TestRunKind;
+  status: TestRunStatus;
+  pid?: number;
+  testPlan?: string;
+  resultsFile?: string;
+  startedAt: number;
+  endedAt?: number;
+  elapsedSeconds: number;
+  exitCode?: number | null;
+  signal?: string;
+  shutdownPort?: number;
+  stopRequested?: TestStopMode;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD';
+
 export interface TestCreationOptions {
   name: string;
   threads: number;
   rampUp: number;
   duration: number;
-  endpoint: string;
-  method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  endpoint?: string;
+  method?: HttpMethod;
   headers?: Record<string, string>;
   body?: string;
   assertions?: Assertion[];
   listeners?: Listener[];
+  steps?: ScenarioStep[];
+  thinkTime?: ThinkTime;
+  variables?: Record<string, string>;
+  csvDataSets?: CsvDataSet[];
+  loadProfile?: LoadProfile;
+  timers?: Timer[];
+  authorization?: HttpAuthorization[];
+  oauth2?: OAuth2ClientCredentials;
+  cookieManager?: boolean;
+  cacheManager?: boolean;
+}
+
+export interface HttpAuthorization {
+  url?: string;
+  username: string;
+  password: string;
+  mechanism?: 'basic' | 'digest';
+  domain?: string;
+  realm?: string;
+}
+
+export interface OAuth2ClientCredentials {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  clientAuthentication?: 'body' | 'basic';
+  tokenPath?: string;
+  property?: string;
+}
+
+export interface LoadStage {
+  duration: number;
+  users?: number;
+  rps?: number;
+  rampUp?: number;
+}
+
+export interface LoadProfile {
+  stages: LoadStage[];
+  throughputTimer?: 'precise' | 'constant';
+}
+
+export type CsvShareMode = 'all' | 'group' | 'thread';
+
+export interface CsvDataSet {
+  filename: string;
+  variableNames: string[];
+  delimiter?: string;
+  encoding?: string;
+  ignoreFirstLine?: boolean;
+  quotedData?: boolean;
+  recycle?: boolean;
+  stopThread?: boolean;
+  shareMode?: CsvShareMode;
+  name?: string;
+}
+
+export interface SequenceColumn {
+  name: string;
+  type: 'sequence';
+  start?: number;
+  step?: number;
+  prefix?: string;
+  padding?: number;
+}
+
+export interface RandomIntColumn {
+  name: string;
+  type: 'randomInt';
+  min: number;
+  max: number;
+}
+
+export interface UuidColumn {
+  name: string;
+  type: 'uuid';
+}
+
+export interface ListColumn {
+  name: string;
+  type: 'list';
+  values: string[];
+  order?: 'random' | 'cycle';
+}
+
+export interface EmailColumn {
+  name: string;
+  type: 'email';
+  domains?: string[];
+}
+
+export type TestDataColumn = SequenceColumn | RandomIntColumn | UuidColumn | ListColumn | EmailColumn;
+
+export interface TestDataOptions {
+  outputPath: string;
+  rows: number;
+  columns: TestDataColumn[];
+  delimiter?: string;
+  header?: boolean;
+  seed?: number;
+}
+
+export interface HttpStep {
+  name?: string;
+  method?: HttpMethod;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+  assertions?: Assertion[];
+  extractors?: Extractor[];
+  timers?: Timer[];
+  thinkTime?: ThinkTime;
+}
+
+export interface GraphQLRequest {
+  query: string;
+  operationName?: string;
+  variables?: Record<string, unknown>;
+  assertNoErrors?: boolean;
+}
+
+export interface GraphQLStep {
+  name?: string;
+  url: string;
+  graphql: GraphQLRequest;
+  headers?: Record<string, string>;
+  assertions?: Assertion[];
+  extractors?: Extractor[];
+  timers?: Timer[];
+  thinkTime?: ThinkTime;
+}
+
+export type RequestStep = HttpStep | GraphQLStep;
+
+export interface TransactionStep {
+  transaction: string;
+  steps: RequestStep[];
+  includeTimers?: boolean;
+}
+
+export type ScenarioStep = RequestStep | TransactionStep;
+
+export type ExtractorSource = 'body' | 'headers' | 'url' | 'code';
+
+export interface JsonExtractor {
+  type: 'json';
+  variable: string;
+  expression: string;
+  matchNumber?: number;
+  defaultValue?: string;
+  name?: string;
+}
+
+export interface RegexExtractor {
+  type: 'regex';
+  variable: string;
+  expression: string;
+  template?: string;
+  source?: ExtractorSource;
+  matchNumber?: number;
+  defaultValue?: string;
+  name?: string;
+}
+
+export interface BoundaryExtractor {
+  type: 'boundary';
+  variable: string;
+  left: string;
+  right: string;
+  source?: ExtractorSource;
+  matchNumber?: number;
+  defaultValue?: string;
+  name?: string;
+}
+
+export type Extractor = JsonExtractor | RegexExtractor | BoundaryExtractor;
+
+export interface ConstantTimer {
+  type: 'constant';
+  delayMs: number;
+  name?: string;
+}
+
+export interface UniformRandomTimer {
+  type: 'uniform';
+  delayMs: number;
+  randomMs: number;
+  name?: string;
+}
+
+export interface GaussianRandomTimer {
+  type: 'gaussian';
+  delayMs: number;
+  deviationMs: number;
+  name?: string;
+}
+
+export interface ConstantThroughputTimer {
+  type: 'constantThroughput';
+  rps: number;
+  perThread?: boolean;
+  name?: string;
 }
 
+export interface PreciseThroughputTimer {
+  type: 'preciseThroughput';
+  rps: number;
+  durationSeconds?: number;
+  name?: string;
+}
+
+export type Timer =
+  | ConstantTimer
+  | UniformRandomTimer
+  | GaussianRandomTimer
+  | ConstantThroughputTimer
+  | PreciseThroughputTimer;
+
+export interface ThinkTime {
+  delayMs: number;
+  randomMs?: number;
+}
+
+export type AssertionOperator = 'equals' | 'contains' | 'matches' | 'greaterThan' | 'lessThan';
+
 export interface Assertion {
-  type: 'response' | 'duration' | 'size';
-  value: string | number;
-  operator?: 'equals' | 'contains' | 'matches' | 'greaterThan' | 'lessThan';
+  type: 'response' | 'code' | 'header' | 'json' | 'xpath' | 'duration' | 'size';
+  value?: string | number;
+  operator?: AssertionOperator;
+  not?: boolean;
+  path?: string;
+  header?: string;
+  name?: string;
 }
 
 export interface Listener {
-  type: 'results-tree' | 'summary' | 'aggregate' | 'graph';
+  type: 'results-tree' | 'summary' | 'aggregate' | 'graph' | 'backend';
   filename?: string;
+  backend?: BackendListenerOptions;
+}
+
+export interface BackendListenerOptions {
+  type: 'influxdb' | 'graphite';
+  url: string;
+  application?: string;
+  measurement?: string;
+  percentiles?: number[];
+  samplersRegex?: string;
+  summaryOnly?: boolean;
+  token?: string;
+  testTitle?: string;
 }
 
+export type SampleKind = 'transaction' | 'request' | 'subresult';
+
+export type SampleScope = 'requests' | 'transactions' | 'all';
+
 export interface JTLResult {
   timestamp: number;
   elapsed: number;
@@ -65,6 +334,9 @@ export interface JTLResult {
   latency: number;
   idleTime: number;
   connect: number;
+  kind: SampleKind;
+  depth: number;
+  parentLabel?: string;
 }
 
 export interface PerformanceMetrics {
@@ -130,6 +402,25 @@ export interface Bottleneck {
   threshold: number;
 }
 
+export type BottleneckSeverity = Bottleneck['severity'];
+
+export type SeverityBands = Partial<Record<BottleneckSeverity, number>>;
+
+export interface ThresholdSet {
+  averageResponseTime?: SeverityBands;
+  percentile95?: SeverityBands;
+  errorRate?: SeverityBands;
+  throughput?: SeverityBands;
+}
+
+export interface BottleneckProfile {
+  name: string;
+  description?: string;
+  endpoint: ThresholdSet;
+  overall: ThresholdSet;
+  labels?: Record<string, ThresholdSet>;
+}
+
 export interface TimeSeriesData {
   timestamp: number;
   responseTime: number;
@@ -138,6 +429,106 @@ export interface TimeSeriesData {
   errorCount: number;
 }
 
+export interface TimeSeriesOptions {
+  intervalMs?: number;
+  scope?: SampleScope;
+  byLabel?: boolean;
+  labels?: string[];
+}
+
+export interface ResponseCodeCounts {
+  success: number;
+  error: number;
+}
+
+export interface TimeSeriesBucket {
+  timestamp: number;
+  count: number;
+  successes: number;
+  errors: number;
+  throughput: number;
+  averageResponseTime: number;
+  minResponseTime: number;
+  maxResponseTime: number;
+  medianResponseTime: number;
+  percentile90: number;
+  percentile95: number;
+  percentile99: number;
+  responseCodes: Record<string, ResponseCodeCounts>;
+  receivedBytes: number;
+  sentBytes: number;
+  activeThreads: number;
+}
+
+export interface TimeSeriesResult {
+  intervalMs: number;
+  start: number;
+  end: number;
+  overall: TimeSeriesBucket[];
+  labels?: Record<string, TimeSeriesBucket[]>;
+}
+
+export interface LatencyBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ChartData {
+  timeSeries: TimeSeriesResult;
+  latencyDistribution: LatencyBin[];
+}
+
+export type ChartKind = 'response-times' | 'throughput' | 'errors' | 'latency-histogram';
+
+export interface ChartOptions {
+  charts?: ChartKind[];
+  width?: number;
+  height?: number;
+}
+
+export interface RenderedChart {
+  kind: ChartKind;
+  title: string;
+  svg: string;
+}
+
+export type SummaryReportFormat = 'html' | 'markdown';
+
+export interface SummaryReportInput {
+  title: string;
+  resultsFile: string;
+  profile: string;
+  scope?: SampleScope;
+  analysis: AnalysisResult;
+  charts?: RenderedChart[];
+  sla?: SlaEvaluationResult;
+}
+
+export type AnalysisExportFormat = 'csv' | 'markdown' | 'json';
+
+export interface AnalysisExportOptions {
+  outputDir: string;
+  baseName: string;
+  formats: AnalysisExportFormat[];
+  includeSchema?: boolean;
+}
+
+export interface AnalysisExportDocument {
+  $schema: string;
+  schemaVersion: string;
+  generatedAt: string;
+  resultsFile: string;
+  profile: string;
+  scope?: SampleScope;
+  summary: PerformanceMetrics;
+  endpoints: EndpointMetrics[];
+  errors: ErrorAnalysis[];
+  bottlenecks: Bottleneck[];
+  recommendations: string[];
+  timeSeries: TimeSeriesData[];
+}
+
 export interface ReportGenerationOptions {
   resultsFile: string;
   outputDir: string;
@@ -160,3 +551,297 @@ export interface DistributedTestConfig {
   startRemoteServers?: boolean;
   stopRemoteServers?: boolean;
 }
+
+export interface ComparisonTolerances {
+  responseTimePercent: number;
+  errorRatePoints: number;
+  throughputPercent: number;
+  significanceLevel: number;
+  minSamples: number;
+}
+
+export type ComparisonVerdict = 'regression' | 'improvement' | 'unchanged';
+
+export interface MetricDelta {
+  baseline: number;
+  candidate: number;
+  delta: number;
+  deltaPercent: number | null;
+}
+
+export interface LabelComparison {
+  label: string;
+  baselineSamples: number;
+  candidateSamples: number;
+  average: MetricDelta;
+  percentile90: MetricDelta;
+  percentile95: MetricDelta;
+  percentile99: MetricDelta;
+  errorRate: MetricDelta;
+  throughput: MetricDelta;
+  responseTimePValue: number | null;
+  errorRatePValue: number | null;
+  verdict: ComparisonVerdict;
+  reasons: string[];
+}
+
+export interface ComparisonResult {
+  baselineFile: string;
+  candidateFile: string;
+  tolerances: ComparisonTolerances;
+  verdict: ComparisonVerdict;
+  overall: LabelComparison;
+  labels: LabelComparison[];
+  missingInCandidate: string[];
+  newInCandidate: string[];
+  counts: Record<ComparisonVerdict, number>;
+}
+
+export type SlaMetric =
+  | 'average'
+  | 'median'
+  | 'min'
+  | 'max'
+  | 'p90'
+  | 'p95'
+  | 'p99'
+  | 'errorRate'
+  | 'throughput'
+  | 'samples'
+  | 'receivedKBPerSec'
+  | 'sentKBPerSec';
+
+export type SlaOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+export interface SlaRule {
+  metric: SlaMetric;
+  operator: SlaOperator;
+  value: number;
+  description?: string;
+}
+
+export interface SlaDocument {
+  name?: string;
+  global?: Array<SlaRule | string>;
+  labels?: Record<string, Array<SlaRule | string>>;
+}
+
+export interface SlaRuleResult {
+  scope: string;
+  rule: string;
+  metric: SlaMetric;
+  operator: SlaOperator;
+  threshold: number;
+  actual: number | null;
+  passed: boolean;
+  message: string;
+}
+
+export interface SlaEvaluationResult {
+  name: string;
+  resultsFile: string;
+  passed: boolean;
+  total: number;
+  passedCount: number;
+  failedCount: number;
+  results: SlaRuleResult[];
+  junitFile?: string;
+}
+
+export interface OpenApiImportOptions {
+  specFile: string;
+  outputPath: string;
+  name?: string;
+  baseUrl?: string;
+  threads: number;
+  rampUp: number;
+  duration: number;
+  includeTags?: string[];
+  excludeTags?: string[];
+  includeOperations?: string[];
+  excludeOperations?: string[];
+  groupByTag?: boolean;
+  headers?: Record<string, string>;
+  thinkTime?: ThinkTime;
+}
+
+export interface HarImportOptions {
+  harFile: string;
+  outputPath: string;
+  name?: string;
+  threads: number;
+  rampUp: number;
+  duration: number;
+  excludePattern?: string;
+  groupByPage?: boolean;
+  minThinkTimeMs?: number;
+  maxThinkTimeMs?: number;
+  headers?: Record<string, string>;
+}
+
+export interface CurlImportOptions {
+  commands: string[];
+  outputPath: string;
+  name?: string;
+  threads: number;
+  rampUp: number;
+  duration: number;
+  thinkTime?: ThinkTime;
+}
+
+export interface PostmanImportOptions {
+  collectionFile: string;
+  environmentFile?: string;
+  outputPath: string;
+  name?: string;
+  threads: number;
+  rampUp: number;
+  duration: number;
+  variables?: Record<string, string>;
+  thinkTime?: ThinkTime;
+}
+
+export type JmxElementKind =
+  | 'testPlan'
+  | 'threadGroup'
+  | 'sampler'
+  | 'controller'
+  | 'config'
+  | 'extractor'
+  | 'processor'
+  | 'assertion'
+  | 'timer'
+  | 'listener'
+  | 'other';
+
+export interface JmxElement {
+  tag: string;
+  kind: JmxElementKind;
+  name: string;
+  enabled: boolean;
+  guiclass?: string;
+  path: string[];
+  properties: Record<string, string>;
+  collections: Record<string, Array<Record<string, string>>>;
+  children: JmxElement[];
+}
+
+export interface JmxElementOutline {
+  kind: JmxElementKind;
+  type: string;
+  name: string;
+  enabled: boolean;
+  path: string;
+  details: Record<string, unknown>;
+  children?: JmxElementOutline[];
+}
+
+export interface ThreadGroupOutline extends JmxElementOutline {
+  threads?: string;
+  rampUp?: string;
+  duration?: string;
+  delay?: string;
+  loops?: string;
+  scheduler?: boolean;
+  onSampleError?: string;
+}
+
+export interface PropertyReference {
+  name: string;
+  defaultValue?: string;
+  usedIn: string[];
+}
+
+export interface TestPlanOutline {
+  file: string;
+  name: string;
+  enabled: boolean;
+  comments?: string;
+  variables: Record<string, string>;
+  threadGroups: ThreadGroupOutline[];
+  testPlanElements: JmxElementOutline[];
+  propertyReferences: PropertyReference[];
+  disabledElements: string[];
+  counts: Partial<Record<JmxElementKind, number>>;
+}
+
+export interface LoadShapeEdit {
+  threadGroup?: string;
+  threads?: number | string;
+  rampUp?: number | string;
+  duration?: number | string;
+  delay?: number | string;
+  loops?: number | string;
+}
+
+export interface RenameEdit {
+  element: string;
+  name: string;
+}
+
+export interface RetargetEdit {
+  host: string;
+  protocol?: string;
+  port?: number | string;
+  fromHost?: string;
+  samplers?: string[];
+}
+
+export interface HeaderEdit {
+  set?: Record<string, string>;
+  remove?: string[];
+  headerManager?: string;
+}
+
+export interface TestPlanEdits {
+  loadShape?: LoadShapeEdit[];
+  rename?: RenameEdit[];
+  retarget?: RetargetEdit;
+  enable?: string[];
+  disable?: string[];
+  headers?: HeaderEdit;
+}
+
+export interface TestPlanModificationOptions {
+  testPlan: string;
+  outputPath?: string;
+  edits: TestPlanEdits;
+  backup?: boolean;
+  dryRun?: boolean;
+}
+
+export interface TestPlanModificationResult {
+  testPlan: string;
+  outputPath: string;
+  dryRun: boolean;
+  backupPath?: string;
+  changes: string[];
+  diff: string;
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRuleSetting = LintSeverity | 'off';
+
+export interface LintFinding {
+  rule: string;
+  severity: LintSeverity;
+  path: string;
+  message: string;
+  fix: string;
+  elements?: string[];
+}
+
+export interface LintRuleInfo {
+  id: string;
+  description: string;
+  severity: LintRuleSetting;
+}
+
+export interface LintResult {
+  file: string;
+  passed: boolean;
+  counts: Record<LintSeverity, number>;
+  findings: LintFinding[];
+  rules: LintRuleInfo[];
+}
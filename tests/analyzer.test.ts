@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ResultsAnalyzer } from '../src/analyzer.js';
+import { fixture } from './helpers.js';
+
+describe('ResultsAnalyzer', () => {
+  const analyzer = new ResultsAnalyzer();
+
+  describe('CSV results', () => {
+    it('parses every row, including quoted fields with commas and quotes', async () => {
+      const results = await analyzer.parseResults(fixture('results.csv'));
+
+      assert.equal(results.length, 26);
+      const failure = results.find(result => !result.success);
+      assert.equal(failure?.label, 'POST /login');
+      assert.equal(failure?.responseCode, '500');
+      assert.equal(failure?.failureMessage, 'Expected "200", got 500');
+    });
+
+    it('recognises transactions by their response message', async () => {
+      const transactions = await analyzer.parseResults(fixture('results.csv'), 'transactions');
+
+      assert.deepEqual(transactions.map(result => result.label), ['Checkout']);
+    });
+
+    it('counts requests only by default', async () => {
+      const { summary, endpoints } = await analyzer.analyzeResults(fixture('results.csv'));
+
+      assert.equal(summary.totalRequests, 25);
+      assert.equal(summary.failedRequests, 1);
+      assert.equal(summary.errorRate, 4);
+      assert.deepEqual(endpoints.map(endpoint => endpoint.label).sort(), ['GET /users', 'POST /login']);
+    });
+
+    it('computes nearest-rank percentiles', async () => {
+      const { endpoints } = await analyzer.analyzeResults(fixture('results.csv'));
+      const users = endpoints.find(endpoint => endpoint.label === 'GET /users')!;
+
+      assert.equal(users.samples, 20);
+      assert.equal(users.average, 105);
+      assert.equal(users.min, 10);
+      assert.equal(users.median, 100);
+      assert.equal(users.percentile90, 180);
+      assert.equal(users.percentile95, 190);
+      assert.equal(users.percentile99, 200);
+      assert.equal(users.max, 200);
+    });
+
+    it('groups errors by response code', async () => {
+      const { errors } = await analyzer.analyzeResults(fixture('results.csv'));
+
+      assert.equal(errors.length, 1);
+      assert.equal(errors[0].responseCode, '500');
+      assert.equal(errors[0].count, 1);
+      assert.deepEqual(errors[0].affectedEndpoints, ['POST /login']);
+    });
+  });
+
+  describe('XML results', () => {
+    it('splits nested samples into transactions, requests and sub-results', async () => {
+      const all = await analyzer.parseResults(fixture('results.xml'));
+      const kinds = Object.fromEntries(all.map(result => [result.label, result.kind]));
+
+      assert.deepEqual(kinds, {
+        'GET /login-0': 'subresult',
+        'GET /login-1': 'subresult',
+        'GET /login': 'request',
+        'POST /login': 'request',
+        'Login': 'transaction',
+        'GET /health & status': 'request'
+      });
+    });
+
+    it('reads attributes and assertion failures', async () => {
+      const requests = await analyzer.parseResults(fixture('results.xml'), 'requests');
+      const failed = requests.find(result => !result.success)!;
+
+      assert.equal(failed.label, 'POST /login');
+      assert.equal(failed.elapsed, 200);
+      assert.equal(failed.timestamp, 1700000000100);
+      assert.equal(failed.failureMessage, 'Expected <200>');
+    });
+
+    it('analyzes requests without double-counting their transaction', async () => {
+      const { summary } = await analyzer.analyzeResults(fixture('results.xml'));
+
+      assert.equal(summary.totalRequests, 3);
+      assert.equal(summary.failedRequests, 1);
+      assert.equal(summary.maxResponseTime, 200);
+    });
+  });
+});
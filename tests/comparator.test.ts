@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ResultsAnalyzer } from '../src/analyzer.js';
+import { ResultsComparator } from '../src/comparator.js';
+import { fixture } from './helpers.js';
+
+describe('ResultsComparator', () => {
+  const comparator = new ResultsComparator(new ResultsAnalyzer());
+
+  it('flags a significantly slower label as a regression', async () => {
+    const comparison = await comparator.compareResults(fixture('baseline.csv'), fixture('candidate.csv'));
+    const users = comparison.labels.find(label => label.label === 'GET /users')!;
+
+    assert.equal(comparison.verdict, 'regression');
+    assert.equal(users.verdict, 'regression');
+    assert.equal(users.average.delta, 50);
+    assert.ok(users.responseTimePValue !== null && users.responseTimePValue < 0.05);
+    assert.ok(users.reasons.some(reason => reason.startsWith('average +')));
+  });
+
+  it('leaves a label with identical samples unchanged', async () => {
+    const comparison = await comparator.compareResults(fixture('baseline.csv'), fixture('candidate.csv'));
+    const health = comparison.labels.find(label => label.label === 'GET /health')!;
+
+    assert.equal(health.verdict, 'unchanged');
+    assert.ok(health.responseTimePValue !== null && health.responseTimePValue > 0.99);
+    assert.equal(health.average.delta, 0);
+  });
+
+  it('lists labels found in only one of the runs', async () => {
+    const comparison = await comparator.compareResults(fixture('baseline.csv'), fixture('candidate.csv'));
+
+    assert.deepEqual(comparison.missingInCandidate, ['GET /legacy']);
+    assert.deepEqual(comparison.newInCandidate, ['GET /new']);
+    assert.equal(comparison.labels.length, 2);
+  });
+
+  it('accepts changes within the tolerance band', async () => {
+    const comparison = await comparator.compareResults(
+      fixture('baseline.csv'),
+      fixture('candidate.csv'),
+      { responseTimePercent: 50 }
+    );
+
+    assert.equal(comparison.verdict, 'unchanged');
+    assert.deepEqual(comparison.counts, { regression: 0, improvement: 0, unchanged: 2 });
+  });
+
+  it('reports an improvement when the runs are swapped', async () => {
+    const comparison = await comparator.compareResults(fixture('candidate.csv'), fixture('baseline.csv'));
+
+    assert.equal(comparison.verdict, 'improvement');
+    assert.equal(comparison.labels[0].label, 'GET /users');
+    assert.equal(comparison.labels[0].verdict, 'improvement');
+  });
+
+  it('applies tolerance bands without significance testing below minSamples', async () => {
+    const comparison = await comparator.compareResults(
+      fixture('baseline.csv'),
+      fixture('candidate.csv'),
+      { minSamples: 100 }
+    );
+    const users = comparison.labels.find(label => label.label === 'GET /users')!;
+
+    assert.equal(users.verdict, 'regression');
+    assert.equal(users.responseTimePValue, null);
+    assert.match(users.reasons.at(-1)!, /^Fewer than 100 samples/);
+  });
+});
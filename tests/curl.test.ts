@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { TestPlanBuilder } from '../src/builder.js';
+import { CurlImporter } from '../src/curl.js';
+import { readSamplers, tempDir } from './helpers.js';
+
+describe('CurlImporter', () => {
+  const importer = new CurlImporter(new TestPlanBuilder());
+
+  describe('parseCommand', () => {
+    it('reads method, URL, headers and body', () => {
+      const { step, warnings } = importer.parseCommand(
+        `curl -X POST 'https://api.example.com/users?page=2' -H 'Content-Type: application/json' ` +
+        `-H "Authorization: Bearer abc" -d '{"name":"Ann"}'`
+      );
+
+      assert.deepEqual(step, {
+        url: 'https://api.example.com/users?page=2',
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer abc' },
+        body: '{"name":"Ann"}'
+      });
+      assert.deepEqual(warnings, []);
+    });
+
+    it('sends --json bodies as JSON', () => {
+      const { step } = importer.parseCommand(`curl --json '{"a":1}' https://api.example.com/items`);
+
+      assert.equal(step.method, 'POST');
+      assert.equal(step.body, '{"a":1}');
+      assert.deepEqual(step.headers, { 'Content-Type': 'application/json', Accept: 'application/json' });
+    });
+
+    it('expands clustered short options', () => {
+      const { step } = importer.parseCommand('curl -sSLI https://example.com/');
+
+      assert.equal(step.method, 'HEAD');
+      assert.equal(step.url, 'https://example.com/');
+    });
+
+    it('turns --user into Basic authentication', () => {
+      const { step } = importer.parseCommand('curl -u bob:secret --retry 3 https://example.com/private');
+
+      assert.equal(step.headers?.Authorization, `Basic ${Buffer.from('bob:secret').toString('base64')}`);
+    });
+
+    it('moves data into the query string with --get', () => {
+      const { step } = importer.parseCommand('curl https://example.com/search -G -d q=shoes -d size=42');
+
+      assert.equal(step.method, 'GET');
+      assert.equal(step.url, 'https://example.com/search?q=shoes&size=42');
+      assert.equal(step.body, undefined);
+    });
+
+    it('skips the value of unknown long options with a warning', () => {
+      const { step, warnings } = importer.parseCommand('curl https://example.com --frobnicate value');
+
+      assert.equal(step.url, 'https://example.com');
+      assert.deepEqual(warnings, ['Ignored option --frobnicate value']);
+    });
+
+    it('rejects commands without a URL', () => {
+      assert.throws(() => importer.parseCommand('curl -X POST'), /No URL found/);
+    });
+  });
+
+  it('writes one sampler per command', async () => {
+    const outputPath = path.join(await tempDir(), 'curl.jmx');
+    const result = await importer.importCommands({
+      commands: [
+        'curl https://api.example.com/health',
+        `curl -X DELETE https://api.example.com/users/42 -H 'Accept: application/json'`
+      ],
+      outputPath,
+      threads: 1,
+      rampUp: 1,
+      duration: 10
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.requests, 2);
+    assert.deepEqual(await readSamplers(outputPath), [
+      'GET api.example.com /health',
+      'DELETE api.example.com /users/42'
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import { before, describe, it } from 'node:test';
+import { TestPlanEditor } from '../src/editor.js';
+import { parseJmx, walkJmx } from '../src/jmx.js';
+import type { JmxElement } from '../src/types.js';
+import { fixture } from './helpers.js';
+
+function elements(content: string): JmxElement[] {
+  const found: JmxElement[] = [];
+  walkJmx(parseJmx(content), element => found.push(element));
+  return found;
+}
+
+function element(content: string, tag: string): JmxElement {
+  return elements(content).find(candidate => candidate.tag === tag)!;
+}
+
+describe('TestPlanEditor', () => {
+  const editor = new TestPlanEditor();
+  let plan: string;
+
+  before(async () => {
+    plan = await fs.readFile(fixture('plan.jmx'), 'utf-8');
+  });
+
+  it('leaves the file untouched without edits', () => {
+    const { text, changes } = editor.applyEdits(plan, {});
+
+    assert.equal(text, plan);
+    assert.deepEqual(changes, []);
+  });
+
+  it('only rewrites the edited properties', () => {
+    const { text } = editor.applyEdits(plan, { loadShape: [{ threads: 50 }] });
+
+    assert.equal(text, plan.replace('num_threads">10<', 'num_threads">50<'));
+  });
+
+  describe('self-closing collections', () => {
+    it('adds headers to an empty Header Manager', () => {
+      const { text, changes } = editor.applyEdits(plan, { headers: { set: { Accept: 'application/json', 'X-Run': '1' } } });
+      const headers = element(text, 'HeaderManager').collections['HeaderManager.headers'];
+
+      assert.deepEqual(headers, [
+        { 'Header.name': 'Accept', 'Header.value': 'application/json' },
+        { 'Header.name': 'X-Run', 'Header.value': '1' }
+      ]);
+      assert.equal(changes.length, 2);
+    });
+
+    it('round-trips: editing the result again with the same headers changes nothing', () => {
+      const edits = { headers: { set: { Accept: 'application/json' } } };
+      const first = editor.applyEdits(plan, edits).text;
+      const second = editor.applyEdits(first, edits);
+
+      assert.equal(second.text, first);
+      assert.deepEqual(second.changes, []);
+    });
+  });
+
+  describe('repeated edits of one property', () => {
+    it('merges edits that agree', () => {
+      const { text, changes } = editor.applyEdits(plan, {
+        loadShape: [{ threads: 50, duration: 600 }, { threadGroup: 'Users', threads: 50, duration: 600 }]
+      });
+      const threadGroup = element(text, 'ThreadGroup');
+
+      assert.equal(threadGroup.properties['ThreadGroup.num_threads'], '50');
+      assert.equal(threadGroup.properties['ThreadGroup.duration'], '600');
+      assert.equal(threadGroup.properties['ThreadGroup.scheduler'], 'true');
+      assert.equal(changes.length, 3);
+    });
+
+    it('adds a missing property once', () => {
+      const { text } = editor.applyEdits(plan, { loadShape: [{ delay: 5 }, { threadGroup: 'Users', delay: 5 }] });
+
+      assert.equal(text.match(/name="ThreadGroup\.delay"/g)?.length, 1);
+      assert.equal(element(text, 'ThreadGroup').properties['ThreadGroup.delay'], '5');
+    });
+
+    it('rejects edits that disagree', () => {
+      assert.throws(
+        () => editor.applyEdits(plan, { loadShape: [{ threads: 50 }, { threadGroup: 'Users', threads: 20 }] }),
+        /Conflicting edits: ThreadGroup\.num_threads of Shop > Users set to both "50" and "20"/
+      );
+    });
+  });
+
+  describe('selectors', () => {
+    it('match names containing ">"', () => {
+      const { text } = editor.applyEdits(plan, { rename: [{ element: 'GET /items?price>5', name: 'Cheap items' }] });
+
+      assert.equal(element(text, 'HTTPSamplerProxy').name, 'Cheap items');
+    });
+
+    it('match paths ending in a name containing ">"', () => {
+      const { text } = editor.applyEdits(plan, { disable: ['Users > Browse>GET /items?price>5'] });
+
+      assert.equal(element(text, 'HTTPSamplerProxy').enabled, false);
+      assert.match(text, /testname="GET \/items\?price&gt;5" enabled="false"/);
+    });
+
+    it('do not match partial names', () => {
+      assert.throws(() => editor.applyEdits(plan, { disable: ['price>5'] }), /No element matches "price>5"/);
+    });
+  });
+});
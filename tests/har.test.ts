@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { TestPlanBuilder } from '../src/builder.js';
+import { HarImporter } from '../src/har.js';
+import { fixture, readElements, readSamplers, tempDir } from './helpers.js';
+
+describe('HarImporter', () => {
+  const importer = new HarImporter(new TestPlanBuilder());
+  const options = { harFile: fixture('recording.har'), threads: 1, rampUp: 1, duration: 10 };
+
+  it('groups requests by page and drops static assets and unsupported methods', async () => {
+    const outputPath = path.join(await tempDir(), 'har.jmx');
+    const result = await importer.importHar({ ...options, outputPath });
+    const controllers = (await readElements(outputPath))
+      .filter(element => element.tag === 'TransactionController')
+      .map(element => element.name);
+
+    assert.equal(result.requests, 3);
+    assert.equal(result.excluded, 1);
+    assert.deepEqual(result.skipped, ['OPTIONS https://shop.io/login: OPTIONS is not supported']);
+    assert.deepEqual(controllers, ['Home', 'Login']);
+    assert.deepEqual(await readSamplers(outputPath), [
+      'GET shop.io /?a=1',
+      'GET shop.io /api/cart',
+      'POST shop.io /login'
+    ]);
+  });
+
+  it('replaces recorded cookies with a Cookie Manager', async () => {
+    const outputPath = path.join(await tempDir(), 'har.jmx');
+    const result = await importer.importHar({ ...options, outputPath });
+    const elements = await readElements(outputPath);
+    const headers = elements
+      .filter(element => element.tag === 'HeaderManager')
+      .flatMap(element => element.collections['HeaderManager.headers'].map(header => header['Header.name']));
+
+    assert.equal(result.cookieManager, true);
+    assert.ok(elements.some(element => element.tag === 'CookieManager'));
+    assert.ok(!headers.includes('Cookie'));
+    assert.ok(!headers.some(header => header.startsWith(':')));
+  });
+
+  it('leaves the Cookie Manager out when the recording sent no cookies', async () => {
+    const har = JSON.parse(await fs.readFile(fixture('recording.har'), 'utf-8'));
+    for (const entry of har.log.entries) {
+      delete entry.request.cookies;
+      entry.request.headers = entry.request.headers.filter((header: { name: string }) => header.name !== 'Cookie');
+    }
+    const directory = await tempDir();
+    const harFile = path.join(directory, 'no-cookies.har');
+    await fs.writeFile(harFile, JSON.stringify(har), 'utf-8');
+
+    const result = await importer.importHar({ ...options, harFile, outputPath: path.join(directory, 'har.jmx') });
+
+    assert.equal(result.cookieManager, false);
+  });
+
+  it('turns pauses between pages into capped think time', async () => {
+    const outputPath = path.join(await tempDir(), 'har.jmx');
+    await importer.importHar({ ...options, outputPath, groupByPage: false, maxThinkTimeMs: 1000 });
+    const pauses = (await readElements(outputPath))
+      .filter(element => element.tag === 'ConstantTimer')
+      .map(element => element.properties['ConstantTimer.delay']);
+
+    assert.deepEqual(pauses, ['1000']);
+  });
+
+  it('rejects files without log entries', async () => {
+    const directory = await tempDir();
+    const harFile = path.join(directory, 'empty.har');
+    await fs.writeFile(harFile, '{"log":{}}', 'utf-8');
+
+    await assert.rejects(
+      importer.importHar({ ...options, harFile, outputPath: path.join(directory, 'har.jmx') }),
+      /log\.entries is missing/
+    );
+  });
+});
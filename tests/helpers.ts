@@ -0,0 +1,42 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseJmx, walkJmx } from '../src/jmx.js';
+import type { JmxElement } from '../src/types.js';
+
+/**
+ * Path of a file in tests/fixtures. Tests run from dist-test/tests, so the
+ * path leads back to the sources.
+ */
+export function fixture(name: string): string {
+  return fileURLToPath(new URL(`../../tests/fixtures/${name}`, import.meta.url));
+}
+
+/**
+ * Create an empty temporary directory for files a test writes
+ */
+export function tempDir(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), 'jmeter-mcp-test-'));
+}
+
+/**
+ * Read a JMX file and return its elements in document order
+ */
+export async function readElements(filePath: string): Promise<JmxElement[]> {
+  const elements: JmxElement[] = [];
+  walkJmx(parseJmx(await fs.readFile(filePath, 'utf-8')), element => elements.push(element));
+  return elements;
+}
+
+/**
+ * The HTTP samplers of a JMX file as "METHOD domain path" lines
+ */
+export async function readSamplers(filePath: string): Promise<string[]> {
+  return (await readElements(filePath))
+    .filter(element => element.tag === 'HTTPSamplerProxy')
+    .map(({ properties }) => ['HTTPSampler.method', 'HTTPSampler.domain', 'HTTPSampler.path']
+      .map(name => properties[name])
+      .filter(Boolean)
+      .join(' '));
+}
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { TestPlanBuilder } from '../src/builder.js';
+import { OpenApiImporter } from '../src/openapi.js';
+import { fixture, readElements, readSamplers, tempDir } from './helpers.js';
+
+describe('OpenApiImporter', () => {
+  const importer = new OpenApiImporter(new TestPlanBuilder());
+  const options = { threads: 1, rampUp: 1, duration: 10 };
+
+  it('builds one sampler per operation from an OpenAPI 3 spec', async () => {
+    const outputPath = path.join(await tempDir(), 'openapi.jmx');
+    const result = await importer.importSpec({ specFile: fixture('petstore.yaml'), outputPath, ...options });
+
+    assert.equal(result.operations, 4);
+    assert.deepEqual(result.skipped, ['headPets: HEAD is not supported']);
+    assert.deepEqual(await readSamplers(outputPath), [
+      'GET api.example.com /v1/pets?limit=5',
+      'POST api.example.com /v1/pets',
+      'GET api.example.com /v1/pets/00000000-0000-4000-8000-000000000000',
+      'DELETE api.example.com /v1/pets/00000000-0000-4000-8000-000000000000'
+    ]);
+  });
+
+  it('generates request bodies from schemas, skipping read-only fields and cycles', async () => {
+    const outputPath = path.join(await tempDir(), 'openapi.jmx');
+    await importer.importSpec({ specFile: fixture('petstore.yaml'), outputPath, includeOperations: ['createPet'], ...options });
+    const sampler = (await readElements(outputPath)).find(element => element.tag === 'HTTPSamplerProxy')!;
+    const body = JSON.parse(sampler.collections['Arguments.arguments'][0]['Argument.value']);
+
+    assert.equal(body.name, 'Rex');
+    assert.equal(body.id, undefined);
+    assert.ok(Array.isArray(body.owner.pets));
+  });
+
+  it('filters operations by tag', async () => {
+    const outputPath = path.join(await tempDir(), 'openapi.jmx');
+    const result = await importer.importSpec({ specFile: fixture('petstore.yaml'), outputPath, excludeTags: ['admin'], ...options });
+
+    assert.equal(result.operations, 3);
+    assert.ok(!(await readSamplers(outputPath)).some(sampler => sampler.startsWith('DELETE')));
+  });
+
+  it('uses baseUrl instead of the servers list', async () => {
+    const outputPath = path.join(await tempDir(), 'openapi.jmx');
+    await importer.importSpec({
+      specFile: fixture('petstore.yaml'),
+      outputPath,
+      baseUrl: 'http://localhost:8080',
+      includeOperations: ['listPets'],
+      ...options
+    });
+
+    assert.deepEqual(await readSamplers(outputPath), ['GET localhost /pets?limit=5']);
+  });
+
+  it('reads Swagger 2 host, basePath, form and body parameters', async () => {
+    const outputPath = path.join(await tempDir(), 'swagger.jmx');
+    const result = await importer.importSpec({ specFile: fixture('swagger.json'), outputPath, ...options });
+    const bodies = (await readElements(outputPath))
+      .filter(element => element.tag === 'HTTPSamplerProxy')
+      .map(element => element.collections['Arguments.arguments'][0]['Argument.value']);
+
+    assert.equal(result.operations, 2);
+    assert.deepEqual(await readSamplers(outputPath), ['POST x.io /api/login', 'PUT x.io /api/items']);
+    assert.equal(bodies[0], 'user=string&pw=s3cret');
+    assert.deepEqual(JSON.parse(bodies[1]), { n: 1 });
+  });
+
+  it('requires baseUrl for Swagger 2 specs without a host', async () => {
+    const spec = JSON.parse(await fs.readFile(fixture('swagger.json'), 'utf-8'));
+    delete spec.host;
+    const directory = await tempDir();
+    const specFile = path.join(directory, 'no-host.json');
+    await fs.writeFile(specFile, JSON.stringify(spec), 'utf-8');
+
+    await assert.rejects(
+      importer.importSpec({ specFile, outputPath: path.join(directory, 'swagger.jmx'), ...options }),
+      /declares no host; pass baseUrl/
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { TestPlanBuilder } from '../src/builder.js';
+import { PostmanImporter } from '../src/postman.js';
+import type { HttpStep, TransactionStep } from '../src/types.js';
+import { fixture, readElements, readSamplers, tempDir } from './helpers.js';
+
+describe('PostmanImporter', () => {
+  const importer = new PostmanImporter(new TestPlanBuilder());
+  const options = { threads: 1, rampUp: 1, duration: 10 };
+
+  it('turns folders into transactions named by their path', async () => {
+    const outputPath = path.join(await tempDir(), 'postman.jmx');
+    const result = await importer.importCollection({ collectionFile: fixture('collection.json'), outputPath, ...options });
+    const controllers = (await readElements(outputPath))
+      .filter(element => element.tag === 'TransactionController')
+      .map(element => element.name);
+
+    assert.equal(result.requests, 5);
+    assert.equal(result.transactions, 2);
+    assert.deepEqual(controllers, ['Users', 'Users / Admin']);
+    assert.deepEqual(await readSamplers(outputPath), [
+      'GET ${baseUrl}/health',
+      'GET ${baseUrl}/users/42?x=${__UUID()}',
+      'POST auth.shop.io /login',
+      'PUT ${baseUrl}/f',
+      'POST ${baseUrl}/graphql'
+    ]);
+  });
+
+  it('declares collection variables as User Defined Variables, with overrides', async () => {
+    const outputPath = path.join(await tempDir(), 'postman.jmx');
+    const result = await importer.importCollection({
+      collectionFile: fixture('collection.json'),
+      outputPath,
+      variables: { baseUrl: 'https://staging.shop.io' },
+      ...options
+    });
+    const testPlan = (await readElements(outputPath)).find(element => element.tag === 'TestPlan')!;
+    const declared = Object.fromEntries(
+      testPlan.collections['Arguments.arguments'].map(argument => [argument['Argument.name'], argument['Argument.value']])
+    );
+
+    assert.deepEqual(result.variables, ['baseUrl', 'user']);
+    assert.deepEqual(declared, { baseUrl: 'https://staging.shop.io', user: 'bob' });
+  });
+
+  it('converts bodies, auth, path variables and dynamic variables', async () => {
+    const collection = JSON.parse(await fs.readFile(fixture('collection.json'), 'utf-8'));
+    const warnings: string[] = [];
+    const steps = importer.buildSteps(collection, { user: 'bob' }, warnings);
+    const users = steps[1] as TransactionStep;
+    const [getUser, login] = users.steps as HttpStep[];
+
+    assert.equal(getUser.url, '${baseUrl}/users/42?x=${__UUID()}');
+    assert.deepEqual(getUser.headers, { Accept: 'application/json', Authorization: 'Bearer ${token}' });
+    assert.equal(login.body, 'a=1%202');
+    assert.equal(login.headers?.['Content-Type'], 'application/x-www-form-urlencoded');
+    assert.equal(login.headers?.Authorization, `Basic ${Buffer.from('bob:pw').toString('base64')}`);
+    assert.equal((steps[3] as HttpStep).body, JSON.stringify({ query: '{ me { id } }', variables: { a: 1 } }));
+    assert.deepEqual(warnings, ['Form: file field "f" was skipped']);
+  });
+
+  it('rejects collections exported as v2.0', async () => {
+    const collection = JSON.parse(await fs.readFile(fixture('collection.json'), 'utf-8'));
+    collection.info.schema = 'https://schema.getpostman.com/json/collection/v2.0.0/collection.json';
+    const directory = await tempDir();
+    const collectionFile = path.join(directory, 'v2.0.json');
+    await fs.writeFile(collectionFile, JSON.stringify(collection), 'utf-8');
+
+    await assert.rejects(
+      importer.importCollection({ collectionFile, outputPath: path.join(directory, 'postman.jmx'), ...options }),
+      /export the collection as v2\.1/
+    );
+  });
+});
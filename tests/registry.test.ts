@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import type { ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { describe, it } from 'node:test';
+import { MAX_ENDED_RUNS, RunRegistry } from '../src/registry.js';
+
+/**
+ * A stand-in for a spawned process that exits when told to
+ */
+function fakeChild(): ChildProcess & { exit(code: number): void } {
+  const child = Object.assign(new EventEmitter(), {
+    pid: undefined,
+    exit(code: number) {
+      child.emit('close', code, null);
+    }
+  });
+  return child as unknown as ChildProcess & { exit(code: number): void };
+}
+
+describe('RunRegistry', () => {
+  it('records how a run ended', async () => {
+    const registry = new RunRegistry();
+    const child = fakeChild();
+    const { runId } = registry.register(child, { kind: 'test', testPlan: 'plan.jmx' });
+
+    assert.equal(registry.getStatus(runId)?.status, 'running');
+    child.exit(1);
+    const run = await registry.wait(runId);
+
+    assert.equal(run?.status, 'failed');
+    assert.equal(run?.exitCode, 1);
+  });
+
+  it(`keeps the ${MAX_ENDED_RUNS} most recently ended runs and every running one`, () => {
+    const registry = new RunRegistry();
+    const running = registry.register(fakeChild(), { kind: 'test' });
+    const ended: string[] = [];
+    for (let i = 0; i < MAX_ENDED_RUNS + 5; i++) {
+      const child = fakeChild();
+      ended.push(registry.register(child, { kind: 'test' }).runId);
+      child.exit(0);
+    }
+
+    assert.equal(registry.list().length, MAX_ENDED_RUNS + 1);
+    assert.equal(registry.getStatus(running.runId)?.status, 'running');
+    assert.equal(registry.getStatus(ended[4]), undefined);
+    assert.equal(registry.getStatus(ended[5])?.status, 'finished');
+  });
+});
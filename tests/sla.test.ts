@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { describe, it } from 'node:test';
+import { ResultsAnalyzer } from '../src/analyzer.js';
+import { SlaEvaluator } from '../src/sla.js';
+import { fixture, tempDir } from './helpers.js';
+
+describe('SlaEvaluator', () => {
+  const evaluator = new SlaEvaluator(new ResultsAnalyzer());
+
+  describe('parseRule', () => {
+    it('normalises metric aliases and units', () => {
+      assert.deepEqual(evaluator.parseRule('p95 < 1.5s'), {
+        metric: 'p95',
+        operator: '<',
+        value: 1500,
+        description: 'p95 < 1.5s'
+      });
+      assert.equal(evaluator.parseRule('error_rate <= 1%').metric, 'errorRate');
+      assert.equal(evaluator.parseRule('rps >= 20').metric, 'throughput');
+    });
+
+    it('rejects rules it cannot parse', () => {
+      assert.throws(() => evaluator.parseRule('p95 is fast'), /Invalid SLA rule/);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('gives a verdict per rule for global and label rules', async () => {
+      const evaluation = await evaluator.evaluate(fixture('results.csv'), evaluator.validateDocument({
+        global: ['p95 < 300ms', 'errorRate < 1%'],
+        labels: {
+          'GET /users': ['avg <= 105', 'max < 200']
+        }
+      }));
+
+      assert.equal(evaluation.passed, false);
+      assert.deepEqual(
+        evaluation.results.map(result => [result.scope, result.rule, result.actual, result.passed]),
+        [
+          ['global', 'p95 < 300ms', 190, true],
+          ['global', 'errorRate < 1%', 4, false],
+          ['GET /users', 'avg <= 105', 105, true],
+          ['GET /users', 'max < 200', 200, false]
+        ]
+      );
+      assert.equal(evaluation.failedCount, 2);
+    });
+
+    it('applies "*" rules to every label', async () => {
+      const evaluation = await evaluator.evaluate(fixture('results.csv'), evaluator.validateDocument({
+        labels: { '*': ['errorRate == 0'] }
+      }));
+
+      assert.deepEqual(
+        evaluation.results.map(result => [result.scope, result.passed]).sort(),
+        [['GET /users', true], ['POST /login', false]]
+      );
+    });
+
+    it('fails rules for labels missing from the results', async () => {
+      const evaluation = await evaluator.evaluate(fixture('results.csv'), evaluator.validateDocument({
+        labels: { 'GET /missing': ['p95 < 1000'] }
+      }));
+
+      assert.equal(evaluation.passed, false);
+      assert.equal(evaluation.results[0].actual, null);
+    });
+
+    it('writes one JUnit test case per rule', async () => {
+      const junitFile = path.join(await tempDir(), 'sla.xml');
+      await evaluator.evaluate(fixture('results.csv'), evaluator.validateDocument({
+        global: ['p95 < 300ms', 'errorRate < 1%']
+      }), junitFile);
+      const xml = await fs.readFile(junitFile, 'utf-8');
+
+      assert.equal(xml.match(/<testcase /g)?.length, 2);
+      assert.equal(xml.match(/<failure /g)?.length, 1);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LatencyHistogram, mannWhitneyU } from '../src/stats.js';
+
+describe('LatencyHistogram', () => {
+  it('returns exact nearest-rank percentiles below 256 ms', () => {
+    const histogram = new LatencyHistogram();
+    for (let value = 1; value <= 100; value++) {
+      histogram.record(value);
+    }
+
+    assert.equal(histogram.percentile(50), 50);
+    assert.equal(histogram.percentile(90), 90);
+    assert.equal(histogram.percentile(99), 99);
+    assert.equal(histogram.percentile(100), 100);
+  });
+
+  it('keeps larger values within 1% of the exact percentile', () => {
+    const histogram = new LatencyHistogram();
+    const values: number[] = [];
+    for (let i = 0; i < 1000; i++) {
+      const value = 300 + ((i * 7919) % 60000);
+      values.push(value);
+      histogram.record(value);
+    }
+    values.sort((a, b) => a - b);
+
+    for (const percentile of [50, 90, 95, 99]) {
+      const exact = values[Math.ceil((percentile / 100) * values.length) - 1];
+      const estimate = histogram.percentile(percentile);
+      assert.ok(Math.abs(estimate - exact) / exact < 0.01, `p${percentile}: ${estimate} vs. ${exact}`);
+    }
+  });
+
+  it('merges into the same percentiles as recording everything in one histogram', () => {
+    const whole = new LatencyHistogram();
+    const first = new LatencyHistogram();
+    const second = new LatencyHistogram();
+    for (let value = 1; value <= 2000; value += 3) {
+      whole.record(value);
+      (value % 2 === 0 ? first : second).record(value);
+    }
+    first.merge(second);
+
+    assert.equal(first.count, whole.count);
+    for (const percentile of [50, 90, 99]) {
+      assert.equal(first.percentile(percentile), whole.percentile(percentile));
+    }
+  });
+});
+
+describe('mannWhitneyU', () => {
+  const histogramOf = (values: number[]) => {
+    const histogram = new LatencyHistogram();
+    values.forEach(value => histogram.record(value));
+    return histogram;
+  };
+  const range = (start: number, count: number) => Array.from({ length: count }, (_, i) => start + i);
+
+  it('finds a shifted distribution significant, with z positive for the slower side', () => {
+    const test = mannWhitneyU(histogramOf(range(150, 50)), histogramOf(range(100, 50)))!;
+
+    assert.ok(test.pValue < 0.001);
+    assert.ok(test.z > 0);
+  });
+
+  it('finds identical distributions not significant', () => {
+    const test = mannWhitneyU(histogramOf(range(100, 50)), histogramOf(range(100, 50)))!;
+
+    assert.ok(test.pValue > 0.9);
+  });
+});